@@ -5,11 +5,22 @@ import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { AuthProvider } from "@/hooks/use-auth";
 import { CartProvider } from "@/hooks/use-cart";
+import { WishlistProvider } from "@/hooks/use-wishlist";
 import { ProtectedRoute } from "./lib/protected-route";
 import HomePage from "@/pages/home-page";
 import AuthPage from "@/pages/auth-page";
+import ForgotPasswordPage from "@/pages/forgot-password-page";
+import ResetPasswordPage from "@/pages/reset-password-page";
+import VerifyEmailPage from "@/pages/verify-email-page";
 import ProductPage from "@/pages/product-page";
 import AdminPage from "@/pages/admin-page";
+import WishlistPage from "@/pages/wishlist-page";
+import OrderStatusPage from "@/pages/order-status-page";
+import AccountPage from "@/pages/account-page";
+import AccountOrdersPage from "@/pages/account-orders-page";
+import AccountOrderPage from "@/pages/account-order-page";
+import AccountAddressesPage from "@/pages/account-addresses-page";
+import AccountSecurityPage from "@/pages/account-security-page";
 import NotFound from "@/pages/not-found";
 
 function Router() {
@@ -17,8 +28,18 @@ function Router() {
     <Switch>
       <Route path="/" component={HomePage} />
       <Route path="/auth" component={AuthPage} />
+      <Route path="/forgot-password" component={ForgotPasswordPage} />
+      <Route path="/reset-password" component={ResetPasswordPage} />
+      <Route path="/verify-email" component={VerifyEmailPage} />
       <Route path="/products/:id" component={ProductPage} />
+      <Route path="/orders/lookup/:token" component={OrderStatusPage} />
       <ProtectedRoute path="/admin" component={AdminPage} />
+      <ProtectedRoute path="/wishlist" component={WishlistPage} />
+      <ProtectedRoute path="/account" component={AccountPage} />
+      <ProtectedRoute path="/account/orders" component={AccountOrdersPage} />
+      <ProtectedRoute path="/account/orders/:id" component={AccountOrderPage} />
+      <ProtectedRoute path="/account/addresses" component={AccountAddressesPage} />
+      <ProtectedRoute path="/account/security" component={AccountSecurityPage} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -30,8 +51,10 @@ function App() {
       <TooltipProvider>
         <AuthProvider>
           <CartProvider>
-            <Toaster />
-            <Router />
+            <WishlistProvider>
+              <Toaster />
+              <Router />
+            </WishlistProvider>
           </CartProvider>
         </AuthProvider>
       </TooltipProvider>
@@ -0,0 +1,149 @@
+import { Control, FieldValues, Path, useWatch } from "react-hook-form";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { COUNTRIES, COUNTRY_CODES, DEFAULT_COUNTRY, type CountryCode, type PostalAddress } from "@shared/address";
+
+export const emptyAddress: PostalAddress = {
+  fullName: "",
+  line1: "",
+  line2: "",
+  city: "",
+  region: "",
+  postalCode: "",
+  country: DEFAULT_COUNTRY,
+  phone: "",
+};
+
+// Renders the fields of a PostalAddress nested under `prefix` in a form, with
+// labels and placeholders that follow the selected country.
+export function AddressFields<T extends FieldValues>({ control, prefix }: { control: Control<T>; prefix: string }) {
+  const name = (field: keyof PostalAddress) => `${prefix}.${field}` as Path<T>;
+  const country: CountryCode = useWatch({ control, name: name("country") }) ?? DEFAULT_COUNTRY;
+  const rule = COUNTRIES[country];
+
+  return (
+    <div className="space-y-4">
+      <FormField
+        control={control}
+        name={name("fullName")}
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Full Name</FormLabel>
+            <FormControl>
+              <Input placeholder="John Doe" {...field} />
+            </FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+      <FormField
+        control={control}
+        name={name("country")}
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Country</FormLabel>
+            <Select onValueChange={field.onChange} value={field.value}>
+              <FormControl>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+              </FormControl>
+              <SelectContent>
+                {COUNTRY_CODES.map((code) => (
+                  <SelectItem key={code} value={code}>
+                    {COUNTRIES[code].name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+      <FormField
+        control={control}
+        name={name("line1")}
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Address</FormLabel>
+            <FormControl>
+              <Input placeholder="123 Main St" {...field} />
+            </FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+      <FormField
+        control={control}
+        name={name("line2")}
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Apartment, suite, etc. (optional)</FormLabel>
+            <FormControl>
+              <Input {...field} value={field.value ?? ""} />
+            </FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+      <div className="grid grid-cols-3 gap-4">
+        <FormField
+          control={control}
+          name={name("city")}
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>City</FormLabel>
+              <FormControl>
+                <Input {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={control}
+          name={name("region")}
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>
+                {rule.regionLabel}
+                {!rule.requiresRegion && " (optional)"}
+              </FormLabel>
+              <FormControl>
+                <Input {...field} value={field.value ?? ""} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={control}
+          name={name("postalCode")}
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>{rule.postalCodeLabel}</FormLabel>
+              <FormControl>
+                <Input placeholder={rule.postalCodeExample} {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      </div>
+      <FormField
+        control={control}
+        name={name("phone")}
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Phone (optional)</FormLabel>
+            <FormControl>
+              <Input type="tel" {...field} value={field.value ?? ""} />
+            </FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { Plus, Edit, Trash2, Package, Users, ShoppingCart, DollarSign } from "lucide-react";
+import { Plus, Edit, Trash2, Package, Users, ShoppingCart, DollarSign, Settings, Star, Check, X, Tag, Undo2, Mail, UserCog, Search, type LucideIcon } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
@@ -9,6 +9,7 @@ import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { useForm } from "react-hook-form";
@@ -16,7 +17,17 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { Product, Category, Order } from "@shared/schema";
+import { useStoreSettings } from "@/hooks/use-store-settings";
+import { Product, Category, Order, StoreSettings, ReviewStatus, ReviewWithAuthor, Promotion, ReturnRequestWithItems, OutboxEmail, StaffMember, OrderCustomer, SearchSynonym, ProductListing } from "@shared/schema";
+import { USER_ROLES, ROLE_LABELS, hasPermission, type Permission, type UserRole } from "@shared/permissions";
+import { toMinorUnits, fromMinorUnits, type PromotionType } from "@shared/pricing";
+import { ORDER_STATUS_LABELS, nextOrderStatuses, type OrderStatus } from "@shared/order-status";
+import { RETURN_STATUSES, RETURN_STATUS_LABELS, RETURN_REASON_LABELS, nextReturnStatuses, type ReturnStatus } from "@shared/returns";
+import { OrderStatusBadge, OrderTimeline, type TimelineEvent } from "@/components/order-timeline";
+import { ReturnStatusBadge } from "@/components/return-requests";
+import { AddressCard } from "@/components/order-summary";
+import { CustomersManager, UserDetailDialog } from "@/components/admin-users";
+import { SearchInsightsReport } from "@/components/search-insights";
 
 const productSchema = z.object({
   name: z.string().min(1, "Name is required"),
@@ -33,27 +44,1245 @@ const productSchema = z.object({
 
 type ProductFormData = z.infer<typeof productSchema>;
 
-export function AdminPanel() {
-  const [activeTab, setActiveTab] = useState("dashboard");
+const amountPattern = /^\d+(\.\d{1,2})?$/;
+
+const settingsSchema = z.object({
+  currency: z.string().length(3, "Use a 3-letter ISO code"),
+  currencySymbol: z.string().min(1, "Symbol is required").max(4),
+  taxRate: z.string().regex(amountPattern, "Enter a percentage, e.g. 8 or 8.25"),
+  freeShippingThreshold: z.string().regex(amountPattern, "Enter an amount, e.g. 50.00"),
+  flatShippingFee: z.string().regex(amountPattern, "Enter an amount, e.g. 9.99"),
+  requireAdminTwoFactor: z.boolean(),
+});
+
+type SettingsFormData = z.infer<typeof settingsSchema>;
+
+function StoreSettingsForm() {
+  const { toast } = useToast();
+
+  const { data: settings } = useQuery<StoreSettings>({
+    queryKey: ["/api/admin/settings"],
+  });
+
+  const form = useForm<SettingsFormData>({
+    resolver: zodResolver(settingsSchema),
+    defaultValues: {
+      currency: "",
+      currencySymbol: "",
+      taxRate: "",
+      freeShippingThreshold: "",
+      flatShippingFee: "",
+      requireAdminTwoFactor: false,
+    },
+  });
+
+  useEffect(() => {
+    if (settings) {
+      form.reset({
+        currency: settings.currency,
+        currencySymbol: settings.currencySymbol,
+        // basis points are shown as a percentage: 825 -> "8.25"
+        taxRate: fromMinorUnits(settings.taxRateBps),
+        freeShippingThreshold: fromMinorUnits(settings.freeShippingThreshold),
+        flatShippingFee: fromMinorUnits(settings.flatShippingFee),
+        requireAdminTwoFactor: settings.requireAdminTwoFactor,
+      });
+    }
+  }, [settings]);
+
+  const updateSettingsMutation = useMutation({
+    mutationFn: async (data: SettingsFormData) => {
+      const res = await apiRequest("PUT", "/api/admin/settings", {
+        currency: data.currency.toUpperCase(),
+        currencySymbol: data.currencySymbol,
+        taxRateBps: toMinorUnits(data.taxRate),
+        freeShippingThreshold: toMinorUnits(data.freeShippingThreshold),
+        flatShippingFee: toMinorUnits(data.flatShippingFee),
+        requireAdminTwoFactor: data.requireAdminTwoFactor,
+      });
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/settings"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/cart/quote"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/2fa"] });
+      toast({
+        title: "Settings saved",
+        description: "Store settings have been updated.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card className="max-w-2xl">
+      <CardHeader>
+        <CardTitle>Store Settings</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((data) => updateSettingsMutation.mutate(data))} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="currency"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Currency</FormLabel>
+                    <FormControl>
+                      <Input placeholder="USD" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="currencySymbol"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Currency Symbol</FormLabel>
+                    <FormControl>
+                      <Input placeholder="$" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <div className="grid grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="taxRate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Tax Rate (%)</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="0.01" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="freeShippingThreshold"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Free Shipping Over</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="0.01" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="flatShippingFee"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Flat Shipping Fee</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="0.01" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <FormField
+              control={form.control}
+              name="requireAdminTwoFactor"
+              render={({ field }) => (
+                <FormItem className="flex items-center space-x-2 space-y-0">
+                  <FormControl>
+                    <Checkbox checked={field.value} onCheckedChange={(checked) => field.onChange(checked === true)} />
+                  </FormControl>
+                  <FormLabel>Require two-factor authentication for administrators</FormLabel>
+                </FormItem>
+              )}
+            />
+            <div className="flex justify-end">
+              <Button type="submit" disabled={updateSettingsMutation.isPending}>
+                {updateSettingsMutation.isPending ? "Saving..." : "Save Settings"}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+}
+
+const idListPattern = /^\s*(\d+\s*(,\s*\d+\s*)*)?$/;
+
+const promotionFormSchema = z.object({
+  code: z.string().min(3, "Code must be at least 3 characters"),
+  description: z.string().optional(),
+  type: z.enum(["percentage", "fixed_amount", "free_shipping", "buy_x_get_y"]),
+  value: z.string().regex(amountPattern, "Enter a number, e.g. 10 or 5.00").or(z.literal("")),
+  buyQuantity: z.string().optional(),
+  getQuantity: z.string().optional(),
+  minSubtotal: z.string().regex(amountPattern, "Enter an amount, e.g. 25.00"),
+  productIds: z.string().regex(idListPattern, "Comma separated IDs, e.g. 3, 7"),
+  categoryIds: z.string().regex(idListPattern, "Comma separated IDs, e.g. 3, 7"),
+  usageLimit: z.string().optional(),
+  perCustomerLimit: z.string().optional(),
+  startsAt: z.string().optional(),
+  endsAt: z.string().optional(),
+  isActive: z.boolean().default(true),
+});
+
+type PromotionFormData = z.infer<typeof promotionFormSchema>;
+
+const promotionTypeLabels: Record<PromotionType, string> = {
+  percentage: "Percentage off",
+  fixed_amount: "Fixed amount off",
+  free_shipping: "Free shipping",
+  buy_x_get_y: "Buy X get Y free",
+};
+
+const emptyPromotionForm: PromotionFormData = {
+  code: "",
+  description: "",
+  type: "percentage",
+  value: "",
+  buyQuantity: "",
+  getQuantity: "",
+  minSubtotal: "0.00",
+  productIds: "",
+  categoryIds: "",
+  usageLimit: "",
+  perCustomerLimit: "",
+  startsAt: "",
+  endsAt: "",
+  isActive: true,
+};
+
+const parseIdList = (value: string) =>
+  value.split(",").map(id => id.trim()).filter(Boolean).map(id => parseInt(id));
+
+const parseOptionalInt = (value?: string) => (value ? parseInt(value) : null);
+
+// <input type="date"> works with yyyy-mm-dd strings
+const toDateInput = (date: Date | string | null) =>
+  date ? new Date(date).toISOString().slice(0, 10) : "";
+
+function PromotionsManager() {
+  const { toast } = useToast();
+  const { formatMoney } = useStoreSettings();
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingPromotion, setEditingPromotion] = useState<Promotion | null>(null);
+
+  const { data: promotions = [] } = useQuery<Promotion[]>({
+    queryKey: ["/api/admin/promotions"],
+  });
+
+  const form = useForm<PromotionFormData>({
+    resolver: zodResolver(promotionFormSchema),
+    defaultValues: emptyPromotionForm,
+  });
+  const type = form.watch("type");
+
+  const savePromotionMutation = useMutation({
+    mutationFn: async (data: PromotionFormData) => {
+      const promotionData = {
+        code: data.code,
+        description: data.description || null,
+        type: data.type,
+        // percentages are whole numbers, fixed amounts are stored in minor units
+        value: data.type === "fixed_amount" ? toMinorUnits(data.value || "0") : parseInt(data.value || "0"),
+        buyQuantity: data.type === "buy_x_get_y" ? parseOptionalInt(data.buyQuantity) : null,
+        getQuantity: data.type === "buy_x_get_y" ? parseOptionalInt(data.getQuantity) : null,
+        minSubtotal: toMinorUnits(data.minSubtotal),
+        productIds: parseIdList(data.productIds),
+        categoryIds: parseIdList(data.categoryIds),
+        usageLimit: parseOptionalInt(data.usageLimit),
+        perCustomerLimit: parseOptionalInt(data.perCustomerLimit),
+        startsAt: data.startsAt || null,
+        endsAt: data.endsAt || null,
+        isActive: data.isActive,
+      };
+      const res = editingPromotion
+        ? await apiRequest("PUT", `/api/admin/promotions/${editingPromotion.id}`, promotionData)
+        : await apiRequest("POST", "/api/admin/promotions", promotionData);
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/promotions"] });
+      setIsModalOpen(false);
+      toast({
+        title: "Promotion saved",
+        description: "The promotion has been saved.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deletePromotionMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/admin/promotions/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/promotions"] });
+      toast({
+        title: "Promotion deleted",
+        description: "The promotion has been removed.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleCreate = () => {
+    setEditingPromotion(null);
+    form.reset(emptyPromotionForm);
+    setIsModalOpen(true);
+  };
+
+  const handleEdit = (promotion: Promotion) => {
+    setEditingPromotion(promotion);
+    form.reset({
+      code: promotion.code,
+      description: promotion.description || "",
+      type: promotion.type,
+      value: promotion.type === "fixed_amount" ? fromMinorUnits(promotion.value) : promotion.value.toString(),
+      buyQuantity: promotion.buyQuantity?.toString() || "",
+      getQuantity: promotion.getQuantity?.toString() || "",
+      minSubtotal: fromMinorUnits(promotion.minSubtotal),
+      productIds: (promotion.productIds || []).join(", "),
+      categoryIds: (promotion.categoryIds || []).join(", "),
+      usageLimit: promotion.usageLimit?.toString() || "",
+      perCustomerLimit: promotion.perCustomerLimit?.toString() || "",
+      startsAt: toDateInput(promotion.startsAt),
+      endsAt: toDateInput(promotion.endsAt),
+      isActive: promotion.isActive,
+    });
+    setIsModalOpen(true);
+  };
+
+  const handleDelete = (id: number) => {
+    if (confirm("Are you sure you want to delete this promotion?")) {
+      deletePromotionMutation.mutate(id);
+    }
+  };
+
+  const describeValue = (promotion: Promotion) => {
+    switch (promotion.type) {
+      case "percentage":
+        return `${promotion.value}% off`;
+      case "fixed_amount":
+        return `${formatMoney(promotion.value)} off`;
+      case "free_shipping":
+        return "Free shipping";
+      case "buy_x_get_y":
+        return `Buy ${promotion.buyQuantity} get ${promotion.getQuantity}`;
+    }
+  };
+
+  const textField = (name: keyof PromotionFormData, label: string, inputType = "text", placeholder?: string) => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <FormControl>
+            <Input
+              type={inputType}
+              placeholder={placeholder}
+              {...field}
+              value={field.value as string | undefined}
+            />
+          </FormControl>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-6">
+        <h2 className="text-xl font-semibold">Promotions</h2>
+        <Button onClick={handleCreate}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Promotion
+        </Button>
+      </div>
+
+      <Dialog open={isModalOpen} onOpenChange={setIsModalOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              {editingPromotion ? "Edit Promotion" : "Add New Promotion"}
+            </DialogTitle>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((data) => savePromotionMutation.mutate(data))} className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                {textField("code", "Code", "text", "SUMMER10")}
+                <FormField
+                  control={form.control}
+                  name="type"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Type</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {Object.entries(promotionTypeLabels).map(([value, label]) => (
+                            <SelectItem key={value} value={value}>
+                              {label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              {textField("description", "Description", "text", "Shown to staff only")}
+              <div className="grid grid-cols-2 gap-4">
+                {type === "percentage" && textField("value", "Percent Off", "number")}
+                {type === "fixed_amount" && textField("value", "Amount Off", "number")}
+                {type === "buy_x_get_y" && textField("buyQuantity", "Buy Quantity", "number")}
+                {type === "buy_x_get_y" && textField("getQuantity", "Free Quantity", "number")}
+                {textField("minSubtotal", "Minimum Subtotal", "number")}
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                {textField("productIds", "Product IDs", "text", "All products")}
+                {textField("categoryIds", "Category IDs", "text", "All categories")}
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                {textField("usageLimit", "Total Uses", "number", "Unlimited")}
+                {textField("perCustomerLimit", "Uses per Customer", "number", "Unlimited")}
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                {textField("startsAt", "Starts", "date")}
+                {textField("endsAt", "Ends", "date")}
+              </div>
+              <FormField
+                control={form.control}
+                name="isActive"
+                render={({ field }) => (
+                  <FormItem className="flex items-center space-x-2 space-y-0">
+                    <FormControl>
+                      <Checkbox checked={field.value} onCheckedChange={(checked) => field.onChange(checked === true)} />
+                    </FormControl>
+                    <FormLabel>Active</FormLabel>
+                  </FormItem>
+                )}
+              />
+              <div className="flex justify-end space-x-2">
+                <Button type="button" variant="outline" onClick={() => setIsModalOpen(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={savePromotionMutation.isPending}>
+                  {editingPromotion ? "Update" : "Create"} Promotion
+                </Button>
+              </div>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      <Card>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Code</TableHead>
+              <TableHead>Discount</TableHead>
+              <TableHead>Uses</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {promotions.map((promotion) => (
+              <TableRow key={promotion.id}>
+                <TableCell>
+                  <div className="font-medium">{promotion.code}</div>
+                  {promotion.description && (
+                    <div className="text-sm text-slate-500">{promotion.description}</div>
+                  )}
+                </TableCell>
+                <TableCell>{describeValue(promotion)}</TableCell>
+                <TableCell>
+                  {promotion.usageCount}
+                  {promotion.usageLimit !== null && ` / ${promotion.usageLimit}`}
+                </TableCell>
+                <TableCell>
+                  <Badge variant={promotion.isActive ? "default" : "secondary"}>
+                    {promotion.isActive ? "Active" : "Inactive"}
+                  </Badge>
+                </TableCell>
+                <TableCell>
+                  <div className="flex space-x-2">
+                    <Button size="sm" variant="outline" onClick={() => handleEdit(promotion)}>
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                    <Button size="sm" variant="destructive" onClick={() => handleDelete(promotion.id)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+            {promotions.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center text-slate-500">
+                  No promotions yet
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </Card>
+    </div>
+  );
+}
+
+// Staff order responses carry the customer's name and email
+type OrderWithCustomer = Order & { customer?: OrderCustomer | null };
+
+type OrderWithTimeline = OrderWithCustomer & { statusEvents: TimelineEvent[] };
+
+function OrderDetailDialog({ orderId, canUpdateStatus, onClose }: {
+  orderId: number | null;
+  canUpdateStatus: boolean;
+  onClose: () => void;
+}) {
+  const { toast } = useToast();
+  const { formatPrice } = useStoreSettings();
+  const [nextStatus, setNextStatus] = useState<OrderStatus | "">("");
+  const [note, setNote] = useState("");
+
+  const { data: order } = useQuery<OrderWithTimeline>({
+    queryKey: [`/api/orders/${orderId}`],
+    enabled: orderId !== null,
+  });
+
+  const updateStatusMutation = useMutation({
+    mutationFn: async ({ status, note }: { status: OrderStatus; note: string }) => {
+      const res = await apiRequest("PUT", `/api/orders/${orderId}/status`, {
+        status,
+        note: note.trim() || undefined,
+      });
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/orders/${orderId}`] });
+      setNextStatus("");
+      setNote("");
+      toast({
+        title: "Order updated",
+        description: "The order status has been updated.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const allowedStatuses = order ? nextOrderStatuses(order.status) : [];
+
+  return (
+    <Dialog open={orderId !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Order #{orderId}</DialogTitle>
+        </DialogHeader>
+        {order && (
+          <div className="space-y-6">
+            <div className="flex items-center justify-between">
+              <div className="text-sm text-slate-600">
+                <p>{order.customer ? `${order.customer.fullName} (${order.customer.email})` : `Guest (${order.contactEmail})`}</p>
+                <p>Total {formatPrice(order.total)} • Payment {order.paymentStatus}</p>
+              </div>
+              <OrderStatusBadge status={order.status} />
+            </div>
+
+            <div className="grid md:grid-cols-2 gap-4">
+              <AddressCard title="Shipping Address" address={order.shippingAddress} />
+              {order.billingAddress && (
+                <AddressCard title="Billing Address" address={order.billingAddress} />
+              )}
+            </div>
+
+            {!canUpdateStatus ? null : allowedStatuses.length > 0 ? (
+              <div className="space-y-3">
+                <Label>Move to</Label>
+                <Select value={nextStatus} onValueChange={(value) => setNextStatus(value as OrderStatus)}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select next status" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {allowedStatuses.map((status) => (
+                      <SelectItem key={status} value={status}>
+                        {ORDER_STATUS_LABELS[status]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Textarea
+                  placeholder="Note (optional, visible to the customer)"
+                  maxLength={500}
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                />
+                <Button
+                  disabled={!nextStatus || updateStatusMutation.isPending}
+                  onClick={() => nextStatus && updateStatusMutation.mutate({ status: nextStatus, note })}
+                >
+                  {updateStatusMutation.isPending ? "Updating..." : "Update Status"}
+                </Button>
+              </div>
+            ) : (
+              <p className="text-sm text-slate-500">This order is closed.</p>
+            )}
+
+            <div>
+              <h3 className="font-semibold mb-4">History</h3>
+              <OrderTimeline events={order.statusEvents} />
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+type ReturnAction = { returnRequest: ReturnRequestWithItems; status: ReturnStatus };
+
+function ReturnsManager() {
+  const { toast } = useToast();
+  const { formatMoney } = useStoreSettings();
+  const [statusFilter, setStatusFilter] = useState<ReturnStatus | "all">("requested");
+  const [action, setAction] = useState<ReturnAction | null>(null);
+  const [adminNote, setAdminNote] = useState("");
+  const [refundAmount, setRefundAmount] = useState("");
+
+  const { data: returnRequests = [] } = useQuery<ReturnRequestWithItems[]>({
+    queryKey: ["/api/admin/returns", statusFilter],
+    queryFn: async () => {
+      const query = statusFilter === "all" ? "" : `?status=${statusFilter}`;
+      const res = await apiRequest("GET", `/api/admin/returns${query}`);
+      return await res.json();
+    },
+  });
+
+  const updateReturnMutation = useMutation({
+    mutationFn: async ({ returnRequest, status }: ReturnAction) => {
+      const res = await apiRequest("PUT", `/api/admin/returns/${returnRequest.id}/status`, {
+        status,
+        adminNote: adminNote.trim() || undefined,
+        refundAmount: status === "refunded" && refundAmount ? toMinorUnits(refundAmount) : undefined,
+      });
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/returns"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      setAction(null);
+      toast({
+        title: "Return updated",
+        description: "The return has been updated.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openAction = (returnRequest: ReturnRequestWithItems, status: ReturnStatus) => {
+    setAdminNote("");
+    setRefundAmount("");
+    setAction({ returnRequest, status });
+  };
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-6">
+        <h2 className="text-xl font-semibold">Returns</h2>
+        <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as ReturnStatus | "all")}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All</SelectItem>
+            {RETURN_STATUSES.map((status) => (
+              <SelectItem key={status} value={status}>
+                {RETURN_STATUS_LABELS[status]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <Dialog open={action !== null} onOpenChange={(open) => !open && setAction(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {action && `Mark return #${action.returnRequest.id} as ${RETURN_STATUS_LABELS[action.status].toLowerCase()}`}
+            </DialogTitle>
+          </DialogHeader>
+          {action && (
+            <div className="space-y-4">
+              {action.status === "received" && action.returnRequest.status === "approved" && (
+                <p className="text-sm text-slate-600">The returned items will be added back to stock.</p>
+              )}
+              {action.status === "refunded" && (
+                <div className="space-y-2">
+                  <Label>Refund amount</Label>
+                  <Input
+                    value={refundAmount}
+                    placeholder="The items' share of the order total"
+                    onChange={(e) => setRefundAmount(e.target.value)}
+                  />
+                </div>
+              )}
+              <div className="space-y-2">
+                <Label>Note to customer (optional)</Label>
+                <Textarea maxLength={1000} value={adminNote} onChange={(e) => setAdminNote(e.target.value)} />
+              </div>
+              <Button
+                className="w-full"
+                disabled={updateReturnMutation.isPending}
+                onClick={() => updateReturnMutation.mutate(action)}
+              >
+                {updateReturnMutation.isPending ? "Saving..." : "Confirm"}
+              </Button>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Card>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Return</TableHead>
+              <TableHead>Order</TableHead>
+              <TableHead>Items</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {returnRequests.map((returnRequest) => (
+              <TableRow key={returnRequest.id}>
+                <TableCell className="font-medium">
+                  #{returnRequest.id}
+                  <p className="text-xs text-slate-500">
+                    {new Date(returnRequest.createdAt).toLocaleDateString()}
+                  </p>
+                </TableCell>
+                <TableCell>#{returnRequest.orderId}</TableCell>
+                <TableCell className="max-w-xs">
+                  {returnRequest.items.map((item) => (
+                    <p key={item.id} className="text-sm">
+                      {item.orderItem.product.name} × {item.quantity}
+                      <span className="text-slate-500"> — {RETURN_REASON_LABELS[item.reason]}</span>
+                    </p>
+                  ))}
+                  {returnRequest.note && (
+                    <p className="text-xs text-slate-500 mt-1">“{returnRequest.note}”</p>
+                  )}
+                </TableCell>
+                <TableCell>
+                  <ReturnStatusBadge status={returnRequest.status} />
+                  {returnRequest.refundAmount !== null && (
+                    <p className="text-xs text-slate-500 mt-1">{formatMoney(returnRequest.refundAmount)}</p>
+                  )}
+                </TableCell>
+                <TableCell>
+                  <div className="flex space-x-2">
+                    {nextReturnStatuses(returnRequest.status).map((status) => (
+                      <Button
+                        key={status}
+                        size="sm"
+                        variant={status === "rejected" ? "destructive" : "outline"}
+                        onClick={() => openAction(returnRequest, status)}
+                      >
+                        {RETURN_STATUS_LABELS[status]}
+                      </Button>
+                    ))}
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+            {returnRequests.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center text-slate-500">
+                  No returns
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </Card>
+    </div>
+  );
+}
+
+// Messages captured by the outbox mailer. Links in them (password reset,
+// email verification) can be followed from here in development.
+function OutboxViewer() {
+  const [selectedEmail, setSelectedEmail] = useState<OutboxEmail | null>(null);
+
+  const { data: emails = [] } = useQuery<OutboxEmail[]>({
+    queryKey: ["/api/admin/outbox"],
+    refetchInterval: 10000,
+  });
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>To</TableHead>
+              <TableHead>Subject</TableHead>
+              <TableHead>Sent</TableHead>
+              <TableHead>Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {emails.map((email) => (
+              <TableRow key={email.id}>
+                <TableCell>{email.to}</TableCell>
+                <TableCell>{email.subject}</TableCell>
+                <TableCell>{new Date(email.createdAt).toLocaleString()}</TableCell>
+                <TableCell>
+                  <Button size="sm" variant="outline" onClick={() => setSelectedEmail(email)}>
+                    View
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+            {emails.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={4} className="text-center text-slate-500">
+                  No emails
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </Card>
+
+      <Dialog open={selectedEmail !== null} onOpenChange={(open) => !open && setSelectedEmail(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{selectedEmail?.subject}</DialogTitle>
+          </DialogHeader>
+          {selectedEmail && (
+            <div className="space-y-4">
+              <p className="text-sm text-slate-600">
+                To {selectedEmail.to} • {new Date(selectedEmail.createdAt).toLocaleString()}
+              </p>
+              <pre className="whitespace-pre-wrap break-all text-sm bg-slate-50 p-4 rounded-lg">
+                {selectedEmail.text}
+              </pre>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+// Roles that can be handed out here; "user" is assigned by removing someone
+const STAFF_ROLES = USER_ROLES.filter((role) => role !== "user");
+
+// Synonyms are edited as a comma-separated list
+const parseSynonymList = (value: string) =>
+  value.split(",").map((synonym) => synonym.trim()).filter(Boolean);
+
+function SearchSynonymsManager() {
+  const { toast } = useToast();
+  const [editingSynonym, setEditingSynonym] = useState<SearchSynonym | null>(null);
+  const [term, setTerm] = useState("");
+  const [synonymList, setSynonymList] = useState("");
+
+  const { data: synonyms = [] } = useQuery<SearchSynonym[]>({
+    queryKey: ["/api/admin/search-synonyms"],
+  });
+
+  const resetForm = () => {
+    setEditingSynonym(null);
+    setTerm("");
+    setSynonymList("");
+  };
+
+  const saveSynonymMutation = useMutation({
+    mutationFn: async () => {
+      const synonymData = { term, synonyms: parseSynonymList(synonymList) };
+      const res = editingSynonym
+        ? await apiRequest("PUT", `/api/admin/search-synonyms/${editingSynonym.id}`, synonymData)
+        : await apiRequest("POST", "/api/admin/search-synonyms", synonymData);
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/search-synonyms"] });
+      resetForm();
+      toast({
+        title: "Synonyms saved",
+        description: "Searches now use the updated synonyms.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteSynonymMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/admin/search-synonyms/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/search-synonyms"] });
+      toast({
+        title: "Synonyms deleted",
+        description: "The synonyms have been removed.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>{editingSynonym ? `Edit "${editingSynonym.term}"` : "Add Synonyms"}</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-slate-600">
+            A search for the term or any of its synonyms finds products matching the others too.
+          </p>
+          <div className="grid md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="synonym-term">Term</Label>
+              <Input id="synonym-term" placeholder="tv" value={term} onChange={(e) => setTerm(e.target.value)} />
+            </div>
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="synonym-list">Synonyms (comma-separated)</Label>
+              <Input
+                id="synonym-list"
+                placeholder="television, telly"
+                value={synonymList}
+                onChange={(e) => setSynonymList(e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="flex space-x-2">
+            <Button
+              disabled={!term.trim() || parseSynonymList(synonymList).length === 0 || saveSynonymMutation.isPending}
+              onClick={() => saveSynonymMutation.mutate()}
+            >
+              {editingSynonym ? "Save" : "Add"}
+            </Button>
+            {editingSynonym && (
+              <Button variant="outline" onClick={resetForm}>
+                Cancel
+              </Button>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Term</TableHead>
+              <TableHead>Synonyms</TableHead>
+              <TableHead>Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {synonyms.map((synonym) => (
+              <TableRow key={synonym.id}>
+                <TableCell className="font-medium">{synonym.term}</TableCell>
+                <TableCell>
+                  <div className="flex flex-wrap gap-1">
+                    {synonym.synonyms.map((word) => (
+                      <Badge key={word} variant="secondary">
+                        {word}
+                      </Badge>
+                    ))}
+                  </div>
+                </TableCell>
+                <TableCell>
+                  <div className="flex space-x-2">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => {
+                        setEditingSynonym(synonym);
+                        setTerm(synonym.term);
+                        setSynonymList(synonym.synonyms.join(", "));
+                      }}
+                    >
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => deleteSynonymMutation.mutate(synonym.id)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+            {synonyms.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={3} className="text-center text-slate-500">
+                  No synonyms yet
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </Card>
+    </div>
+  );
+}
+
+function TeamManager() {
+  const { toast } = useToast();
+  const [identifier, setIdentifier] = useState("");
+  const [newRole, setNewRole] = useState<UserRole | "">("");
+
+  const { data: staff = [] } = useQuery<StaffMember[]>({
+    queryKey: ["/api/admin/staff"],
+  });
+
+  const assignRoleMutation = useMutation({
+    mutationFn: async ({ identifier, role }: { identifier: string; role: UserRole }) => {
+      const res = await apiRequest("PUT", "/api/admin/staff", { identifier, role });
+      return await res.json();
+    },
+    onSuccess: (member: StaffMember) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/staff"] });
+      setIdentifier("");
+      setNewRole("");
+      toast({
+        title: "Role updated",
+        description: `${member.username} is now ${ROLE_LABELS[member.role]}.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleRemove = (member: StaffMember) => {
+    if (confirm(`Remove ${member.username} from the team? They keep their customer account.`)) {
+      assignRoleMutation.mutate({ identifier: member.username, role: "user" });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Add Team Member</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form
+            className="flex flex-col md:flex-row gap-3"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (identifier.trim() && newRole) {
+                assignRoleMutation.mutate({ identifier: identifier.trim(), role: newRole });
+              }
+            }}
+          >
+            <Input
+              placeholder="Username or email of an existing account"
+              value={identifier}
+              onChange={(e) => setIdentifier(e.target.value)}
+            />
+            <Select value={newRole} onValueChange={(value) => setNewRole(value as UserRole)}>
+              <SelectTrigger className="md:w-56">
+                <SelectValue placeholder="Role" />
+              </SelectTrigger>
+              <SelectContent>
+                {STAFF_ROLES.map((role) => (
+                  <SelectItem key={role} value={role}>
+                    {ROLE_LABELS[role]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button type="submit" disabled={!identifier.trim() || !newRole || assignRoleMutation.isPending}>
+              Assign Role
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Username</TableHead>
+              <TableHead>Name</TableHead>
+              <TableHead>Email</TableHead>
+              <TableHead>Role</TableHead>
+              <TableHead>Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {staff.map((member) => (
+              <TableRow key={member.id}>
+                <TableCell className="font-medium">{member.username}</TableCell>
+                <TableCell>{member.fullName}</TableCell>
+                <TableCell>{member.email}</TableCell>
+                <TableCell>
+                  <Select
+                    value={member.role}
+                    onValueChange={(value) =>
+                      assignRoleMutation.mutate({ identifier: member.username, role: value as UserRole })
+                    }
+                  >
+                    <SelectTrigger className="w-48">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {STAFF_ROLES.map((role) => (
+                        <SelectItem key={role} value={role}>
+                          {ROLE_LABELS[role]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </TableCell>
+                <TableCell>
+                  <Button size="sm" variant="outline" onClick={() => handleRemove(member)}>
+                    Remove
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </Card>
+    </div>
+  );
+}
+
+type AdminTab = "dashboard" | "products" | "orders" | "reviews" | "promotions" | "returns" | "emails" | "customers" | "search" | "team" | "settings";
+
+// Tabs in sidebar order, each shown only to roles with its permission
+const ADMIN_TABS: Array<{ id: AdminTab; label: string; icon: LucideIcon; permission: Permission }> = [
+  { id: "dashboard", label: "Dashboard", icon: Package, permission: "reports:read" },
+  { id: "products", label: "Products", icon: Package, permission: "catalog:manage" },
+  { id: "orders", label: "Orders", icon: ShoppingCart, permission: "orders:read" },
+  { id: "reviews", label: "Reviews", icon: Star, permission: "reviews:moderate" },
+  { id: "promotions", label: "Promotions", icon: Tag, permission: "promotions:manage" },
+  { id: "returns", label: "Returns", icon: Undo2, permission: "returns:manage" },
+  { id: "emails", label: "Emails", icon: Mail, permission: "emails:read" },
+  { id: "customers", label: "Customers", icon: Users, permission: "customers:read" },
+  { id: "search", label: "Search", icon: Search, permission: "catalog:manage" },
+  { id: "team", label: "Team", icon: UserCog, permission: "users:manage" },
+  { id: "settings", label: "Settings", icon: Settings, permission: "settings:manage" },
+];
+
+export function AdminPanel({ role }: { role: string }) {
+  const can = (permission: Permission) => hasPermission(role, permission);
+  const tabs = ADMIN_TABS.filter((tab) => can(tab.permission));
+  const [activeTab, setActiveTab] = useState<AdminTab>(tabs[0]?.id ?? "dashboard");
   const [isProductModalOpen, setIsProductModalOpen] = useState(false);
   const [editingProduct, setEditingProduct] = useState<Product | null>(null);
+  const [reviewStatusFilter, setReviewStatusFilter] = useState<ReviewStatus>("pending");
+  const [selectedOrderId, setSelectedOrderId] = useState<number | null>(null);
+  const [selectedCustomerId, setSelectedCustomerId] = useState<number | null>(null);
   const { toast } = useToast();
+  const { formatPrice } = useStoreSettings();
 
   // Queries
   const { data: stats } = useQuery({
     queryKey: ["/api/admin/stats"],
+    enabled: can("reports:read"),
   });
 
-  const { data: products = [] } = useQuery<Product[]>({
-    queryKey: ["/api/products"],
+  const { data: productListing } = useQuery<ProductListing>({
+    queryKey: ["/api/products", { limit: 100 }],
+    queryFn: async () => {
+      const res = await apiRequest("GET", "/api/products?limit=100");
+      return await res.json();
+    },
   });
+  const products = productListing?.products ?? [];
 
   const { data: categories = [] } = useQuery<Category[]>({
     queryKey: ["/api/categories"],
   });
 
-  const { data: orders = [] } = useQuery<Order[]>({
+  const { data: orders = [] } = useQuery<OrderWithCustomer[]>({
     queryKey: ["/api/orders"],
+    enabled: can("orders:read"),
+  });
+
+  const { data: reviewData } = useQuery<{ reviews: ReviewWithAuthor[]; total: number }>({
+    queryKey: ["/api/admin/reviews", reviewStatusFilter],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/admin/reviews?status=${reviewStatusFilter}&limit=100`);
+      return await res.json();
+    },
+    enabled: activeTab === "reviews",
   });
 
   // Product form
@@ -132,6 +1361,28 @@ export function AdminPanel() {
         description: "Product has been deleted successfully.",
       });
     },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const moderateReviewMutation = useMutation({
+    mutationFn: async ({ id, status }: { id: number; status: ReviewStatus }) => {
+      const res = await apiRequest("PUT", `/api/reviews/${id}/status`, { status });
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/reviews"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      toast({
+        title: "Review updated",
+        description: "The review status has been updated.",
+      });
+    },
   });
 
   const handleEditProduct = (product: Product) => {
@@ -174,33 +1425,18 @@ export function AdminPanel() {
             <h2 className="text-xl font-bold">Admin Panel</h2>
           </div>
           <nav className="p-6 space-y-2">
-            <button
-              onClick={() => setActiveTab("dashboard")}
-              className={`w-full flex items-center space-x-3 p-3 rounded-lg transition-colors ${
-                activeTab === "dashboard" ? "bg-slate-700" : "hover:bg-slate-700"
-              }`}
-            >
-              <Package className="h-5 w-5" />
-              <span>Dashboard</span>
-            </button>
-            <button
-              onClick={() => setActiveTab("products")}
-              className={`w-full flex items-center space-x-3 p-3 rounded-lg transition-colors ${
-                activeTab === "products" ? "bg-slate-700" : "hover:bg-slate-700"
-              }`}
-            >
-              <Package className="h-5 w-5" />
-              <span>Products</span>
-            </button>
-            <button
-              onClick={() => setActiveTab("orders")}
-              className={`w-full flex items-center space-x-3 p-3 rounded-lg transition-colors ${
-                activeTab === "orders" ? "bg-slate-700" : "hover:bg-slate-700"
-              }`}
-            >
-              <ShoppingCart className="h-5 w-5" />
-              <span>Orders</span>
-            </button>
+            {tabs.map((tab) => (
+              <button
+                key={tab.id}
+                onClick={() => setActiveTab(tab.id)}
+                className={`w-full flex items-center space-x-3 p-3 rounded-lg transition-colors ${
+                  activeTab === tab.id ? "bg-slate-700" : "hover:bg-slate-700"
+                }`}
+              >
+                <tab.icon className="h-5 w-5" />
+                <span>{tab.label}</span>
+              </button>
+            ))}
           </nav>
         </div>
 
@@ -208,9 +1444,7 @@ export function AdminPanel() {
         <div className="flex-1 overflow-y-auto">
           <div className="p-6 bg-white border-b">
             <h1 className="text-2xl font-bold text-slate-800">
-              {activeTab === "dashboard" && "Dashboard"}
-              {activeTab === "products" && "Products"}
-              {activeTab === "orders" && "Orders"}
+              {tabs.find((tab) => tab.id === activeTab)?.label}
             </h1>
           </div>
 
@@ -241,7 +1475,7 @@ export function AdminPanel() {
                         <div>
                           <p className="text-slate-600 text-sm">Revenue</p>
                           <p className="text-2xl font-bold text-slate-800">
-                            ${stats?.totalRevenue || "0"}
+                            {formatPrice(stats?.totalRevenue || "0")}
                           </p>
                         </div>
                         <div className="bg-green-100 p-3 rounded-lg">
@@ -465,7 +1699,7 @@ export function AdminPanel() {
                               </div>
                             </div>
                           </TableCell>
-                          <TableCell>${product.price}</TableCell>
+                          <TableCell>{formatPrice(product.price)}</TableCell>
                           <TableCell>{product.stock}</TableCell>
                           <TableCell>
                             <Badge variant={product.isActive ? "default" : "secondary"}>
@@ -510,37 +1744,150 @@ export function AdminPanel() {
                         <TableHead>Total</TableHead>
                         <TableHead>Status</TableHead>
                         <TableHead>Date</TableHead>
+                        <TableHead>Actions</TableHead>
                       </TableRow>
                     </TableHeader>
                     <TableBody>
                       {orders.map((order) => (
                         <TableRow key={order.id}>
                           <TableCell className="font-medium">#{order.id}</TableCell>
-                          <TableCell>{order.userId}</TableCell>
-                          <TableCell>${order.total}</TableCell>
                           <TableCell>
-                            <Badge
-                              variant={
-                                order.status === "completed"
-                                  ? "default"
-                                  : order.status === "processing"
-                                  ? "secondary"
-                                  : "outline"
-                              }
-                            >
-                              {order.status}
-                            </Badge>
+                            {order.customer ? (
+                              can("customers:read") ? (
+                                <button className="text-left hover:underline" onClick={() => setSelectedCustomerId(order.customer!.id)}>
+                                  {order.customer.fullName}
+                                </button>
+                              ) : (
+                                order.customer.fullName
+                              )
+                            ) : (
+                              `Guest (${order.contactEmail})`
+                            )}
+                          </TableCell>
+                          <TableCell>{formatPrice(order.total)}</TableCell>
+                          <TableCell>
+                            <OrderStatusBadge status={order.status} />
                           </TableCell>
                           <TableCell>
                             {new Date(order.createdAt).toLocaleDateString()}
                           </TableCell>
+                          <TableCell>
+                            <Button size="sm" variant="outline" onClick={() => setSelectedOrderId(order.id)}>
+                              View
+                            </Button>
+                          </TableCell>
                         </TableRow>
                       ))}
                     </TableBody>
                   </Table>
                 </Card>
+                <OrderDetailDialog
+                  orderId={selectedOrderId}
+                  canUpdateStatus={can("orders:update")}
+                  onClose={() => setSelectedOrderId(null)}
+                />
+                <UserDetailDialog userId={selectedCustomerId} can={can} onClose={() => setSelectedCustomerId(null)} />
               </div>
             )}
+
+            {activeTab === "reviews" && (
+              <div>
+                <div className="flex justify-between items-center mb-6">
+                  <h2 className="text-xl font-semibold">Reviews</h2>
+                  <Select
+                    value={reviewStatusFilter}
+                    onValueChange={(value) => setReviewStatusFilter(value as ReviewStatus)}
+                  >
+                    <SelectTrigger className="w-48">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="pending">Pending</SelectItem>
+                      <SelectItem value="approved">Approved</SelectItem>
+                      <SelectItem value="rejected">Rejected</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <Card>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Product</TableHead>
+                        <TableHead>Author</TableHead>
+                        <TableHead>Rating</TableHead>
+                        <TableHead>Review</TableHead>
+                        <TableHead>Date</TableHead>
+                        <TableHead>Actions</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {(reviewData?.reviews ?? []).map((review) => (
+                        <TableRow key={review.id}>
+                          <TableCell>#{review.productId}</TableCell>
+                          <TableCell>
+                            <div>{review.authorName}</div>
+                            {review.isVerifiedPurchase && (
+                              <Badge variant="outline" className="text-green-600 border-green-600">
+                                Verified
+                              </Badge>
+                            )}
+                          </TableCell>
+                          <TableCell>{review.rating} / 5</TableCell>
+                          <TableCell className="max-w-md">
+                            <div className="font-medium">{review.title}</div>
+                            <div className="text-sm text-slate-500 line-clamp-2">{review.body}</div>
+                          </TableCell>
+                          <TableCell>
+                            {new Date(review.createdAt).toLocaleDateString()}
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex space-x-2">
+                              {review.status !== "approved" && (
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => moderateReviewMutation.mutate({ id: review.id, status: "approved" })}
+                                >
+                                  <Check className="h-4 w-4" />
+                                </Button>
+                              )}
+                              {review.status !== "rejected" && (
+                                <Button
+                                  size="sm"
+                                  variant="destructive"
+                                  onClick={() => moderateReviewMutation.mutate({ id: review.id, status: "rejected" })}
+                                >
+                                  <X className="h-4 w-4" />
+                                </Button>
+                              )}
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </Card>
+              </div>
+            )}
+
+            {activeTab === "promotions" && <PromotionsManager />}
+
+            {activeTab === "returns" && <ReturnsManager />}
+
+            {activeTab === "emails" && <OutboxViewer />}
+
+            {activeTab === "customers" && <CustomersManager can={can} />}
+
+            {activeTab === "search" && (
+              <div className="space-y-6">
+                <SearchInsightsReport />
+                <SearchSynonymsManager />
+              </div>
+            )}
+
+            {activeTab === "team" && <TeamManager />}
+
+            {activeTab === "settings" && <StoreSettingsForm />}
           </div>
         </div>
       </div>
@@ -0,0 +1,504 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { OrderStatusBadge } from "@/components/order-timeline";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useStoreSettings } from "@/hooks/use-store-settings";
+import {
+  AdminUserDetail,
+  AdminUserSort,
+  AuditAction,
+  AuditLogEntryWithActor,
+  UserSummary,
+} from "@shared/schema";
+import { USER_ROLES, ROLE_LABELS, type Permission, type UserRole } from "@shared/permissions";
+
+const PAGE_SIZE = 20;
+
+const SORT_LABELS: Record<AdminUserSort, string> = {
+  newest: "Newest first",
+  oldest: "Oldest first",
+  name: "Name",
+  orders: "Most orders",
+  lifetime_value: "Highest lifetime value",
+};
+
+const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  "user.disabled": "Disabled the account",
+  "user.enabled": "Enabled the account",
+  "user.password_reset_sent": "Sent a password reset link",
+  "user.password_reset": "Reset the password",
+  "user.role_changed": "Changed the role",
+  "user.note_added": "Added a note",
+  "user.sessions_revoked": "Signed the account out everywhere",
+};
+
+function auditDetails(entry: AuditLogEntryWithActor): string | null {
+  const details = entry.details ?? {};
+  if (entry.action === "user.role_changed") {
+    return `${ROLE_LABELS[details.from as UserRole] ?? details.from} → ${ROLE_LABELS[details.to as UserRole] ?? details.to}`;
+  }
+  if (entry.action === "user.disabled" && details.reason) {
+    return `Reason: ${details.reason}`;
+  }
+  return null;
+}
+
+function UserStatusBadges({ user }: { user: UserSummary }) {
+  return (
+    <div className="flex flex-wrap gap-1">
+      {user.disabledAt ? <Badge variant="destructive">Disabled</Badge> : <Badge variant="secondary">Active</Badge>}
+      {!user.emailVerifiedAt && <Badge variant="outline">Unverified</Badge>}
+      {user.role !== "user" && <Badge>{ROLE_LABELS[user.role]}</Badge>}
+    </div>
+  );
+}
+
+export function UserDetailDialog({ userId, can, onClose }: {
+  userId: number | null;
+  can: (permission: Permission) => boolean;
+  onClose: () => void;
+}) {
+  const { toast } = useToast();
+  const { formatPrice } = useStoreSettings();
+  const [note, setNote] = useState("");
+  const [disableReason, setDisableReason] = useState("");
+
+  const { data: detail } = useQuery<AdminUserDetail>({
+    queryKey: [`/api/admin/users/${userId}`],
+    enabled: userId !== null,
+  });
+
+  const onSuccess = (message: string) => () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/users"] });
+    queryClient.invalidateQueries({ queryKey: [`/api/admin/users/${userId}`] });
+    toast({ title: message });
+  };
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const disableMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", `/api/admin/users/${userId}/disable`, { reason: disableReason.trim() || undefined });
+    },
+    onSuccess: () => {
+      setDisableReason("");
+      onSuccess("Account disabled")();
+    },
+    onError,
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", `/api/admin/users/${userId}/enable`, {});
+    },
+    onSuccess: onSuccess("Account enabled"),
+    onError,
+  });
+
+  const passwordResetMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", `/api/admin/users/${userId}/password-reset`, {});
+    },
+    onSuccess: onSuccess("Password reset link sent"),
+    onError,
+  });
+
+  const signOutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", `/api/admin/users/${userId}/sessions`);
+    },
+    onSuccess: onSuccess("Signed out of every session"),
+    onError,
+  });
+
+  const roleMutation = useMutation({
+    mutationFn: async (role: UserRole) => {
+      await apiRequest("PUT", `/api/admin/users/${userId}/role`, { role });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/staff"] });
+      onSuccess("Role updated")();
+    },
+    onError,
+  });
+
+  const noteMutation = useMutation({
+    mutationFn: async (body: string) => {
+      await apiRequest("POST", `/api/admin/users/${userId}/notes`, { body });
+    },
+    onSuccess: () => {
+      setNote("");
+      onSuccess("Note added")();
+    },
+    onError,
+  });
+
+  const user = detail?.user;
+
+  return (
+    <Dialog open={userId !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{user ? user.fullName : "Customer"}</DialogTitle>
+        </DialogHeader>
+        {detail && user && (
+          <div className="space-y-8">
+            <div className="grid md:grid-cols-2 gap-4 text-sm">
+              <div className="space-y-1">
+                <p className="text-slate-800">{user.username}</p>
+                <p className="text-slate-600">{user.email}</p>
+                <p className="text-slate-600">Joined {new Date(user.createdAt).toLocaleDateString()}</p>
+                <UserStatusBadges user={user} />
+              </div>
+              <div className="space-y-1 md:text-right">
+                <p className="text-slate-600">{user.orderCount} order(s)</p>
+                <p className="text-2xl font-bold text-slate-800">{formatPrice(user.lifetimeValue)}</p>
+                <p className="text-slate-600">Lifetime value</p>
+              </div>
+            </div>
+
+            {(can("customers:manage") || can("users:manage")) && (
+              <div className="space-y-4">
+                <h3 className="font-semibold">Actions</h3>
+                {can("users:manage") && (
+                  <div className="flex items-center space-x-3">
+                    <Label>Role</Label>
+                    <Select value={user.role} onValueChange={(value) => roleMutation.mutate(value as UserRole)}>
+                      <SelectTrigger className="w-56">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {USER_ROLES.map((role) => (
+                          <SelectItem key={role} value={role}>
+                            {ROLE_LABELS[role]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+                {can("customers:manage") && (
+                  <>
+                    <div className="flex flex-wrap gap-2">
+                      <Button
+                        variant="outline"
+                        disabled={passwordResetMutation.isPending}
+                        onClick={() => passwordResetMutation.mutate()}
+                      >
+                        Send Password Reset
+                      </Button>
+                      <Button
+                        variant="outline"
+                        disabled={detail.sessions.length === 0 || signOutMutation.isPending}
+                        onClick={() => signOutMutation.mutate()}
+                      >
+                        Sign Out Everywhere
+                      </Button>
+                      {user.disabledAt && (
+                        <Button disabled={enableMutation.isPending} onClick={() => enableMutation.mutate()}>
+                          Enable Account
+                        </Button>
+                      )}
+                    </div>
+                    {!user.disabledAt && (
+                      <div className="flex flex-col md:flex-row gap-2">
+                        <Input
+                          placeholder="Reason for disabling (optional)"
+                          maxLength={500}
+                          value={disableReason}
+                          onChange={(e) => setDisableReason(e.target.value)}
+                        />
+                        <Button
+                          variant="destructive"
+                          disabled={disableMutation.isPending}
+                          onClick={() => {
+                            if (confirm(`Disable ${user.username}? They will be signed out and can't sign in again until enabled.`)) {
+                              disableMutation.mutate();
+                            }
+                          }}
+                        >
+                          Disable Account
+                        </Button>
+                      </div>
+                    )}
+                  </>
+                )}
+              </div>
+            )}
+
+            <div>
+              <h3 className="font-semibold mb-4">Recent Orders</h3>
+              {detail.orders.length === 0 ? (
+                <p className="text-sm text-slate-500">No orders yet.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Order ID</TableHead>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Total</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {detail.orders.map((order) => (
+                      <TableRow key={order.id}>
+                        <TableCell className="font-medium">#{order.id}</TableCell>
+                        <TableCell>{new Date(order.createdAt).toLocaleDateString()}</TableCell>
+                        <TableCell>
+                          <OrderStatusBadge status={order.status} />
+                        </TableCell>
+                        <TableCell>{formatPrice(order.total)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </div>
+
+            <div>
+              <h3 className="font-semibold mb-4">Sessions</h3>
+              {detail.sessions.length === 0 ? (
+                <p className="text-sm text-slate-500">Not signed in anywhere.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Signed in</TableHead>
+                      <TableHead>IP address</TableHead>
+                      <TableHead>Device</TableHead>
+                      <TableHead>Expires</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {detail.sessions.map((session) => (
+                      <TableRow key={session.id}>
+                        <TableCell>{session.signedInAt ? new Date(session.signedInAt).toLocaleString() : "Unknown"}</TableCell>
+                        <TableCell>{session.ip ?? "Unknown"}</TableCell>
+                        <TableCell className="max-w-xs truncate">{session.userAgent ?? "Unknown"}</TableCell>
+                        <TableCell>{session.expiresAt ? new Date(session.expiresAt).toLocaleString() : "—"}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </div>
+
+            <div className="space-y-4">
+              <h3 className="font-semibold">Internal Notes</h3>
+              {can("customers:manage") && (
+                <div className="space-y-2">
+                  <Textarea
+                    placeholder="Only visible to staff"
+                    maxLength={2000}
+                    value={note}
+                    onChange={(e) => setNote(e.target.value)}
+                  />
+                  <Button
+                    size="sm"
+                    disabled={!note.trim() || noteMutation.isPending}
+                    onClick={() => noteMutation.mutate(note.trim())}
+                  >
+                    Add Note
+                  </Button>
+                </div>
+              )}
+              {detail.notes.length === 0 ? (
+                <p className="text-sm text-slate-500">No notes.</p>
+              ) : (
+                <div className="space-y-3">
+                  {detail.notes.map((note) => (
+                    <div key={note.id} className="bg-slate-50 p-3 rounded-lg text-sm">
+                      <p className="whitespace-pre-wrap text-slate-800">{note.body}</p>
+                      <p className="text-slate-500 mt-1">
+                        {note.author?.fullName ?? "Former staff member"} • {new Date(note.createdAt).toLocaleString()}
+                      </p>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div>
+              <h3 className="font-semibold mb-4">Audit Log</h3>
+              {detail.auditLog.length === 0 ? (
+                <p className="text-sm text-slate-500">No staff actions yet.</p>
+              ) : (
+                <ul className="space-y-2 text-sm">
+                  {detail.auditLog.map((entry) => (
+                    <li key={entry.id} className="flex justify-between gap-4">
+                      <span>
+                        <span className="font-medium">{entry.actor?.fullName ?? "Management CLI"}</span>{" "}
+                        {AUDIT_ACTION_LABELS[entry.action].toLowerCase()}
+                        {auditDetails(entry) && <span className="text-slate-500"> ({auditDetails(entry)})</span>}
+                      </span>
+                      <span className="text-slate-500 whitespace-nowrap">{new Date(entry.createdAt).toLocaleString()}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export function CustomersManager({ can }: { can: (permission: Permission) => boolean }) {
+  const { formatPrice } = useStoreSettings();
+  const [search, setSearch] = useState("");
+  const [role, setRole] = useState<UserRole | "all">("all");
+  const [status, setStatus] = useState<"active" | "disabled" | "all">("all");
+  const [sort, setSort] = useState<AdminUserSort>("newest");
+  const [page, setPage] = useState(0);
+  const [selectedUserId, setSelectedUserId] = useState<number | null>(null);
+
+  const params = new URLSearchParams({ sort, limit: String(PAGE_SIZE), offset: String(page * PAGE_SIZE) });
+  if (search.trim()) params.set("search", search.trim());
+  if (role !== "all") params.set("role", role);
+  if (status !== "all") params.set("status", status);
+
+  const { data } = useQuery<{ users: UserSummary[]; total: number }>({
+    queryKey: ["/api/admin/users", params.toString()],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/admin/users?${params}`);
+      return await res.json();
+    },
+    placeholderData: (previous) => previous,
+  });
+
+  const users = data?.users ?? [];
+  const total = data?.total ?? 0;
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  // Any change to the filters starts again from the first page
+  const filterChange = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value);
+    setPage(0);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col md:flex-row gap-3">
+        <Input
+          placeholder="Search by name, username or email"
+          value={search}
+          onChange={(e) => filterChange(setSearch)(e.target.value)}
+        />
+        <Select value={role} onValueChange={(value) => filterChange(setRole)(value as UserRole | "all")}>
+          <SelectTrigger className="md:w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All roles</SelectItem>
+            {USER_ROLES.map((role) => (
+              <SelectItem key={role} value={role}>
+                {ROLE_LABELS[role]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={status} onValueChange={(value) => filterChange(setStatus)(value as typeof status)}>
+          <SelectTrigger className="md:w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Any status</SelectItem>
+            <SelectItem value="active">Active</SelectItem>
+            <SelectItem value="disabled">Disabled</SelectItem>
+          </SelectContent>
+        </Select>
+        <Select value={sort} onValueChange={(value) => filterChange(setSort)(value as AdminUserSort)}>
+          <SelectTrigger className="md:w-56">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(SORT_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <Card>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Customer</TableHead>
+              <TableHead>Email</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Orders</TableHead>
+              <TableHead>Lifetime Value</TableHead>
+              <TableHead>Joined</TableHead>
+              <TableHead>Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {users.map((user) => (
+              <TableRow key={user.id}>
+                <TableCell>
+                  <p className="font-medium">{user.fullName}</p>
+                  <p className="text-sm text-slate-500">{user.username}</p>
+                </TableCell>
+                <TableCell>{user.email}</TableCell>
+                <TableCell>
+                  <UserStatusBadges user={user} />
+                </TableCell>
+                <TableCell>{user.orderCount}</TableCell>
+                <TableCell>{formatPrice(user.lifetimeValue)}</TableCell>
+                <TableCell>{new Date(user.createdAt).toLocaleDateString()}</TableCell>
+                <TableCell>
+                  <Button size="sm" variant="outline" onClick={() => setSelectedUserId(user.id)}>
+                    View
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+            {users.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center text-slate-500">
+                  No users found
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </Card>
+
+      <div className="flex items-center justify-between text-sm text-slate-600">
+        <span>{total} user(s)</span>
+        <div className="flex items-center space-x-2">
+          <Button size="sm" variant="outline" disabled={page === 0} onClick={() => setPage(page - 1)}>
+            Previous
+          </Button>
+          <span>
+            Page {page + 1} of {pageCount}
+          </span>
+          <Button size="sm" variant="outline" disabled={page + 1 >= pageCount} onClick={() => setPage(page + 1)}>
+            Next
+          </Button>
+        </div>
+      </div>
+
+      <UserDetailDialog userId={selectedUserId} can={can} onClose={() => setSelectedUserId(null)} />
+    </div>
+  );
+}
@@ -1,9 +1,14 @@
 import { X, Plus, Minus } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Sheet, SheetContent, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { useLocation } from "wouter";
 import { useCart } from "@/hooks/use-cart";
+import { useAuth } from "@/hooks/use-auth";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
+import { useStoreSettings } from "@/hooks/use-store-settings";
+import { CouponField } from "@/components/coupon-field";
+import { toMinorUnits } from "@shared/pricing";
 
 interface CartSidebarProps {
   isOpen: boolean;
@@ -12,17 +17,22 @@ interface CartSidebarProps {
 }
 
 export function CartSidebar({ isOpen, onClose, onCheckoutOpen }: CartSidebarProps) {
-  const { cartItems, itemCount, subtotal, updateQuantity, removeFromCart } = useCart();
-
-  const tax = subtotal * 0.08;
-  const shipping = subtotal > 50 ? 0 : 9.99;
-  const total = subtotal + tax + shipping;
+  const { cartItems, itemCount, quote, updateQuantity, removeFromCart } = useCart();
+  const { formatMoney, formatPrice } = useStoreSettings();
+  const { user } = useAuth();
+  const [, setLocation] = useLocation();
 
   const handleCheckout = () => {
     onClose();
     onCheckoutOpen();
   };
 
+  const handleSignIn = () => {
+    onClose();
+    // The cart is kept and merged into the account after signing in
+    setLocation("/auth");
+  };
+
   return (
     <Sheet open={isOpen} onOpenChange={onClose}>
       <SheetContent>
@@ -57,7 +67,7 @@ export function CartSidebar({ isOpen, onClose, onCheckoutOpen }: CartSidebarProp
                         {item.product.name}
                       </h4>
                       <p className="text-sm text-slate-600">
-                        ${item.product.price}
+                        {formatPrice(item.product.price)}
                       </p>
                       <div className="flex items-center space-x-2 mt-2">
                         <Button
@@ -81,7 +91,7 @@ export function CartSidebar({ isOpen, onClose, onCheckoutOpen }: CartSidebarProp
                     </div>
                     <div className="text-right">
                       <p className="font-semibold text-slate-800">
-                        ${(parseFloat(item.product.price) * item.quantity).toFixed(2)}
+                        {formatMoney(toMinorUnits(item.product.price) * item.quantity)}
                       </p>
                       <Button
                         variant="ghost"
@@ -101,31 +111,51 @@ export function CartSidebar({ isOpen, onClose, onCheckoutOpen }: CartSidebarProp
           {/* Cart Summary */}
           {cartItems.length > 0 && (
             <div className="border-t pt-6">
-              <div className="space-y-2 mb-4">
-                <div className="flex justify-between text-sm">
-                  <span>Subtotal</span>
-                  <span>${subtotal.toFixed(2)}</span>
-                </div>
-                <div className="flex justify-between text-sm">
-                  <span>Shipping</span>
-                  <span>${shipping.toFixed(2)}</span>
-                </div>
-                <div className="flex justify-between text-sm">
-                  <span>Tax</span>
-                  <span>${tax.toFixed(2)}</span>
-                </div>
-                <Separator />
-                <div className="flex justify-between font-semibold">
-                  <span>Total</span>
-                  <span>${total.toFixed(2)}</span>
-                </div>
+              <div className="mb-4">
+                <CouponField />
               </div>
+              {quote && (
+                <div className="space-y-2 mb-4">
+                  <div className="flex justify-between text-sm">
+                    <span>Subtotal</span>
+                    <span>{formatMoney(quote.subtotal)}</span>
+                  </div>
+                  {quote.discount > 0 && (
+                    <div className="flex justify-between text-sm text-green-600">
+                      <span>Discount ({quote.promotionCode})</span>
+                      <span>-{formatMoney(quote.discount)}</span>
+                    </div>
+                  )}
+                  <div className="flex justify-between text-sm">
+                    <span>Shipping</span>
+                    <span>{formatMoney(quote.shipping)}</span>
+                  </div>
+                  <div className="flex justify-between text-sm">
+                    <span>Tax</span>
+                    <span>{formatMoney(quote.tax)}</span>
+                  </div>
+                  <Separator />
+                  <div className="flex justify-between font-semibold">
+                    <span>Total</span>
+                    <span>{formatMoney(quote.total)}</span>
+                  </div>
+                </div>
+              )}
               <Button
                 className="w-full bg-blue-600 hover:bg-blue-700 mb-3"
                 onClick={handleCheckout}
               >
-                Proceed to Checkout
+                {user ? "Proceed to Checkout" : "Checkout as Guest"}
               </Button>
+              {!user && (
+                <Button
+                  variant="outline"
+                  className="w-full mb-3"
+                  onClick={handleSignIn}
+                >
+                  Sign in to Checkout
+                </Button>
+              )}
               <Button
                 variant="outline"
                 className="w-full"
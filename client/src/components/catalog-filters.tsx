@@ -0,0 +1,202 @@
+import { useEffect, useState } from "react";
+import { Star } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { useStoreSettings } from "@/hooks/use-store-settings";
+import { hasActiveFilters, type CatalogFilters } from "@/lib/catalog-filters";
+import { Category, ProductFacets } from "@shared/schema";
+
+function FacetButton({ label, count, active, onClick }: {
+  label: React.ReactNode;
+  count?: number;
+  active: boolean;
+  onClick: () => void;
+}) {
+  return (
+    <button
+      type="button"
+      className={`flex w-full items-center justify-between rounded px-2 py-1 text-left text-sm transition-colors ${
+        active ? "bg-blue-50 font-medium text-blue-700" : "text-slate-700 hover:bg-slate-100"
+      }`}
+      onClick={onClick}
+    >
+      <span>{label}</span>
+      {count !== undefined && <span className="text-slate-500">{count}</span>}
+    </button>
+  );
+}
+
+function FilterSection({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <div className="space-y-2">
+      <h4 className="font-semibold text-slate-800">{title}</h4>
+      {children}
+    </div>
+  );
+}
+
+// Sidebar of catalog filters with the number of matching products for each
+// choice. Every change goes back to the first page.
+export function CatalogFilterSidebar({ filters, facets, categories, onChange }: {
+  filters: CatalogFilters;
+  facets?: ProductFacets;
+  categories: Category[];
+  onChange: (filters: CatalogFilters) => void;
+}) {
+  const { formatMoney } = useStoreSettings();
+  const [minPrice, setMinPrice] = useState(filters.minPrice?.toString() ?? "");
+  const [maxPrice, setMaxPrice] = useState(filters.maxPrice?.toString() ?? "");
+
+  // Keep the price inputs in step with the URL (back button, range buttons)
+  useEffect(() => {
+    setMinPrice(filters.minPrice?.toString() ?? "");
+    setMaxPrice(filters.maxPrice?.toString() ?? "");
+  }, [filters.minPrice, filters.maxPrice]);
+
+  const update = (changes: Partial<CatalogFilters>) => onChange({ ...filters, ...changes, page: 1 });
+
+  const applyPriceInputs = () => {
+    const min = parseFloat(minPrice);
+    const max = parseFloat(maxPrice);
+    update({
+      minPrice: min >= 0 ? min : undefined,
+      maxPrice: max > 0 ? max : undefined,
+    });
+  };
+
+  const toggleTag = (tag: string) => {
+    const tags = filters.tags ?? [];
+    update({ tags: tags.includes(tag) ? tags.filter((other) => other !== tag) : [...tags, tag] });
+  };
+
+  const categoryCount = (categoryId: number) =>
+    facets?.categories.find((facet) => facet.categoryId === categoryId)?.count ?? 0;
+
+  return (
+    <aside className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-bold text-slate-800">Filters</h3>
+        {hasActiveFilters(filters) && (
+          <Button
+            variant="link"
+            className="h-auto p-0 text-blue-600"
+            onClick={() => onChange({ search: filters.search, sort: filters.sort, page: 1 })}
+          >
+            Clear all
+          </Button>
+        )}
+      </div>
+
+      <FilterSection title="Category">
+        <FacetButton
+          label="All categories"
+          active={filters.categoryId === undefined}
+          onClick={() => update({ categoryId: undefined })}
+        />
+        {categories.map((category) => (
+          <FacetButton
+            key={category.id}
+            label={category.name}
+            count={categoryCount(category.id)}
+            active={filters.categoryId === category.id}
+            onClick={() => update({ categoryId: category.id })}
+          />
+        ))}
+      </FilterSection>
+
+      <FilterSection title="Price">
+        {facets?.priceRanges.map((range) => {
+          const active = filters.minPrice === range.min && filters.maxPrice === (range.max ?? undefined);
+          return (
+            <FacetButton
+              key={range.min}
+              label={range.max === null
+                ? `${formatMoney(range.min * 100)} & above`
+                : `${formatMoney(range.min * 100)} – ${formatMoney(range.max * 100)}`}
+              count={range.count}
+              active={active}
+              onClick={() => update(active
+                ? { minPrice: undefined, maxPrice: undefined }
+                : { minPrice: range.min, maxPrice: range.max ?? undefined })}
+            />
+          );
+        })}
+        <form
+          className="flex items-end space-x-2 pt-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            applyPriceInputs();
+          }}
+        >
+          <div className="space-y-1">
+            <Label htmlFor="catalog-min-price" className="text-xs">Min</Label>
+            <Input id="catalog-min-price" type="number" min="0" step="0.01" value={minPrice} onChange={(e) => setMinPrice(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="catalog-max-price" className="text-xs">Under</Label>
+            <Input id="catalog-max-price" type="number" min="0" step="0.01" value={maxPrice} onChange={(e) => setMaxPrice(e.target.value)} />
+          </div>
+          <Button type="submit" size="sm" variant="outline">Go</Button>
+        </form>
+      </FilterSection>
+
+      <FilterSection title="Rating">
+        {facets?.ratings.map((facet) => (
+          <FacetButton
+            key={facet.minRating}
+            label={
+              <span className="flex items-center">
+                {[...Array(5)].map((_, i) => (
+                  <Star key={i} className={`h-3 w-3 text-yellow-400 ${i < facet.minRating ? "fill-current" : ""}`} />
+                ))}
+                <span className="ml-1">& up</span>
+              </span>
+            }
+            count={facet.count}
+            active={filters.minRating === facet.minRating}
+            onClick={() => update({ minRating: filters.minRating === facet.minRating ? undefined : facet.minRating })}
+          />
+        ))}
+      </FilterSection>
+
+      <FilterSection title="Availability">
+        <div className="flex items-center space-x-2">
+          <Checkbox
+            id="catalog-in-stock"
+            checked={!!filters.inStock}
+            onCheckedChange={(checked) => update({ inStock: checked === true || undefined })}
+          />
+          <Label htmlFor="catalog-in-stock" className="flex-1 font-normal">In stock</Label>
+          <span className="text-sm text-slate-500">{facets?.inStock ?? 0}</span>
+        </div>
+        <div className="flex items-center space-x-2">
+          <Checkbox
+            id="catalog-on-sale"
+            checked={!!filters.onSale}
+            onCheckedChange={(checked) => update({ onSale: checked === true || undefined })}
+          />
+          <Label htmlFor="catalog-on-sale" className="flex-1 font-normal">On sale</Label>
+          <span className="text-sm text-slate-500">{facets?.onSale ?? 0}</span>
+        </div>
+      </FilterSection>
+
+      {(facets?.tags.length ?? 0) > 0 && (
+        <FilterSection title="Tags">
+          {facets!.tags.map((facet) => (
+            <div key={facet.tag} className="flex items-center space-x-2">
+              <Checkbox
+                id={`catalog-tag-${facet.tag}`}
+                checked={filters.tags?.includes(facet.tag) ?? false}
+                onCheckedChange={() => toggleTag(facet.tag)}
+              />
+              <Label htmlFor={`catalog-tag-${facet.tag}`} className="flex-1 font-normal">{facet.tag}</Label>
+              <span className="text-sm text-slate-500">{facet.count}</span>
+            </div>
+          ))}
+        </FilterSection>
+      )}
+    </aside>
+  );
+}
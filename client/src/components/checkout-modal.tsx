@@ -6,74 +6,227 @@ import { X } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useLocation } from "wouter";
 import { useCart } from "@/hooks/use-cart";
-import { useMutation } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useStoreSettings } from "@/hooks/use-store-settings";
+import { Address, Order } from "@shared/schema";
+import { addressSchema, formatAddressLines, type PostalAddress } from "@shared/address";
+import { CouponField } from "@/components/coupon-field";
+import { AddressFields, emptyAddress } from "@/components/address-fields";
+
+// "new" or the id of a saved address
+const addressChoiceSchema = z.string();
 
 const checkoutSchema = z.object({
-  fullName: z.string().min(1, "Full name is required"),
   email: z.string().email("Invalid email address"),
-  address: z.string().min(1, "Address is required"),
-  city: z.string().min(1, "City is required"),
-  zipCode: z.string().min(1, "ZIP code is required"),
+  shippingAddressId: addressChoiceSchema,
+  shipping: z.custom<PostalAddress>(),
+  saveAddress: z.boolean(),
+  billingSameAsShipping: z.boolean(),
+  billingAddressId: addressChoiceSchema,
+  billing: z.custom<PostalAddress>(),
   paymentMethod: z.enum(["card", "paypal"]),
   cardNumber: z.string().optional(),
   expiryDate: z.string().optional(),
   cvv: z.string().optional(),
+}).superRefine((data, ctx) => {
+  // New addresses are only validated when they are the ones being used
+  const newAddresses: ["shipping" | "billing", boolean][] = [
+    ["shipping", data.shippingAddressId === "new"],
+    ["billing", !data.billingSameAsShipping && data.billingAddressId === "new"],
+  ];
+  for (const [key, isNew] of newAddresses) {
+    if (!isNew) continue;
+    const result = addressSchema.safeParse(data[key]);
+    if (!result.success) {
+      for (const issue of result.error.issues) {
+        ctx.addIssue({ ...issue, path: [key, ...issue.path] });
+      }
+    }
+  }
+
+  if (data.paymentMethod !== "card") return;
+  if (!data.cardNumber) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["cardNumber"], message: "Card number is required" });
+  }
+  if (!/^\d{2}\s*\/\s*\d{2}$/.test(data.expiryDate ?? "")) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["expiryDate"], message: "Use MM/YY" });
+  }
+  if (!/^\d{3,4}$/.test(data.cvv ?? "")) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["cvv"], message: "Invalid CVC" });
+  }
 });
 
 type CheckoutFormData = z.infer<typeof checkoutSchema>;
 
+type PaymentIntent = {
+  id: string;
+  status: string;
+  nextAction?: { type: "challenge"; message: string };
+};
+
+type PlacedOrder = Order & { payment: PaymentIntent };
+
+function checkoutAddress(addressId: string, address: PostalAddress) {
+  return addressId === "new" ? address : { addressId: Number(addressId) };
+}
+
+function SavedAddressPicker({ addresses, value, onChange, idPrefix }: {
+  addresses: Address[];
+  value: string;
+  onChange: (value: string) => void;
+  idPrefix: string;
+}) {
+  return (
+    <RadioGroup value={value} onValueChange={onChange} className="space-y-2">
+      {addresses.map((address) => (
+        <div key={address.id} className="flex items-start space-x-2">
+          <RadioGroupItem value={String(address.id)} id={`${idPrefix}-${address.id}`} className="mt-1" />
+          <Label htmlFor={`${idPrefix}-${address.id}`} className="font-normal text-sm leading-snug">
+            {address.label && <span className="font-medium">{address.label}: </span>}
+            {formatAddressLines(address).join(", ")}
+          </Label>
+        </div>
+      ))}
+      <div className="flex items-center space-x-2">
+        <RadioGroupItem value="new" id={`${idPrefix}-new`} />
+        <Label htmlFor={`${idPrefix}-new`}>Use a new address</Label>
+      </div>
+    </RadioGroup>
+  );
+}
+
+function PaymentChallenge({ payment, onComplete }: {
+  payment: PaymentIntent;
+  onComplete: (payment: PaymentIntent) => void;
+}) {
+  const { toast } = useToast();
+  const [code, setCode] = useState("");
+
+  const confirmMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/payments/${payment.id}/confirm`, { code });
+      return await res.json();
+    },
+    onSuccess: (updated: PaymentIntent) => {
+      onComplete(updated);
+    },
+    onError: (error: Error) => {
+      setCode("");
+      toast({
+        title: "Verification failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-slate-600">{payment.nextAction?.message}</p>
+      <Input
+        inputMode="numeric"
+        placeholder="Verification code"
+        value={code}
+        onChange={(e) => setCode(e.target.value)}
+      />
+      <Button
+        className="w-full bg-blue-600 hover:bg-blue-700"
+        disabled={!code || confirmMutation.isPending}
+        onClick={() => confirmMutation.mutate()}
+      >
+        {confirmMutation.isPending ? "Verifying..." : "Verify Payment"}
+      </Button>
+    </div>
+  );
+}
+
 interface CheckoutModalProps {
   isOpen: boolean;
   onClose: () => void;
 }
 
 export function CheckoutModal({ isOpen, onClose }: CheckoutModalProps) {
-  const { cartItems, subtotal, clearCart } = useCart();
+  const { cartItems, quote, removeCoupon } = useCart();
+  const { user } = useAuth();
+  const [, setLocation] = useLocation();
   const { toast } = useToast();
+  const { formatMoney } = useStoreSettings();
   const [step, setStep] = useState(1);
+  // Set while the bank asks the buyer to verify the payment
+  const [challengeOrder, setChallengeOrder] = useState<PlacedOrder | null>(null);
 
-  const tax = subtotal * 0.08;
-  const shipping = subtotal > 50 ? 0 : 9.99;
-  const total = subtotal + tax + shipping;
+  const { data: savedAddresses = [] } = useQuery<Address[]>({
+    queryKey: ["/api/addresses"],
+    enabled: !!user,
+  });
+
+  const defaultShipping = savedAddresses.find((address) => address.isDefaultShipping);
+  const defaultBilling = savedAddresses.find((address) => address.isDefaultBilling);
 
   const form = useForm<CheckoutFormData>({
     resolver: zodResolver(checkoutSchema),
-    defaultValues: {
+    values: {
+      email: user?.email ?? "",
+      shippingAddressId: defaultShipping ? String(defaultShipping.id) : "new",
+      shipping: emptyAddress,
+      saveAddress: false,
+      billingSameAsShipping: !defaultBilling || defaultBilling.id === defaultShipping?.id,
+      billingAddressId: defaultBilling ? String(defaultBilling.id) : "new",
+      billing: emptyAddress,
       paymentMethod: "card",
     },
+    resetOptions: { keepDirtyValues: true },
   });
 
+  const shippingAddressId = form.watch("shippingAddressId");
+  const billingSameAsShipping = form.watch("billingSameAsShipping");
+  const billingAddressId = form.watch("billingAddressId");
+
   const createOrderMutation = useMutation({
     mutationFn: async (data: CheckoutFormData) => {
-      const shippingAddress = {
-        fullName: data.fullName,
-        email: data.email,
-        address: data.address,
-        city: data.city,
-        zipCode: data.zipCode,
-      };
-
       const res = await apiRequest("POST", "/api/orders", {
-        shippingAddress,
+        shippingAddress: checkoutAddress(data.shippingAddressId, data.shipping),
+        // Billing falls back to the shipping address on the server
+        billingAddress: data.billingSameAsShipping
+          ? undefined
+          : checkoutAddress(data.billingAddressId, data.billing),
+        saveShippingAddress: data.shippingAddressId === "new" && data.saveAddress,
         paymentMethod: data.paymentMethod,
+        // Guest orders are tied to the email entered here
+        contactEmail: user ? undefined : data.email,
+        // Only send a code that was actually applied to the quote shown
+        couponCode: quote?.promotionCode,
+        card: data.paymentMethod === "card"
+          ? { number: data.cardNumber, expiry: data.expiryDate, cvc: data.cvv }
+          : undefined,
       });
       return await res.json();
     },
-    onSuccess: (order) => {
-      clearCart();
-      toast({
-        title: "Order placed successfully!",
-        description: `Your order #${order.id} has been confirmed.`,
-      });
+    onSuccess: (order: PlacedOrder) => {
+      // The server empties the cart as part of placing the order
+      queryClient.invalidateQueries({ queryKey: ["/api/cart"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/cart/quote"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/addresses"] });
+      removeCoupon();
       onClose();
       setStep(1);
+      form.reset();
+      if (order.payment.status === "requires_action") {
+        setChallengeOrder(order);
+        return;
+      }
+      completeOrder(order);
     },
     onError: (error: Error) => {
       toast({
@@ -84,11 +237,45 @@ export function CheckoutModal({ isOpen, onClose }: CheckoutModalProps) {
     },
   });
 
+  const completeOrder = (order: PlacedOrder) => {
+    toast({
+      title: "Order placed successfully!",
+      description: `Your order #${order.id} has been confirmed.`,
+    });
+    setLocation(order.lookupToken ? `/orders/lookup/${order.lookupToken}` : `/account/orders/${order.id}`);
+  };
+
+  const handleChallengeComplete = (payment: PaymentIntent) => {
+    const order = challengeOrder!;
+    setChallengeOrder(null);
+    if (payment.status === "authorized" || payment.status === "captured") {
+      completeOrder(order);
+      return;
+    }
+    toast({
+      title: "Payment failed",
+      description: `We could not verify the payment for order #${order.id}.`,
+      variant: "destructive",
+    });
+  };
+
   const onSubmit = (data: CheckoutFormData) => {
     createOrderMutation.mutate(data);
   };
 
   return (
+    <>
+    <Dialog open={!!challengeOrder}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Verify your payment</DialogTitle>
+        </DialogHeader>
+        {challengeOrder && (
+          <PaymentChallenge payment={challengeOrder.payment} onComplete={handleChallengeComplete} />
+        )}
+      </DialogContent>
+    </Dialog>
+
     <Dialog open={isOpen} onOpenChange={onClose}>
       <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
         <DialogHeader>
@@ -130,73 +317,81 @@ export function CheckoutModal({ isOpen, onClose }: CheckoutModalProps) {
                   Shipping Address
                 </h3>
                 <div className="space-y-4">
-                  <FormField
-                    control={form.control}
-                    name="fullName"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Full Name</FormLabel>
-                        <FormControl>
-                          <Input placeholder="John Doe" {...field} />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-                  <FormField
-                    control={form.control}
-                    name="email"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Email</FormLabel>
-                        <FormControl>
-                          <Input type="email" placeholder="john@example.com" {...field} />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-                  <FormField
-                    control={form.control}
-                    name="address"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Address</FormLabel>
-                        <FormControl>
-                          <Input placeholder="123 Main St" {...field} />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-                  <div className="grid grid-cols-2 gap-4">
+                  {!user && (
                     <FormField
                       control={form.control}
-                      name="city"
+                      name="email"
                       render={({ field }) => (
                         <FormItem>
-                          <FormLabel>City</FormLabel>
+                          <FormLabel>Email</FormLabel>
                           <FormControl>
-                            <Input placeholder="New York" {...field} />
+                            <Input type="email" placeholder="john@example.com" {...field} />
                           </FormControl>
                           <FormMessage />
                         </FormItem>
                       )}
                     />
-                    <FormField
-                      control={form.control}
-                      name="zipCode"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>ZIP Code</FormLabel>
-                          <FormControl>
-                            <Input placeholder="10001" {...field} />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
+                  )}
+                  {savedAddresses.length > 0 && (
+                    <SavedAddressPicker
+                      addresses={savedAddresses}
+                      value={shippingAddressId}
+                      onChange={(value) => form.setValue("shippingAddressId", value, { shouldDirty: true })}
+                      idPrefix="shipping"
                     />
-                  </div>
+                  )}
+                  {shippingAddressId === "new" && (
+                    <>
+                      <AddressFields control={form.control} prefix="shipping" />
+                      {user && (
+                        <FormField
+                          control={form.control}
+                          name="saveAddress"
+                          render={({ field }) => (
+                            <FormItem className="flex items-center space-x-2 space-y-0">
+                              <FormControl>
+                                <Checkbox checked={field.value} onCheckedChange={(checked) => field.onChange(checked === true)} />
+                              </FormControl>
+                              <FormLabel>Save to my address book</FormLabel>
+                            </FormItem>
+                          )}
+                        />
+                      )}
+                    </>
+                  )}
+                </div>
+
+                <h3 className="text-lg font-semibold text-slate-800 mt-6 mb-4">
+                  Billing Address
+                </h3>
+                <div className="space-y-4">
+                  <FormField
+                    control={form.control}
+                    name="billingSameAsShipping"
+                    render={({ field }) => (
+                      <FormItem className="flex items-center space-x-2 space-y-0">
+                        <FormControl>
+                          <Checkbox checked={field.value} onCheckedChange={(checked) => field.onChange(checked === true)} />
+                        </FormControl>
+                        <FormLabel>Same as shipping address</FormLabel>
+                      </FormItem>
+                    )}
+                  />
+                  {!billingSameAsShipping && (
+                    <>
+                      {savedAddresses.length > 0 && (
+                        <SavedAddressPicker
+                          addresses={savedAddresses}
+                          value={billingAddressId}
+                          onChange={(value) => form.setValue("billingAddressId", value, { shouldDirty: true })}
+                          idPrefix="billing"
+                        />
+                      )}
+                      {billingAddressId === "new" && (
+                        <AddressFields control={form.control} prefix="billing" />
+                      )}
+                    </>
+                  )}
                 </div>
               </div>
 
@@ -252,7 +447,7 @@ export function CheckoutModal({ isOpen, onClose }: CheckoutModalProps) {
                           <FormItem>
                             <FormLabel>MM/YY</FormLabel>
                             <FormControl>
-                              <Input placeholder="12/25" {...field} />
+                              <Input placeholder="12/28" {...field} />
                             </FormControl>
                             <FormMessage />
                           </FormItem>
@@ -282,24 +477,35 @@ export function CheckoutModal({ isOpen, onClose }: CheckoutModalProps) {
                 <CardTitle>Order Summary</CardTitle>
               </CardHeader>
               <CardContent>
-                <div className="space-y-2 text-sm">
-                  <div className="flex justify-between">
-                    <span>Subtotal</span>
-                    <span>${subtotal.toFixed(2)}</span>
-                  </div>
-                  <div className="flex justify-between">
-                    <span>Shipping</span>
-                    <span>${shipping.toFixed(2)}</span>
-                  </div>
-                  <div className="flex justify-between">
-                    <span>Tax</span>
-                    <span>${tax.toFixed(2)}</span>
-                  </div>
-                  <div className="flex justify-between font-semibold text-lg pt-2 border-t">
-                    <span>Total</span>
-                    <span>${total.toFixed(2)}</span>
-                  </div>
+                <div className="mb-4">
+                  <CouponField />
                 </div>
+                {quote && (
+                  <div className="space-y-2 text-sm">
+                    <div className="flex justify-between">
+                      <span>Subtotal</span>
+                      <span>{formatMoney(quote.subtotal)}</span>
+                    </div>
+                    {quote.discount > 0 && (
+                      <div className="flex justify-between text-green-600">
+                        <span>Discount ({quote.promotionCode})</span>
+                        <span>-{formatMoney(quote.discount)}</span>
+                      </div>
+                    )}
+                    <div className="flex justify-between">
+                      <span>Shipping</span>
+                      <span>{formatMoney(quote.shipping)}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span>Tax</span>
+                      <span>{formatMoney(quote.tax)}</span>
+                    </div>
+                    <div className="flex justify-between font-semibold text-lg pt-2 border-t">
+                      <span>Total</span>
+                      <span>{formatMoney(quote.total)}</span>
+                    </div>
+                  </div>
+                )}
               </CardContent>
             </Card>
 
@@ -324,5 +530,6 @@ export function CheckoutModal({ isOpen, onClose }: CheckoutModalProps) {
         </Form>
       </DialogContent>
     </Dialog>
+    </>
   );
                 }
@@ -0,0 +1,53 @@
+import { useState } from "react";
+import { Tag, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useCart } from "@/hooks/use-cart";
+
+export function CouponField() {
+  const { quote, couponCode, applyCoupon, removeCoupon } = useCart();
+  const [code, setCode] = useState("");
+
+  const handleApply = () => {
+    applyCoupon(code);
+    setCode("");
+  };
+
+  if (couponCode) {
+    return (
+      <div className="space-y-1">
+        <div className="flex items-center justify-between text-sm">
+          <span className="flex items-center text-slate-700">
+            <Tag className="h-4 w-4 mr-2" />
+            {couponCode}
+          </span>
+          <Button type="button" variant="ghost" size="icon" onClick={removeCoupon}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+        {quote?.promotionError && (
+          <p className="text-sm text-red-500">{quote.promotionError}</p>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex space-x-2">
+      <Input
+        placeholder="Promo code"
+        value={code}
+        onChange={(e) => setCode(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") {
+            e.preventDefault();
+            handleApply();
+          }
+        }}
+      />
+      <Button type="button" variant="outline" disabled={!code.trim()} onClick={handleApply}>
+        Apply
+      </Button>
+    </div>
+  );
+}
@@ -1,32 +1,24 @@
 import { useState } from "react";
-import { Link, useLocation } from "wouter";
-import { Search, ShoppingCart, User, Menu, X } from "lucide-react";
+import { Link } from "wouter";
+import { ShoppingCart, User, Menu, X, Heart } from "lucide-react";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
 import { useAuth } from "@/hooks/use-auth";
 import { useCart } from "@/hooks/use-cart";
 import { Badge } from "@/components/ui/badge";
+import { SearchAutocomplete } from "@/components/search-autocomplete";
 import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
+import { isStaffRole } from "@shared/permissions";
 
 export function Header({ onCartOpen }: { onCartOpen: () => void }) {
-  const [location, setLocation] = useLocation();
-  const [searchQuery, setSearchQuery] = useState("");
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
   const { user, logoutMutation } = useAuth();
   const { itemCount } = useCart();
 
-  const handleSearch = (e: React.FormEvent) => {
-    e.preventDefault();
-    if (searchQuery.trim()) {
-      setLocation(`/?search=${encodeURIComponent(searchQuery.trim())}`);
-    }
-  };
-
   const handleLogout = () => {
     logoutMutation.mutate();
   };
@@ -46,16 +38,9 @@ export function Header({ onCartOpen }: { onCartOpen: () => void }) {
 
           {/* Search Bar - Desktop */}
           <div className="hidden md:flex flex-1 max-w-lg mx-8">
-            <form onSubmit={handleSearch} className="relative w-full">
-              <Input
-                type="text"
-                placeholder="Search products..."
-                value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
-                className="w-full pl-10 pr-4"
-              />
-              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-slate-400" />
-            </form>
+            <div className="w-full">
+              <SearchAutocomplete />
+            </div>
           </div>
 
           {/* Navigation - Desktop */}
@@ -79,6 +64,15 @@ export function Header({ onCartOpen }: { onCartOpen: () => void }) {
 
           {/* User Actions */}
           <div className="flex items-center space-x-4">
+            {/* Wishlist */}
+            {user && (
+              <Link href="/wishlist">
+                <Button variant="ghost" size="icon">
+                  <Heart className="h-5 w-5" />
+                </Button>
+              </Link>
+            )}
+
             {/* Cart */}
             <Button
               variant="ghost"
@@ -104,11 +98,16 @@ export function Header({ onCartOpen }: { onCartOpen: () => void }) {
                 </DropdownMenuTrigger>
                 <DropdownMenuContent align="end">
                   <DropdownMenuItem>
-                    <Link href="/orders" className="w-full">
+                    <Link href="/account" className="w-full">
+                      My Account
+                    </Link>
+                  </DropdownMenuItem>
+                  <DropdownMenuItem>
+                    <Link href="/account/orders" className="w-full">
                       My Orders
                     </Link>
                   </DropdownMenuItem>
-                  {user.role === "admin" && (
+                  {isStaffRole(user.role) && (
                     <DropdownMenuItem>
                       <Link href="/admin" className="w-full">
                         Admin Panel
@@ -143,16 +142,9 @@ export function Header({ onCartOpen }: { onCartOpen: () => void }) {
         {/* Mobile Menu */}
         {mobileMenuOpen && (
           <div className="md:hidden border-t border-slate-200 py-4">
-            <form onSubmit={handleSearch} className="relative mb-4">
-              <Input
-                type="text"
-                placeholder="Search products..."
-                value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
-                className="w-full pl-10 pr-4"
-              />
-              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-slate-400" />
-            </form>
+            <div className="mb-4">
+              <SearchAutocomplete onNavigate={() => setMobileMenuOpen(false)} />
+            </div>
             <nav className="space-y-2">
               <Link href="/">
                 <div className="block py-2 text-slate-700 hover:text-blue-600 transition-colors">
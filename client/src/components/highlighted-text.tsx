@@ -0,0 +1,19 @@
+import { splitHighlights } from "@shared/search";
+
+// Renders a search highlight from the API with its matches in <mark>. The text
+// is never treated as HTML.
+export function HighlightedText({ text }: { text: string }) {
+  return (
+    <>
+      {splitHighlights(text).map((part, index) =>
+        part.highlighted ? (
+          <mark key={index} className="bg-yellow-100 text-inherit rounded-sm">
+            {part.text}
+          </mark>
+        ) : (
+          <span key={index}>{part.text}</span>
+        )
+      )}
+    </>
+  );
+}
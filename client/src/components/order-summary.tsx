@@ -0,0 +1,78 @@
+import { Separator } from "@/components/ui/separator";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { useStoreSettings } from "@/hooks/use-store-settings";
+import { Order, OrderItem, Product } from "@shared/schema";
+import { formatAddressLines, type PostalAddress } from "@shared/address";
+
+export type OrderWithItems = Order & { orderItems: Array<OrderItem & { product: Product }> };
+
+export function OrderItemsCard({ order }: { order: OrderWithItems }) {
+  const { formatMoney, formatPrice } = useStoreSettings();
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Items</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {order.orderItems.map((item) => (
+          <div key={item.id} className="flex items-center space-x-4">
+            <img
+              src={item.product.imageUrl}
+              alt={item.product.name}
+              className="w-16 h-16 object-cover rounded-lg"
+            />
+            <div className="flex-1">
+              <h3 className="font-medium text-slate-800">{item.product.name}</h3>
+              <p className="text-sm text-slate-600">Qty: {item.quantity}</p>
+            </div>
+            <span className="font-semibold text-slate-800">{formatPrice(item.price)}</span>
+          </div>
+        ))}
+        <Separator />
+        <div className="space-y-2 text-sm">
+          <div className="flex justify-between">
+            <span>Subtotal</span>
+            <span>{formatPrice(order.subtotal)}</span>
+          </div>
+          {order.pricing && order.pricing.discount > 0 && (
+            <div className="flex justify-between text-green-600">
+              <span>Discount</span>
+              <span>-{formatMoney(order.pricing.discount)}</span>
+            </div>
+          )}
+          <div className="flex justify-between">
+            <span>Shipping</span>
+            <span>{formatPrice(order.shipping)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span>Tax</span>
+            <span>{formatPrice(order.tax)}</span>
+          </div>
+          <div className="flex justify-between font-semibold text-lg pt-2 border-t">
+            <span>Total</span>
+            <span>{formatPrice(order.total)}</span>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export function AddressCard({ title, address }: { title: string; address: PostalAddress }) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{title}</CardTitle>
+      </CardHeader>
+      <CardContent className="text-sm text-slate-700 space-y-1">
+        {formatAddressLines(address).map((line, index) => (
+          <p key={index} className={index === 0 ? "font-medium" : undefined}>
+            {line}
+          </p>
+        ))}
+        {address.phone && <p className="text-slate-500">{address.phone}</p>}
+      </CardContent>
+    </Card>
+  );
+}
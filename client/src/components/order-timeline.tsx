@@ -0,0 +1,60 @@
+import { Badge } from "@/components/ui/badge";
+import { OrderStatusEvent, OrderActorRole } from "@shared/schema";
+import { ORDER_STATUS_LABELS, type OrderStatus } from "@shared/order-status";
+
+// Customers receive events without actor ids or names; admins get both.
+export type TimelineEvent = Omit<OrderStatusEvent, "actorId"> & {
+  actorId?: number | null;
+  actorName?: string | null;
+};
+
+const actorLabels: Record<OrderActorRole, string> = {
+  customer: "Customer",
+  admin: "Store team",
+  system: "Automatic",
+};
+
+export function OrderStatusBadge({ status }: { status: string }) {
+  const variant =
+    status === "delivered"
+      ? "default"
+      : status === "cancelled" || status === "refunded"
+      ? "destructive"
+      : status === "pending"
+      ? "outline"
+      : "secondary";
+
+  return (
+    <Badge variant={variant}>
+      {ORDER_STATUS_LABELS[status as OrderStatus] ?? status}
+    </Badge>
+  );
+}
+
+export function OrderTimeline({ events }: { events: TimelineEvent[] }) {
+  if (events.length === 0) {
+    return <p className="text-sm text-slate-500">No status updates yet.</p>;
+  }
+
+  return (
+    <ol className="relative border-l border-slate-200 ml-2 space-y-6">
+      {events.map((event) => (
+        <li key={event.id} className="ml-4">
+          <div className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white bg-blue-600" />
+          <div className="flex items-center justify-between">
+            <span className="font-medium text-slate-800">
+              {ORDER_STATUS_LABELS[event.toStatus as OrderStatus] ?? event.toStatus}
+            </span>
+            <time className="text-sm text-slate-500">
+              {new Date(event.createdAt).toLocaleString()}
+            </time>
+          </div>
+          <p className="text-sm text-slate-600">
+            {event.actorName ?? actorLabels[event.actorRole]}
+          </p>
+          {event.note && <p className="text-sm text-slate-700 mt-1">{event.note}</p>}
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -1,19 +1,25 @@
-import { useState } from "react";
 import { Heart, Star } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent } from "@/components/ui/card";
-import { Product } from "@shared/schema";
+import { Product, ProductSearchResult } from "@shared/schema";
 import { useCart } from "@/hooks/use-cart";
+import { useWishlist } from "@/hooks/use-wishlist";
+import { useStoreSettings } from "@/hooks/use-store-settings";
 import { Link } from "wouter";
+import { HighlightedText } from "@/components/highlighted-text";
 
 interface ProductCardProps {
-  product: Product;
+  // Search results carry highlights of what matched
+  product: Product | ProductSearchResult;
+  // Called when the card is clicked through to the product page
+  onOpen?: () => void;
 }
 
-export function ProductCard({ product }: ProductCardProps) {
-  const [isWishlisted, setIsWishlisted] = useState(false);
+export function ProductCard({ product, onOpen }: ProductCardProps) {
   const { addToCart } = useCart();
+  const { isWishlisted, toggleWishlist } = useWishlist();
+  const { formatPrice } = useStoreSettings();
 
   const handleAddToCart = async (e: React.MouseEvent) => {
     e.preventDefault();
@@ -21,18 +27,20 @@ export function ProductCard({ product }: ProductCardProps) {
     await addToCart(product.id);
   };
 
-  const handleWishlist = (e: React.MouseEvent) => {
+  const handleWishlist = async (e: React.MouseEvent) => {
     e.preventDefault();
     e.stopPropagation();
-    setIsWishlisted(!isWishlisted);
+    await toggleWishlist(product.id);
   };
 
+  const highlight = "highlight" in product ? product.highlight : undefined;
+
   const discount = product.originalPrice 
     ? Math.round((1 - parseFloat(product.price) / parseFloat(product.originalPrice)) * 100)
     : 0;
 
   return (
-    <Link href={`/products/${product.id}`}>
+    <Link href={`/products/${product.id}`} onClick={onOpen}>
       <Card className="group cursor-pointer hover:shadow-lg transition-shadow">
         <div className="relative overflow-hidden rounded-t-lg">
           <img
@@ -49,7 +57,7 @@ export function ProductCard({ product }: ProductCardProps) {
             >
               <Heart
                 className={`h-4 w-4 ${
-                  isWishlisted ? "fill-red-500 text-red-500" : "text-slate-600"
+                  isWishlisted(product.id) ? "fill-red-500 text-red-500" : "text-slate-600"
                 }`}
               />
             </Button>
@@ -71,19 +79,19 @@ export function ProductCard({ product }: ProductCardProps) {
         </div>
         <CardContent className="p-6">
           <h4 className="font-semibold text-slate-800 mb-2 truncate">
-            {product.name}
+            {highlight ? <HighlightedText text={highlight.name} /> : product.name}
           </h4>
           <p className="text-slate-600 text-sm mb-4 line-clamp-2">
-            {product.description}
+            {highlight?.snippet ? <HighlightedText text={highlight.snippet} /> : product.description}
           </p>
           <div className="flex items-center justify-between mb-4">
             <div className="flex items-center space-x-2">
               <span className="text-2xl font-bold text-slate-800">
-                ${product.price}
+                {formatPrice(product.price)}
               </span>
               {product.originalPrice && (
                 <span className="text-sm text-slate-500 line-through">
-                  ${product.originalPrice}
+                  {formatPrice(product.originalPrice)}
                 </span>
               )}
             </div>
@@ -101,7 +109,7 @@ export function ProductCard({ product }: ProductCardProps) {
                 ))}
               </div>
               <span className="text-sm text-slate-600">
-                ({product.rating || "0"})
+                ({product.reviewCount || 0})
               </span>
             </div>
           </div>
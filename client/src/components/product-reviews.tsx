@@ -0,0 +1,252 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Star, BadgeCheck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { Product, ReviewSort, ReviewWithAuthor } from "@shared/schema";
+
+const REVIEWS_PER_PAGE = 5;
+
+const reviewSchema = z.object({
+  rating: z.number().int().min(1, "Please select a rating").max(5),
+  title: z.string().min(1, "Title is required").max(120),
+  body: z.string().min(1, "Review is required").max(5000),
+});
+
+type ReviewFormData = z.infer<typeof reviewSchema>;
+
+function StarRating({ rating, className = "h-4 w-4" }: { rating: number; className?: string }) {
+  return (
+    <div className="flex text-yellow-400">
+      {[...Array(5)].map((_, i) => (
+        <Star key={i} className={`${className} ${i < rating ? "fill-current" : ""}`} />
+      ))}
+    </div>
+  );
+}
+
+function ReviewForm({ productId }: { productId: number }) {
+  const { toast } = useToast();
+
+  const form = useForm<ReviewFormData>({
+    resolver: zodResolver(reviewSchema),
+    defaultValues: {
+      rating: 0,
+      title: "",
+      body: "",
+    },
+  });
+
+  const createReviewMutation = useMutation({
+    mutationFn: async (data: ReviewFormData) => {
+      const res = await apiRequest("POST", `/api/products/${productId}/reviews`, data);
+      return await res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Review submitted",
+        description: "Thanks! Your review will appear once it has been approved.",
+      });
+      form.reset();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not submit review",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Write a Review</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((data) => createReviewMutation.mutate(data))} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="rating"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Rating</FormLabel>
+                  <FormControl>
+                    <div className="flex text-yellow-400">
+                      {[1, 2, 3, 4, 5].map((value) => (
+                        <button
+                          key={value}
+                          type="button"
+                          aria-label={`${value} star${value > 1 ? "s" : ""}`}
+                          onClick={() => field.onChange(value)}
+                        >
+                          <Star className={`h-6 w-6 ${value <= field.value ? "fill-current" : ""}`} />
+                        </button>
+                      ))}
+                    </div>
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="title"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Title</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Summarize your experience" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="body"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Review</FormLabel>
+                  <FormControl>
+                    <Textarea placeholder="What did you like or dislike?" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <Button
+              type="submit"
+              className="bg-blue-600 hover:bg-blue-700"
+              disabled={createReviewMutation.isPending}
+            >
+              {createReviewMutation.isPending ? "Submitting..." : "Submit Review"}
+            </Button>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+}
+
+export function ProductReviews({ product }: { product: Product }) {
+  const { user } = useAuth();
+  const [sort, setSort] = useState<ReviewSort>("newest");
+  const [page, setPage] = useState(0);
+
+  const { data, isLoading } = useQuery<{ reviews: ReviewWithAuthor[]; total: number }>({
+    queryKey: ["/api/products", product.id, "reviews", { sort, page }],
+    queryFn: async () => {
+      const params = new URLSearchParams({
+        sort,
+        limit: REVIEWS_PER_PAGE.toString(),
+        offset: (page * REVIEWS_PER_PAGE).toString(),
+      });
+      const res = await fetch(`/api/products/${product.id}/reviews?${params}`);
+      if (!res.ok) {
+        throw new Error("Failed to load reviews");
+      }
+      return res.json();
+    },
+  });
+
+  const reviews = data?.reviews ?? [];
+  const total = data?.total ?? 0;
+  const pageCount = Math.ceil(total / REVIEWS_PER_PAGE);
+
+  const handleSortChange = (value: string) => {
+    setSort(value as ReviewSort);
+    setPage(0);
+  };
+
+  return (
+    <section className="mt-16 space-y-8">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold text-slate-800">Customer Reviews</h2>
+          <div className="flex items-center space-x-2 mt-2">
+            <StarRating rating={Math.round(parseFloat(product.rating || "0"))} className="h-5 w-5" />
+            <span className="text-slate-600">
+              {parseFloat(product.rating || "0").toFixed(1)} out of 5 • {product.reviewCount || 0} reviews
+            </span>
+          </div>
+        </div>
+        {total > 0 && (
+          <Select value={sort} onValueChange={handleSortChange}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="newest">Newest first</SelectItem>
+              <SelectItem value="oldest">Oldest first</SelectItem>
+              <SelectItem value="highest">Highest rated</SelectItem>
+              <SelectItem value="lowest">Lowest rated</SelectItem>
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+
+      {isLoading ? (
+        <p className="text-slate-500">Loading reviews...</p>
+      ) : reviews.length === 0 ? (
+        <p className="text-slate-500">No reviews yet. Be the first to review this product!</p>
+      ) : (
+        <div className="space-y-4">
+          {reviews.map((review) => (
+            <Card key={review.id}>
+              <CardContent className="p-6">
+                <div className="flex items-center justify-between mb-2">
+                  <div className="flex items-center space-x-3">
+                    <StarRating rating={review.rating} />
+                    <h4 className="font-semibold text-slate-800">{review.title}</h4>
+                  </div>
+                  <span className="text-sm text-slate-500">
+                    {new Date(review.createdAt).toLocaleDateString()}
+                  </span>
+                </div>
+                <div className="flex items-center space-x-2 mb-3 text-sm text-slate-600">
+                  <span>{review.authorName}</span>
+                  {review.isVerifiedPurchase && (
+                    <Badge variant="outline" className="text-green-600 border-green-600">
+                      <BadgeCheck className="h-3 w-3 mr-1" />
+                      Verified purchase
+                    </Badge>
+                  )}
+                </div>
+                <p className="text-slate-600 leading-relaxed whitespace-pre-line">{review.body}</p>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      {pageCount > 1 && (
+        <div className="flex items-center justify-center space-x-4">
+          <Button variant="outline" disabled={page === 0} onClick={() => setPage(page - 1)}>
+            Previous
+          </Button>
+          <span className="text-sm text-slate-600">
+            Page {page + 1} of {pageCount}
+          </span>
+          <Button variant="outline" disabled={page + 1 >= pageCount} onClick={() => setPage(page + 1)}>
+            Next
+          </Button>
+        </div>
+      )}
+
+      {user && <ReviewForm productId={product.id} />}
+    </section>
+  );
+}
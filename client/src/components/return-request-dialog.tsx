@@ -0,0 +1,166 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { type OrderWithItems } from "@/components/order-summary";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { ReturnRequestWithItems } from "@shared/schema";
+import { RETURN_REASONS, RETURN_REASON_LABELS, type ReturnReason } from "@shared/returns";
+
+type LineSelection = { selected: boolean; quantity: number; reason: ReturnReason };
+
+// Units of each order line not already covered by an open or completed return
+function returnableQuantities(order: OrderWithItems, returnRequests: ReturnRequestWithItems[]) {
+  const remaining = new Map(order.orderItems.map((item) => [item.id, item.quantity]));
+  for (const returnRequest of returnRequests) {
+    if (returnRequest.status === "rejected") continue;
+    for (const item of returnRequest.items) {
+      remaining.set(item.orderItemId, (remaining.get(item.orderItemId) ?? 0) - item.quantity);
+    }
+  }
+  return remaining;
+}
+
+export function ReturnRequestDialog({
+  order,
+  returnRequests,
+  isOpen,
+  onClose,
+}: {
+  order: OrderWithItems;
+  returnRequests: ReturnRequestWithItems[];
+  isOpen: boolean;
+  onClose: () => void;
+}) {
+  const { toast } = useToast();
+  const remaining = returnableQuantities(order, returnRequests);
+  const [lines, setLines] = useState<Record<number, LineSelection>>({});
+  const [note, setNote] = useState("");
+
+  const lineFor = (orderItemId: number): LineSelection =>
+    lines[orderItemId] ?? { selected: false, quantity: 1, reason: "damaged" };
+
+  const updateLine = (orderItemId: number, change: Partial<LineSelection>) => {
+    setLines({ ...lines, [orderItemId]: { ...lineFor(orderItemId), ...change } });
+  };
+
+  const selectedLines = order.orderItems
+    .filter((item) => lineFor(item.id).selected)
+    .map((item) => ({
+      orderItemId: item.id,
+      quantity: lineFor(item.id).quantity,
+      reason: lineFor(item.id).reason,
+    }));
+
+  const createReturnMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/orders/${order.id}/returns`, {
+        items: selectedLines,
+        note: note.trim() || undefined,
+      });
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/orders/${order.id}`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/returns"] });
+      setLines({});
+      setNote("");
+      onClose();
+      toast({
+        title: "Return requested",
+        description: "We will review your request shortly.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Return items from order #{order.id}</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          {order.orderItems.map((item) => {
+            const available = remaining.get(item.id) ?? 0;
+            const line = lineFor(item.id);
+            return (
+              <div key={item.id} className="flex items-center space-x-4">
+                <Checkbox
+                  checked={line.selected}
+                  disabled={available <= 0}
+                  onCheckedChange={(checked) => updateLine(item.id, { selected: checked === true })}
+                />
+                <img
+                  src={item.product.imageUrl}
+                  alt={item.product.name}
+                  className="w-12 h-12 object-cover rounded-lg"
+                />
+                <div className="flex-1">
+                  <p className="font-medium text-slate-800">{item.product.name}</p>
+                  <p className="text-sm text-slate-600">
+                    {available > 0 ? `${available} returnable` : "Already returned"}
+                  </p>
+                </div>
+                {line.selected && (
+                  <>
+                    <Input
+                      type="number"
+                      className="w-20"
+                      min={1}
+                      max={available}
+                      value={line.quantity}
+                      onChange={(e) =>
+                        updateLine(item.id, {
+                          quantity: Math.min(available, Math.max(1, parseInt(e.target.value) || 1)),
+                        })
+                      }
+                    />
+                    <Select
+                      value={line.reason}
+                      onValueChange={(value) => updateLine(item.id, { reason: value as ReturnReason })}
+                    >
+                      <SelectTrigger className="w-44">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {RETURN_REASONS.map((reason) => (
+                          <SelectItem key={reason} value={reason}>
+                            {RETURN_REASON_LABELS[reason]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </>
+                )}
+              </div>
+            );
+          })}
+          <div className="space-y-2">
+            <Label>Anything else we should know?</Label>
+            <Textarea maxLength={1000} value={note} onChange={(e) => setNote(e.target.value)} />
+          </div>
+          <Button
+            className="w-full bg-blue-600 hover:bg-blue-700"
+            disabled={selectedLines.length === 0 || createReturnMutation.isPending}
+            onClick={() => createReturnMutation.mutate()}
+          >
+            {createReturnMutation.isPending ? "Submitting..." : "Request Return"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,53 @@
+import { Badge } from "@/components/ui/badge";
+import { useStoreSettings } from "@/hooks/use-store-settings";
+import { ReturnRequestWithItems } from "@shared/schema";
+import { RETURN_REASON_LABELS, RETURN_STATUS_LABELS, type ReturnStatus } from "@shared/returns";
+
+export function ReturnStatusBadge({ status }: { status: string }) {
+  const variant =
+    status === "refunded"
+      ? "default"
+      : status === "rejected"
+      ? "destructive"
+      : status === "requested"
+      ? "outline"
+      : "secondary";
+
+  return (
+    <Badge variant={variant}>
+      {RETURN_STATUS_LABELS[status as ReturnStatus] ?? status}
+    </Badge>
+  );
+}
+
+export function ReturnRequestSummary({ returnRequest }: { returnRequest: ReturnRequestWithItems }) {
+  const { formatMoney } = useStoreSettings();
+
+  return (
+    <div className="border rounded-lg p-4 space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="font-medium text-slate-800">
+          Return #{returnRequest.id} • {new Date(returnRequest.createdAt).toLocaleDateString()}
+        </span>
+        <ReturnStatusBadge status={returnRequest.status} />
+      </div>
+      <ul className="text-sm text-slate-700 space-y-1">
+        {returnRequest.items.map((item) => (
+          <li key={item.id}>
+            {item.orderItem.product.name} × {item.quantity}
+            <span className="text-slate-500"> — {RETURN_REASON_LABELS[item.reason]}</span>
+          </li>
+        ))}
+      </ul>
+      {returnRequest.note && <p className="text-sm text-slate-600">“{returnRequest.note}”</p>}
+      {returnRequest.adminNote && (
+        <p className="text-sm text-slate-600">Store: {returnRequest.adminNote}</p>
+      )}
+      {returnRequest.refundAmount !== null && (
+        <p className="text-sm font-medium text-green-600">
+          Refunded {formatMoney(returnRequest.refundAmount)}
+        </p>
+      )}
+    </div>
+  );
+}
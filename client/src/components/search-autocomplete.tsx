@@ -0,0 +1,154 @@
+import { useEffect, useState } from "react";
+import { useQuery, keepPreviousData } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { Search, Folder, TrendingUp } from "lucide-react";
+import {
+  Command,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import { HighlightedText } from "@/components/highlighted-text";
+import { useStoreSettings } from "@/hooks/use-store-settings";
+import { logSearchClick } from "@/lib/search-analytics";
+import { SearchSuggestions } from "@shared/schema";
+
+const MIN_QUERY_LENGTH = 2;
+const DEBOUNCE_MS = 150;
+
+// The header's search box. Suggestions appear while typing and are picked
+// with the arrow keys and Enter; Enter on the first item searches for the
+// text as typed.
+export function SearchAutocomplete({ onNavigate }: { onNavigate?: () => void }) {
+  const [, setLocation] = useLocation();
+  const { formatPrice } = useStoreSettings();
+  const [query, setQuery] = useState("");
+  const [debouncedQuery, setDebouncedQuery] = useState("");
+  const [open, setOpen] = useState(false);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedQuery(query.trim()), DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [query]);
+
+  const { data: suggestions } = useQuery<SearchSuggestions>({
+    queryKey: ["/api/search/suggest", debouncedQuery],
+    queryFn: async () => {
+      const res = await fetch(`/api/search/suggest?q=${encodeURIComponent(debouncedQuery)}`);
+      if (!res.ok) {
+        throw new Error("Failed to fetch search suggestions");
+      }
+      return res.json();
+    },
+    enabled: debouncedQuery.length >= MIN_QUERY_LENGTH,
+    placeholderData: keepPreviousData,
+    staleTime: 30 * 1000,
+  });
+
+  const navigate = (path: string) => {
+    setOpen(false);
+    setLocation(path);
+    onNavigate?.();
+  };
+
+  const search = (text: string) => {
+    if (!text.trim()) return;
+    logSearchClick({ query, source: "suggestions" });
+    setQuery(text);
+    navigate(`/?search=${encodeURIComponent(text.trim())}`);
+  };
+
+  const showSuggestions = open && query.trim().length >= MIN_QUERY_LENGTH;
+
+  return (
+    <Command
+      shouldFilter={false}
+      className="relative overflow-visible rounded-md border border-input bg-white"
+      onKeyDown={(e) => {
+        if (e.key === "Escape") setOpen(false);
+      }}
+    >
+      <CommandInput
+        placeholder="Search products..."
+        value={query}
+        onValueChange={(value) => {
+          setQuery(value);
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
+        className="h-10"
+      />
+      {showSuggestions && (
+        <CommandList
+          className="absolute left-0 right-0 top-full z-50 mt-1 rounded-md border bg-white shadow-lg"
+          // Keep focus in the input so clicking an item doesn't close the list first
+          onMouseDown={(e) => e.preventDefault()}
+        >
+          <CommandItem value={`search:${query}`} onSelect={() => search(query)}>
+            <Search className="mr-2 h-4 w-4 text-slate-400" />
+            Search for "{query.trim()}"
+          </CommandItem>
+
+          {(suggestions?.queries.length ?? 0) > 0 && (
+            <CommandGroup heading="Popular searches">
+              {suggestions!.queries.map((popular) => (
+                <CommandItem key={popular} value={`query:${popular}`} onSelect={() => search(popular)}>
+                  <TrendingUp className="mr-2 h-4 w-4 text-slate-400" />
+                  {popular}
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          )}
+
+          {(suggestions?.categories.length ?? 0) > 0 && (
+            <CommandGroup heading="Categories">
+              {suggestions!.categories.map((category) => (
+                <CommandItem
+                  key={category.id}
+                  value={`category:${category.id}`}
+                  onSelect={() => {
+                    logSearchClick({ query, source: "suggestions", categoryId: category.id });
+                    setQuery("");
+                    navigate(`/?categoryId=${category.id}`);
+                  }}
+                >
+                  <Folder className="mr-2 h-4 w-4 text-slate-400" />
+                  {category.name}
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          )}
+
+          {(suggestions?.products.length ?? 0) > 0 && (
+            <CommandGroup heading="Products">
+              {suggestions!.products.map((product) => (
+                <CommandItem
+                  key={product.id}
+                  value={`product:${product.id}`}
+                  onSelect={() => {
+                    logSearchClick({ query, source: "suggestions", productId: product.id });
+                    setQuery("");
+                    navigate(`/products/${product.id}`);
+                  }}
+                >
+                  <img src={product.imageUrl} alt="" className="mr-3 h-10 w-10 rounded object-cover" />
+                  <span className="flex-1 truncate">
+                    <HighlightedText text={product.highlight} />
+                  </span>
+                  <span className="ml-3 text-right">
+                    <span className="font-medium text-slate-800">{formatPrice(product.price)}</span>
+                    {product.originalPrice && parseFloat(product.originalPrice) > parseFloat(product.price) && (
+                      <span className="block text-xs text-slate-500 line-through">{formatPrice(product.originalPrice)}</span>
+                    )}
+                  </span>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          )}
+        </CommandList>
+      )}
+    </Command>
+  );
+}
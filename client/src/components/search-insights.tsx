@@ -0,0 +1,160 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { apiRequest } from "@/lib/queryClient";
+import { SearchInsights } from "@shared/schema";
+
+const PERIODS = [7, 30, 90];
+
+function formatPercent(value: number) {
+  return `${Math.round(value * 100)}%`;
+}
+
+function Figure({ label, value }: { label: string; value: string | number }) {
+  return (
+    <div>
+      <p className="text-sm text-slate-600">{label}</p>
+      <p className="text-2xl font-bold text-slate-800">{value}</p>
+    </div>
+  );
+}
+
+// What shoppers search for, which searches find nothing and how often results
+// are clicked, from the search_events log
+export function SearchInsightsReport() {
+  const [days, setDays] = useState(30);
+
+  const { data: insights } = useQuery<SearchInsights>({
+    queryKey: ["/api/admin/search-insights", days],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/admin/search-insights?days=${days}`);
+      return await res.json();
+    },
+  });
+
+  const totals = insights?.totals;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle>Search Insights</CardTitle>
+          <Select value={String(days)} onValueChange={(value) => setDays(Number(value))}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PERIODS.map((period) => (
+                <SelectItem key={period} value={String(period)}>
+                  Last {period} days
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <Figure label="Searches" value={totals?.searches ?? 0} />
+            <Figure label="Zero-result searches" value={totals?.zeroResultSearches ?? 0} />
+            <Figure
+              label="Zero-result rate"
+              value={totals && totals.searches > 0 ? formatPercent(totals.zeroResultSearches / totals.searches) : "–"}
+            />
+            <Figure label="Clicks" value={totals?.clicks ?? 0} />
+          </div>
+
+          <div className="h-64">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={insights?.trend ?? []}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="date" tick={{ fontSize: 12 }} />
+                <YAxis allowDecimals={false} tick={{ fontSize: 12 }} />
+                <Tooltip />
+                <Legend />
+                <Line type="monotone" dataKey="searches" name="Searches" stroke="var(--chart-1)" dot={false} />
+                <Line type="monotone" dataKey="zeroResultSearches" name="Zero results" stroke="var(--chart-3)" dot={false} />
+                <Line type="monotone" dataKey="clicks" name="Clicks" stroke="var(--chart-2)" dot={false} />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Top Queries</CardTitle>
+        </CardHeader>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Query</TableHead>
+              <TableHead className="text-right">Searches</TableHead>
+              <TableHead className="text-right">Zero results</TableHead>
+              <TableHead className="text-right">Result clicks</TableHead>
+              <TableHead className="text-right">Click-through rate</TableHead>
+              <TableHead className="text-right">Suggestion clicks</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {insights?.topQueries.map((stats) => (
+              <TableRow key={stats.query}>
+                <TableCell className="font-medium">{stats.query}</TableCell>
+                <TableCell className="text-right">{stats.searches}</TableCell>
+                <TableCell className="text-right">{stats.zeroResultSearches}</TableCell>
+                <TableCell className="text-right">{stats.resultClicks}</TableCell>
+                <TableCell className="text-right">{formatPercent(stats.clickThroughRate)}</TableCell>
+                <TableCell className="text-right">{stats.suggestionClicks}</TableCell>
+              </TableRow>
+            ))}
+            {insights?.topQueries.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center text-slate-500">
+                  No searches in this period.
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Zero-Result Queries</CardTitle>
+        </CardHeader>
+        <CardContent className="pb-0">
+          <p className="text-sm text-slate-600">
+            Searches that found nothing. Synonyms below or new products can give them results.
+          </p>
+        </CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Query</TableHead>
+              <TableHead className="text-right">Searches</TableHead>
+              <TableHead>Last searched</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {insights?.zeroResultQueries.map((stats) => (
+              <TableRow key={stats.query}>
+                <TableCell className="font-medium">{stats.query}</TableCell>
+                <TableCell className="text-right">{stats.searches}</TableCell>
+                <TableCell>{new Date(stats.lastSearchedAt).toLocaleString()}</TableCell>
+              </TableRow>
+            ))}
+            {insights?.zeroResultQueries.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={3} className="text-center text-slate-500">
+                  Every search in this period found products.
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+
+export type SecondFactor = { code: string } | { recoveryCode: string };
+
+// Six-digit authenticator code entry, optionally switching to a recovery code
+// for when the authenticator is not at hand.
+export function TwoFactorCodeForm({ onSubmit, isPending, submitLabel = "Verify", allowRecoveryCode = false }: {
+  onSubmit: (factor: SecondFactor) => void;
+  isPending: boolean;
+  submitLabel?: string;
+  allowRecoveryCode?: boolean;
+}) {
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [code, setCode] = useState("");
+  const [recoveryCode, setRecoveryCode] = useState("");
+
+  const canSubmit = useRecoveryCode ? recoveryCode.trim().length > 0 : code.length === 6;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit) return;
+    onSubmit(useRecoveryCode ? { recoveryCode: recoveryCode.trim() } : { code });
+    setCode("");
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {useRecoveryCode ? (
+        <Input
+          placeholder="xxxxx-xxxxx"
+          autoComplete="off"
+          value={recoveryCode}
+          onChange={(e) => setRecoveryCode(e.target.value)}
+        />
+      ) : (
+        <div className="flex justify-center">
+          <InputOTP maxLength={6} value={code} onChange={setCode} autoFocus>
+            <InputOTPGroup>
+              {Array.from({ length: 6 }, (_, index) => (
+                <InputOTPSlot key={index} index={index} />
+              ))}
+            </InputOTPGroup>
+          </InputOTP>
+        </div>
+      )}
+      <Button
+        type="submit"
+        className="w-full bg-blue-600 hover:bg-blue-700"
+        disabled={!canSubmit || isPending}
+      >
+        {isPending ? "Verifying..." : submitLabel}
+      </Button>
+      {allowRecoveryCode && (
+        <button
+          type="button"
+          className="block w-full text-center text-sm text-blue-600 hover:text-blue-700"
+          onClick={() => setUseRecoveryCode(!useRecoveryCode)}
+        >
+          {useRecoveryCode ? "Use your authenticator app" : "Use a recovery code"}
+        </button>
+      )}
+    </form>
+  );
+}
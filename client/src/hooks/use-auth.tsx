@@ -4,17 +4,19 @@ import {
   useMutation,
   UseMutationResult,
 } from "@tanstack/react-query";
-import { User as SelectUser } from "@shared/schema";
+import { PublicUser } from "@shared/schema";
 import { getQueryFn, apiRequest, queryClient } from "../lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { type SecondFactor } from "@/components/two-factor-code-form";
 
 type AuthContextType = {
-  user: SelectUser | null;
+  user: PublicUser | null;
   isLoading: boolean;
   error: Error | null;
-  loginMutation: UseMutationResult<SelectUser, Error, LoginData>;
+  loginMutation: UseMutationResult<LoginResult, Error, LoginData>;
+  twoFactorLoginMutation: UseMutationResult<PublicUser, Error, SecondFactor>;
   logoutMutation: UseMutationResult<void, Error, void>;
-  registerMutation: UseMutationResult<SelectUser, Error, RegisterData>;
+  registerMutation: UseMutationResult<PublicUser, Error, RegisterData>;
 };
 
 type LoginData = {
@@ -22,6 +24,9 @@ type LoginData = {
   password: string;
 };
 
+// Accounts with 2FA get a second step instead of a session straight away
+type LoginResult = PublicUser | { twoFactorRequired: true };
+
 type RegisterData = {
   username: string;
   email: string;
@@ -37,26 +42,51 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     data: user,
     error,
     isLoading,
-  } = useQuery<SelectUser | undefined, Error>({
+  } = useQuery<PublicUser | undefined, Error>({
     queryKey: ["/api/user"],
     queryFn: getQueryFn({ on401: "returnNull" }),
   });
 
+  const completeLogin = (user: PublicUser) => {
+    queryClient.setQueryData(["/api/user"], user);
+    // The server merges any guest cart into the account on login
+    queryClient.invalidateQueries({ queryKey: ["/api/cart"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/cart/quote"] });
+    toast({
+      title: "Welcome back!",
+      description: "You have successfully logged in.",
+    });
+  };
+
   const loginMutation = useMutation({
     mutationFn: async (credentials: LoginData) => {
       const res = await apiRequest("POST", "/api/login", credentials);
       return await res.json();
     },
-    onSuccess: (user: SelectUser) => {
-      queryClient.setQueryData(["/api/user"], user);
+    onSuccess: (result: LoginResult) => {
+      if ("twoFactorRequired" in result) return;
+      completeLogin(result);
+    },
+    onError: (error: Error) => {
       toast({
-        title: "Welcome back!",
-        description: "You have successfully logged in.",
+        title: "Login failed",
+        description: error.message,
+        variant: "destructive",
       });
     },
+  });
+
+  const twoFactorLoginMutation = useMutation({
+    mutationFn: async (factor: SecondFactor) => {
+      const res = await apiRequest("POST", "/api/login/2fa", factor);
+      return await res.json();
+    },
+    onSuccess: (user: PublicUser) => {
+      completeLogin(user);
+    },
     onError: (error: Error) => {
       toast({
-        title: "Login failed",
+        title: "Verification failed",
         description: error.message,
         variant: "destructive",
       });
@@ -68,8 +98,11 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       const res = await apiRequest("POST", "/api/register", credentials);
       return await res.json();
     },
-    onSuccess: (user: SelectUser) => {
+    onSuccess: (user: PublicUser) => {
       queryClient.setQueryData(["/api/user"], user);
+      // The server merges any guest cart into the account on login
+      queryClient.invalidateQueries({ queryKey: ["/api/cart"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/cart/quote"] });
       toast({
         title: "Account created!",
         description: "Welcome to ModernCart!",
@@ -112,6 +145,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         isLoading,
         error,
         loginMutation,
+        twoFactorLoginMutation,
         logoutMutation,
         registerMutation,
       }}
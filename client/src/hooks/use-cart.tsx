@@ -1,9 +1,9 @@
-import { createContext, ReactNode, useContext } from "react";
+import { createContext, ReactNode, useContext, useState } from "react";
 import { useQuery, useMutation, UseQueryResult } from "@tanstack/react-query";
 import { CartItem, Product } from "@shared/schema";
+import { PriceQuote } from "@shared/pricing";
 import { apiRequest, queryClient } from "../lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { useAuth } from "./use-auth";
 
 type CartItemWithProduct = CartItem & { product: Product };
 
@@ -11,36 +11,57 @@ type CartContextType = {
   cartItems: CartItemWithProduct[];
   isLoading: boolean;
   itemCount: number;
-  subtotal: number;
+  quote: PriceQuote | undefined;
+  couponCode: string | undefined;
+  applyCoupon: (code: string) => void;
+  removeCoupon: () => void;
   addToCart: (productId: number, quantity?: number) => Promise<void>;
   updateQuantity: (id: number, quantity: number) => Promise<void>;
   removeFromCart: (id: number) => Promise<void>;
   clearCart: () => Promise<void>;
+  reorder: (orderId: number) => Promise<void>;
 };
 
 export const CartContext = createContext<CartContextType | null>(null);
 
 export function CartProvider({ children }: { children: ReactNode }) {
   const { toast } = useToast();
-  const { user } = useAuth();
+  const [couponCode, setCouponCode] = useState<string | undefined>();
 
+  // Guests get a session-scoped cart, so the cart is fetched regardless of
+  // whether anyone is logged in.
   const {
     data: cartItems = [],
     isLoading,
   }: UseQueryResult<CartItemWithProduct[], Error> = useQuery({
     queryKey: ["/api/cart"],
-    enabled: !!user,
+  });
+
+  // Totals always come from the server so the cart shows exactly what
+  // checkout will charge. An invalid coupon still returns a quote, with
+  // promotionError explaining why it was not applied.
+  const { data: quote }: UseQueryResult<PriceQuote, Error> = useQuery({
+    queryKey: ["/api/cart/quote", couponCode ?? null],
+    queryFn: async () => {
+      const res = await apiRequest("POST", "/api/cart/quote", { couponCode });
+      return await res.json();
+    },
+    enabled: cartItems.length > 0,
   });
 
   const itemCount = cartItems.reduce((sum, item) => sum + item.quantity, 0);
-  const subtotal = cartItems.reduce((sum, item) => sum + (parseFloat(item.product.price) * item.quantity), 0);
+
+  const invalidateCart = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/cart"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/cart/quote"] });
+  };
 
   const addToCartMutation = useMutation({
     mutationFn: async ({ productId, quantity }: { productId: number; quantity: number }) => {
       await apiRequest("POST", "/api/cart", { productId, quantity });
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/cart"] });
+      invalidateCart();
       toast({
         title: "Added to cart",
         description: "Item has been added to your cart.",
@@ -60,7 +81,7 @@ export function CartProvider({ children }: { children: ReactNode }) {
       await apiRequest("PUT", `/api/cart/${id}`, { quantity });
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/cart"] });
+      invalidateCart();
     },
     onError: (error: Error) => {
       toast({
@@ -76,7 +97,7 @@ export function CartProvider({ children }: { children: ReactNode }) {
       await apiRequest("DELETE", `/api/cart/${id}`);
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/cart"] });
+      invalidateCart();
       toast({
         title: "Removed from cart",
         description: "Item has been removed from your cart.",
@@ -91,15 +112,31 @@ export function CartProvider({ children }: { children: ReactNode }) {
     },
   });
 
-  const addToCart = async (productId: number, quantity: number = 1) => {
-    if (!user) {
+  const reorderMutation = useMutation({
+    mutationFn: async (orderId: number) => {
+      const res = await apiRequest("POST", `/api/orders/${orderId}/reorder`);
+      return (await res.json()) as { added: number; skipped: string[] };
+    },
+    onSuccess: ({ added, skipped }) => {
+      invalidateCart();
+      toast({
+        title: added > 0 ? "Added to cart" : "Nothing added",
+        description: skipped.length > 0
+          ? `No longer available: ${skipped.join(", ")}`
+          : "Items from this order have been added to your cart.",
+        variant: added > 0 ? "default" : "destructive",
+      });
+    },
+    onError: (error: Error) => {
       toast({
-        title: "Authentication required",
-        description: "Please log in to add items to your cart.",
+        title: "Error",
+        description: error.message,
         variant: "destructive",
       });
-      return;
-    }
+    },
+  });
+
+  const addToCart = async (productId: number, quantity: number = 1) => {
     await addToCartMutation.mutateAsync({ productId, quantity });
   };
 
@@ -111,6 +148,18 @@ export function CartProvider({ children }: { children: ReactNode }) {
     await removeFromCartMutation.mutateAsync(id);
   };
 
+  const reorder = async (orderId: number) => {
+    await reorderMutation.mutateAsync(orderId);
+  };
+
+  const applyCoupon = (code: string) => {
+    setCouponCode(code.trim().toUpperCase() || undefined);
+  };
+
+  const removeCoupon = () => {
+    setCouponCode(undefined);
+  };
+
   const clearCart = async () => {
     // Clear all items one by one
     for (const item of cartItems) {
@@ -124,11 +173,15 @@ export function CartProvider({ children }: { children: ReactNode }) {
         cartItems,
         isLoading,
         itemCount,
-        subtotal,
+        quote,
+        couponCode,
+        applyCoupon,
+        removeCoupon,
         addToCart,
         updateQuantity,
         removeFromCart,
         clearCart,
+        reorder,
       }}
     >
       {children}
@@ -0,0 +1,26 @@
+import { useQuery } from "@tanstack/react-query";
+import { PublicStoreSettings } from "@shared/schema";
+import { DEFAULT_PRICING_RULES, toMinorUnits } from "@shared/pricing";
+import { formatMoney } from "@/lib/utils";
+
+const fallbackSettings: PublicStoreSettings = {
+  currency: DEFAULT_PRICING_RULES.currency,
+  currencySymbol: "$",
+  taxRateBps: DEFAULT_PRICING_RULES.taxRateBps,
+  freeShippingThreshold: DEFAULT_PRICING_RULES.freeShippingThreshold,
+  flatShippingFee: DEFAULT_PRICING_RULES.flatShippingFee,
+};
+
+export function useStoreSettings() {
+  const { data: settings = fallbackSettings } = useQuery<PublicStoreSettings>({
+    queryKey: ["/api/settings"],
+  });
+
+  return {
+    settings,
+    // Formats an amount in minor units (as returned in price quotes)
+    formatMoney: (minorUnits: number) => formatMoney(minorUnits, settings.currencySymbol),
+    // Formats a decimal price string (as stored on products and orders)
+    formatPrice: (price: string) => formatMoney(toMinorUnits(price), settings.currencySymbol),
+  };
+}
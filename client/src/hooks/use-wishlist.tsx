@@ -0,0 +1,127 @@
+import { createContext, ReactNode, useContext } from "react";
+import { useQuery, useMutation, UseQueryResult } from "@tanstack/react-query";
+import { WishlistItem, Product } from "@shared/schema";
+import { apiRequest, queryClient } from "../lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "./use-auth";
+import { useCart } from "./use-cart";
+
+type WishlistItemWithProduct = WishlistItem & { product: Product };
+
+type WishlistContextType = {
+  wishlistItems: WishlistItemWithProduct[];
+  isLoading: boolean;
+  isWishlisted: (productId: number) => boolean;
+  addToWishlist: (productId: number) => Promise<void>;
+  removeFromWishlist: (productId: number) => Promise<void>;
+  toggleWishlist: (productId: number) => Promise<void>;
+  moveToCart: (productId: number) => Promise<void>;
+};
+
+export const WishlistContext = createContext<WishlistContextType | null>(null);
+
+export function WishlistProvider({ children }: { children: ReactNode }) {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const { addToCart } = useCart();
+
+  const {
+    data: wishlistItems = [],
+    isLoading,
+  }: UseQueryResult<WishlistItemWithProduct[], Error> = useQuery({
+    queryKey: ["/api/wishlist"],
+    enabled: !!user,
+  });
+
+  const addToWishlistMutation = useMutation({
+    mutationFn: async (productId: number) => {
+      await apiRequest("POST", "/api/wishlist", { productId });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/wishlist"] });
+      toast({
+        title: "Added to wishlist",
+        description: "Item has been saved to your wishlist.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const removeFromWishlistMutation = useMutation({
+    mutationFn: async (productId: number) => {
+      await apiRequest("DELETE", `/api/wishlist/${productId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/wishlist"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const isWishlisted = (productId: number) =>
+    wishlistItems.some(item => item.productId === productId);
+
+  const addToWishlist = async (productId: number) => {
+    if (!user) {
+      toast({
+        title: "Authentication required",
+        description: "Please log in to save items to your wishlist.",
+        variant: "destructive",
+      });
+      return;
+    }
+    await addToWishlistMutation.mutateAsync(productId);
+  };
+
+  const removeFromWishlist = async (productId: number) => {
+    await removeFromWishlistMutation.mutateAsync(productId);
+  };
+
+  const toggleWishlist = async (productId: number) => {
+    if (isWishlisted(productId)) {
+      await removeFromWishlist(productId);
+    } else {
+      await addToWishlist(productId);
+    }
+  };
+
+  const moveToCart = async (productId: number) => {
+    await addToCart(productId);
+    await removeFromWishlist(productId);
+  };
+
+  return (
+    <WishlistContext.Provider
+      value={{
+        wishlistItems,
+        isLoading,
+        isWishlisted,
+        addToWishlist,
+        removeFromWishlist,
+        toggleWishlist,
+        moveToCart,
+      }}
+    >
+      {children}
+    </WishlistContext.Provider>
+  );
+}
+
+export function useWishlist() {
+  const context = useContext(WishlistContext);
+  if (!context) {
+    throw new Error("useWishlist must be used within a WishlistProvider");
+  }
+  return context;
+}
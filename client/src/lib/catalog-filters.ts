@@ -0,0 +1,62 @@
+import { productQuerySchema, type ProductQuery } from "@shared/schema";
+
+// The storefront's catalog filters live in the URL query string, so filtered
+// pages can be shared and survive reloads. They use the same parameters as
+// GET /api/products, plus a 1-based page number instead of an offset.
+
+export type CatalogFilters = Omit<ProductQuery, "limit" | "offset"> & { page: number };
+
+export const CATALOG_PAGE_SIZE = 12;
+
+const filterSchema = productQuerySchema.omit({ limit: true, offset: true }).shape;
+
+type FilterKey = keyof typeof filterSchema;
+
+// Each parameter is parsed on its own, so one bad value (from an old or
+// hand-edited link) drops that filter instead of all of them
+export function parseCatalogFilters(search: string): CatalogFilters {
+  const params = new URLSearchParams(search);
+  const filters: Record<string, unknown> = {};
+  for (const key of Object.keys(filterSchema) as FilterKey[]) {
+    const value = params.get(key);
+    if (value === null) continue;
+    const result = filterSchema[key].safeParse(value);
+    if (result.success && result.data !== undefined) filters[key] = result.data;
+  }
+  const page = parseInt(params.get("page") ?? "", 10);
+  return { ...(filters as Omit<CatalogFilters, "page">), page: page > 1 ? page : 1 };
+}
+
+export function catalogFiltersToSearch(filters: CatalogFilters): string {
+  const params = new URLSearchParams();
+  for (const key of Object.keys(filterSchema) as FilterKey[]) {
+    const value = filters[key];
+    if (value === undefined || value === false || (Array.isArray(value) && value.length === 0)) continue;
+    params.set(key, Array.isArray(value) ? value.join(",") : String(value));
+  }
+  if (filters.page > 1) params.set("page", String(filters.page));
+  return params.toString();
+}
+
+// The API query for a page of the catalog
+export function catalogApiSearch(filters: CatalogFilters): string {
+  const { page, ...rest } = filters;
+  const params = new URLSearchParams(catalogFiltersToSearch({ ...rest, page: 1 }));
+  params.set("limit", String(CATALOG_PAGE_SIZE));
+  params.set("offset", String((page - 1) * CATALOG_PAGE_SIZE));
+  return params.toString();
+}
+
+// Whether anything narrows the catalog beyond the search and sort order
+export function hasActiveFilters(filters: CatalogFilters): boolean {
+  return (
+    filters.categoryId !== undefined ||
+    filters.minPrice !== undefined ||
+    filters.maxPrice !== undefined ||
+    filters.minRating !== undefined ||
+    !!filters.inStock ||
+    !!filters.onSale ||
+    !!filters.featured ||
+    (filters.tags?.length ?? 0) > 0
+  );
+}
@@ -0,0 +1,9 @@
+import { apiRequest } from "@/lib/queryClient";
+import type { SearchClick } from "@shared/schema";
+
+// Reports a click on a search result or suggestion for the admin Search
+// insights report. Failures are ignored; they must never get in the way of
+// the navigation that follows.
+export function logSearchClick(click: SearchClick) {
+  apiRequest("POST", "/api/search/clicks", click).catch(() => undefined);
+}
@@ -1,6 +1,11 @@
 import { clsx, type ClassValue } from "clsx"
 import { twMerge } from "tailwind-merge"
+import { fromMinorUnits } from "@shared/pricing"
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+export function formatMoney(minorUnits: number, currencySymbol = "$") {
+  return `${currencySymbol}${fromMinorUnits(minorUnits)}`
+}
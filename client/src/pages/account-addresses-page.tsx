@@ -0,0 +1,251 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Edit, MapPin, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Header } from "@/components/header";
+import { CartSidebar } from "@/components/cart-sidebar";
+import { CheckoutModal } from "@/components/checkout-modal";
+import { AddressFields, emptyAddress } from "@/components/address-fields";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Address } from "@shared/schema";
+import { addressSchema, formatAddressLines, toPostalAddress } from "@shared/address";
+
+const addressFormSchema = z.object({
+  label: z.string().max(40).optional(),
+  address: addressSchema,
+  isDefaultShipping: z.boolean(),
+  isDefaultBilling: z.boolean(),
+});
+
+type AddressFormData = z.infer<typeof addressFormSchema>;
+
+export default function AccountAddressesPage() {
+  const { toast } = useToast();
+  const [cartOpen, setCartOpen] = useState(false);
+  const [checkoutOpen, setCheckoutOpen] = useState(false);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingAddress, setEditingAddress] = useState<Address | null>(null);
+
+  const { data: addresses = [], isLoading } = useQuery<Address[]>({
+    queryKey: ["/api/addresses"],
+  });
+
+  const form = useForm<AddressFormData>({
+    resolver: zodResolver(addressFormSchema),
+    defaultValues: {
+      label: "",
+      address: emptyAddress,
+      isDefaultShipping: false,
+      isDefaultBilling: false,
+    },
+  });
+
+  const saveAddressMutation = useMutation({
+    mutationFn: async (data: AddressFormData) => {
+      const addressData = {
+        ...data.address,
+        label: data.label || null,
+        isDefaultShipping: data.isDefaultShipping,
+        isDefaultBilling: data.isDefaultBilling,
+      };
+      const res = editingAddress
+        ? await apiRequest("PUT", `/api/addresses/${editingAddress.id}`, addressData)
+        : await apiRequest("POST", "/api/addresses", addressData);
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/addresses"] });
+      setIsModalOpen(false);
+      toast({
+        title: "Address saved",
+        description: "Your address book has been updated.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteAddressMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/addresses/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/addresses"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleAdd = () => {
+    setEditingAddress(null);
+    form.reset({ label: "", address: emptyAddress, isDefaultShipping: false, isDefaultBilling: false });
+    setIsModalOpen(true);
+  };
+
+  const handleEdit = (address: Address) => {
+    setEditingAddress(address);
+    form.reset({
+      label: address.label ?? "",
+      address: { ...toPostalAddress(address), line2: address.line2 ?? "", region: address.region ?? "", phone: address.phone ?? "" },
+      isDefaultShipping: address.isDefaultShipping,
+      isDefaultBilling: address.isDefaultBilling,
+    });
+    setIsModalOpen(true);
+  };
+
+  const handleDelete = (id: number) => {
+    if (confirm("Are you sure you want to delete this address?")) {
+      deleteAddressMutation.mutate(id);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      <Header onCartOpen={() => setCartOpen(true)} />
+
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+        <div className="flex items-center justify-between mb-8">
+          <div>
+            <Link href="/account" className="text-sm text-blue-600 hover:text-blue-700">
+              Back to Account
+            </Link>
+            <h1 className="text-3xl font-bold text-slate-800">Address Book</h1>
+          </div>
+          <Button onClick={handleAdd}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Address
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center min-h-[30vh]">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+          </div>
+        ) : addresses.length === 0 ? (
+          <Card className="text-center p-12">
+            <MapPin className="h-12 w-12 text-slate-300 mx-auto mb-4" />
+            <h2 className="text-xl font-semibold text-slate-800 mb-2">No saved addresses</h2>
+            <p className="text-slate-600 mb-6">Save an address to check out faster.</p>
+            <Button onClick={handleAdd}>Add Address</Button>
+          </Card>
+        ) : (
+          <div className="grid md:grid-cols-2 gap-4">
+            {addresses.map((address) => (
+              <Card key={address.id}>
+                <CardContent className="p-6 space-y-3">
+                  <div className="flex items-center justify-between">
+                    <span className="font-semibold text-slate-800">{address.label || "Address"}</span>
+                    <div className="flex space-x-2">
+                      <Button size="sm" variant="outline" onClick={() => handleEdit(address)}>
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button size="sm" variant="destructive" onClick={() => handleDelete(address.id)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                  <div className="text-sm text-slate-700">
+                    {formatAddressLines(address).map((line, index) => (
+                      <p key={index}>{line}</p>
+                    ))}
+                  </div>
+                  <div className="flex space-x-2">
+                    {address.isDefaultShipping && <Badge variant="secondary">Default shipping</Badge>}
+                    {address.isDefaultBilling && <Badge variant="secondary">Default billing</Badge>}
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <Dialog open={isModalOpen} onOpenChange={setIsModalOpen}>
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingAddress ? "Edit Address" : "Add Address"}</DialogTitle>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((data) => saveAddressMutation.mutate(data))} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="label"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Label (optional)</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Home" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <AddressFields control={form.control} prefix="address" />
+              <FormField
+                control={form.control}
+                name="isDefaultShipping"
+                render={({ field }) => (
+                  <FormItem className="flex items-center space-x-2 space-y-0">
+                    <FormControl>
+                      <Checkbox checked={field.value} onCheckedChange={(checked) => field.onChange(checked === true)} />
+                    </FormControl>
+                    <FormLabel>Default shipping address</FormLabel>
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="isDefaultBilling"
+                render={({ field }) => (
+                  <FormItem className="flex items-center space-x-2 space-y-0">
+                    <FormControl>
+                      <Checkbox checked={field.value} onCheckedChange={(checked) => field.onChange(checked === true)} />
+                    </FormControl>
+                    <FormLabel>Default billing address</FormLabel>
+                  </FormItem>
+                )}
+              />
+              <Button type="submit" className="w-full" disabled={saveAddressMutation.isPending}>
+                {saveAddressMutation.isPending ? "Saving..." : "Save Address"}
+              </Button>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Cart Sidebar */}
+      <CartSidebar
+        isOpen={cartOpen}
+        onClose={() => setCartOpen(false)}
+        onCheckoutOpen={() => setCheckoutOpen(true)}
+      />
+
+      {/* Checkout Modal */}
+      <CheckoutModal
+        isOpen={checkoutOpen}
+        onClose={() => setCheckoutOpen(false)}
+      />
+    </div>
+  );
+}
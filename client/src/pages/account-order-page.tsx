@@ -0,0 +1,200 @@
+import { useState } from "react";
+import { Link, useParams, useLocation } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Package, RotateCcw, Undo2, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Header } from "@/components/header";
+import { CartSidebar } from "@/components/cart-sidebar";
+import { CheckoutModal } from "@/components/checkout-modal";
+import { OrderItemsCard, AddressCard, type OrderWithItems } from "@/components/order-summary";
+import { OrderStatusBadge, OrderTimeline, type TimelineEvent } from "@/components/order-timeline";
+import { ReturnRequestSummary } from "@/components/return-requests";
+import { ReturnRequestDialog } from "@/components/return-request-dialog";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useCart } from "@/hooks/use-cart";
+import { useToast } from "@/hooks/use-toast";
+import { ReturnRequestWithItems } from "@shared/schema";
+import { canTransitionOrder } from "@shared/order-status";
+import { RETURNABLE_ORDER_STATUSES } from "@shared/returns";
+
+type OrderDetail = OrderWithItems & {
+  statusEvents: TimelineEvent[];
+  returnRequests: ReturnRequestWithItems[];
+};
+
+export default function AccountOrderPage() {
+  const { id } = useParams<{ id: string }>();
+  const [, setLocation] = useLocation();
+  const [cartOpen, setCartOpen] = useState(false);
+  const [checkoutOpen, setCheckoutOpen] = useState(false);
+  const [returnOpen, setReturnOpen] = useState(false);
+  const { reorder } = useCart();
+  const { toast } = useToast();
+
+  const { data: order, isLoading } = useQuery<OrderDetail>({
+    queryKey: [`/api/orders/${id}`],
+  });
+
+  const cancelOrderMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/orders/${id}/cancel`, {});
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/orders/${id}`] });
+      toast({
+        title: "Order cancelled",
+        description: "Any payment taken will be returned to you.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleCancel = () => {
+    if (confirm("Are you sure you want to cancel this order?")) {
+      cancelOrderMutation.mutate();
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      <Header onCartOpen={() => setCartOpen(true)} />
+
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+        {isLoading ? (
+          <div className="flex items-center justify-center min-h-[30vh]">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+          </div>
+        ) : !order ? (
+          <Card className="text-center p-12">
+            <Package className="h-12 w-12 text-slate-300 mx-auto mb-4" />
+            <h2 className="text-xl font-semibold text-slate-800 mb-2">Order not found</h2>
+            <p className="text-slate-600 mb-6">This order does not exist or belongs to another account.</p>
+            <Button onClick={() => setLocation("/account/orders")}>Back to Orders</Button>
+          </Card>
+        ) : (
+          <div className="space-y-8">
+            <div className="flex items-center justify-between">
+              <div>
+                <Link href="/account/orders" className="text-sm text-blue-600 hover:text-blue-700">
+                  All orders
+                </Link>
+                <h1 className="text-3xl font-bold text-slate-800">Order #{order.id}</h1>
+                <p className="text-slate-600 mt-1">
+                  Placed on {new Date(order.createdAt).toLocaleDateString()}
+                </p>
+              </div>
+              <div className="flex items-center space-x-4">
+                <OrderStatusBadge status={order.status} />
+                {canTransitionOrder(order.status, "cancelled") && (
+                  <Button
+                    variant="outline"
+                    className="text-red-600"
+                    disabled={cancelOrderMutation.isPending}
+                    onClick={handleCancel}
+                  >
+                    <XCircle className="h-4 w-4 mr-2" />
+                    Cancel Order
+                  </Button>
+                )}
+                {RETURNABLE_ORDER_STATUSES.includes(order.status) && (
+                  <Button variant="outline" onClick={() => setReturnOpen(true)}>
+                    <Undo2 className="h-4 w-4 mr-2" />
+                    Return Items
+                  </Button>
+                )}
+                <Button variant="outline" onClick={() => reorder(order.id)}>
+                  <RotateCcw className="h-4 w-4 mr-2" />
+                  Buy Again
+                </Button>
+              </div>
+            </div>
+
+            <OrderItemsCard order={order} />
+
+            <div className="grid md:grid-cols-2 gap-8">
+              <AddressCard title="Shipping Address" address={order.shippingAddress} />
+              {order.billingAddress && (
+                <AddressCard title="Billing Address" address={order.billingAddress} />
+              )}
+              <Card>
+                <CardHeader>
+                  <CardTitle>Payment</CardTitle>
+                </CardHeader>
+                <CardContent className="text-sm text-slate-700 space-y-2">
+                  <div className="flex justify-between">
+                    <span>Method</span>
+                    <span className="capitalize">{order.paymentMethod}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span>Status</span>
+                    <Badge variant="secondary" className="capitalize">
+                      {order.paymentStatus}
+                    </Badge>
+                  </div>
+                  {order.promotionCode && (
+                    <div className="flex justify-between">
+                      <span>Promo code</span>
+                      <span>{order.promotionCode}</span>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+
+            {order.returnRequests.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Returns</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {order.returnRequests.map((returnRequest) => (
+                    <ReturnRequestSummary key={returnRequest.id} returnRequest={returnRequest} />
+                  ))}
+                </CardContent>
+              </Card>
+            )}
+
+            <ReturnRequestDialog
+              order={order}
+              returnRequests={order.returnRequests}
+              isOpen={returnOpen}
+              onClose={() => setReturnOpen(false)}
+            />
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Order History</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <OrderTimeline events={order.statusEvents} />
+              </CardContent>
+            </Card>
+          </div>
+        )}
+      </div>
+
+      {/* Cart Sidebar */}
+      <CartSidebar
+        isOpen={cartOpen}
+        onClose={() => setCartOpen(false)}
+        onCheckoutOpen={() => setCheckoutOpen(true)}
+      />
+
+      {/* Checkout Modal */}
+      <CheckoutModal
+        isOpen={checkoutOpen}
+        onClose={() => setCheckoutOpen(false)}
+      />
+    </div>
+  );
+}
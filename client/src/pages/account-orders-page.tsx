@@ -0,0 +1,126 @@
+import { useState } from "react";
+import { Link, useLocation } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { Package, RotateCcw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Header } from "@/components/header";
+import { CartSidebar } from "@/components/cart-sidebar";
+import { CheckoutModal } from "@/components/checkout-modal";
+import { OrderStatusBadge } from "@/components/order-timeline";
+import { type OrderWithItems } from "@/components/order-summary";
+import { apiRequest } from "@/lib/queryClient";
+import { useCart } from "@/hooks/use-cart";
+import { useStoreSettings } from "@/hooks/use-store-settings";
+
+const PAGE_SIZE = 10;
+
+export default function AccountOrdersPage() {
+  const [, setLocation] = useLocation();
+  const [cartOpen, setCartOpen] = useState(false);
+  const [checkoutOpen, setCheckoutOpen] = useState(false);
+  const [page, setPage] = useState(0);
+  const { reorder } = useCart();
+  const { formatPrice } = useStoreSettings();
+
+  // Admins get every order from /api/orders, so always ask for our own
+  const { data: orders = [], isLoading } = useQuery<OrderWithItems[]>({
+    queryKey: ["/api/orders", "mine", page],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/orders?mine=true&limit=${PAGE_SIZE}&offset=${page * PAGE_SIZE}`);
+      return await res.json();
+    },
+  });
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      <Header onCartOpen={() => setCartOpen(true)} />
+
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+        <div className="flex items-center justify-between mb-8">
+          <h1 className="text-3xl font-bold text-slate-800">My Orders</h1>
+          <Link href="/account" className="text-blue-600 hover:text-blue-700">
+            Back to Account
+          </Link>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center min-h-[30vh]">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+          </div>
+        ) : orders.length === 0 && page === 0 ? (
+          <Card className="text-center p-12">
+            <Package className="h-12 w-12 text-slate-300 mx-auto mb-4" />
+            <h2 className="text-xl font-semibold text-slate-800 mb-2">No orders yet</h2>
+            <p className="text-slate-600 mb-6">Orders you place will show up here.</p>
+            <Button onClick={() => setLocation("/")}>Start Shopping</Button>
+          </Card>
+        ) : (
+          <div className="space-y-4">
+            {orders.map((order) => (
+              <Card key={order.id}>
+                <CardContent className="p-6">
+                  <div className="flex items-center justify-between mb-4">
+                    <div>
+                      <h3 className="font-semibold text-slate-800">Order #{order.id}</h3>
+                      <p className="text-sm text-slate-600">
+                        Placed on {new Date(order.createdAt).toLocaleDateString()}
+                      </p>
+                    </div>
+                    <OrderStatusBadge status={order.status} />
+                  </div>
+                  <div className="flex items-center space-x-2 mb-4">
+                    {order.orderItems.slice(0, 5).map((item) => (
+                      <img
+                        key={item.id}
+                        src={item.product.imageUrl}
+                        alt={item.product.name}
+                        className="w-14 h-14 object-cover rounded-lg"
+                      />
+                    ))}
+                    {order.orderItems.length > 5 && (
+                      <span className="text-sm text-slate-500">+{order.orderItems.length - 5} more</span>
+                    )}
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <span className="font-bold text-slate-800">{formatPrice(order.total)}</span>
+                    <div className="flex space-x-2">
+                      <Button variant="outline" onClick={() => reorder(order.id)}>
+                        <RotateCcw className="h-4 w-4 mr-2" />
+                        Buy Again
+                      </Button>
+                      <Button onClick={() => setLocation(`/account/orders/${order.id}`)}>
+                        View Details
+                      </Button>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+            <div className="flex justify-between">
+              <Button variant="outline" disabled={page === 0} onClick={() => setPage(page - 1)}>
+                Previous
+              </Button>
+              <Button variant="outline" disabled={orders.length < PAGE_SIZE} onClick={() => setPage(page + 1)}>
+                Next
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Cart Sidebar */}
+      <CartSidebar
+        isOpen={cartOpen}
+        onClose={() => setCartOpen(false)}
+        onCheckoutOpen={() => setCheckoutOpen(true)}
+      />
+
+      {/* Checkout Modal */}
+      <CheckoutModal
+        isOpen={checkoutOpen}
+        onClose={() => setCheckoutOpen(false)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,198 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Heart, Mail, MapPin, Package, ShieldCheck, User } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Header } from "@/components/header";
+import { CartSidebar } from "@/components/cart-sidebar";
+import { CheckoutModal } from "@/components/checkout-modal";
+import { OrderStatusBadge } from "@/components/order-timeline";
+import { ReturnRequestSummary } from "@/components/return-requests";
+import { type OrderWithItems } from "@/components/order-summary";
+import { apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { useStoreSettings } from "@/hooks/use-store-settings";
+import { ReturnRequestWithItems } from "@shared/schema";
+
+export default function AccountPage() {
+  const [cartOpen, setCartOpen] = useState(false);
+  const [checkoutOpen, setCheckoutOpen] = useState(false);
+  const { user } = useAuth();
+  const { formatPrice } = useStoreSettings();
+  const { toast } = useToast();
+
+  const { data: recentOrders = [] } = useQuery<OrderWithItems[]>({
+    queryKey: ["/api/orders", "mine", "recent"],
+    queryFn: async () => {
+      const res = await apiRequest("GET", "/api/orders?mine=true&limit=3");
+      return await res.json();
+    },
+  });
+
+  const { data: returnRequests = [] } = useQuery<ReturnRequestWithItems[]>({
+    queryKey: ["/api/returns"],
+  });
+
+  const resendVerificationMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/email-verification", {});
+      return await res.json();
+    },
+    onSuccess: (result: { message: string }) => {
+      toast({
+        title: "Verification email sent",
+        description: result.message,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      <Header onCartOpen={() => setCartOpen(true)} />
+
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-12 space-y-8">
+        <h1 className="text-3xl font-bold text-slate-800">My Account</h1>
+
+        {user && !user.emailVerifiedAt && (
+          <Card className="border-amber-200 bg-amber-50">
+            <CardContent className="p-4 flex items-center justify-between">
+              <div className="flex items-center space-x-3">
+                <Mail className="h-5 w-5 text-amber-600" />
+                <p className="text-sm text-slate-700">
+                  Please verify {user.email}. Verifying also adds orders you placed as a guest to your account.
+                </p>
+              </div>
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={resendVerificationMutation.isPending}
+                onClick={() => resendVerificationMutation.mutate()}
+              >
+                Resend Email
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
+        <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
+          <Card>
+            <CardContent className="p-6">
+              <User className="h-8 w-8 text-blue-600 mb-3" />
+              <h2 className="font-semibold text-slate-800">{user?.fullName}</h2>
+              <p className="text-sm text-slate-600">@{user?.username}</p>
+              <p className="text-sm text-slate-600">{user?.email}</p>
+              {user && (
+                <p className="text-sm text-slate-500 mt-2">
+                  Member since {new Date(user.createdAt).toLocaleDateString()}
+                </p>
+              )}
+            </CardContent>
+          </Card>
+          <Link href="/account/orders">
+            <Card className="cursor-pointer hover:shadow-md transition-shadow h-full">
+              <CardContent className="p-6">
+                <Package className="h-8 w-8 text-blue-600 mb-3" />
+                <h2 className="font-semibold text-slate-800">Orders</h2>
+                <p className="text-sm text-slate-600">Track, review and buy again</p>
+              </CardContent>
+            </Card>
+          </Link>
+          <Link href="/wishlist">
+            <Card className="cursor-pointer hover:shadow-md transition-shadow h-full">
+              <CardContent className="p-6">
+                <Heart className="h-8 w-8 text-blue-600 mb-3" />
+                <h2 className="font-semibold text-slate-800">Wishlist</h2>
+                <p className="text-sm text-slate-600">Products saved for later</p>
+              </CardContent>
+            </Card>
+          </Link>
+          <Link href="/account/addresses">
+            <Card className="cursor-pointer hover:shadow-md transition-shadow h-full">
+              <CardContent className="p-6">
+                <MapPin className="h-8 w-8 text-blue-600 mb-3" />
+                <h2 className="font-semibold text-slate-800">Addresses</h2>
+                <p className="text-sm text-slate-600">Shipping and billing addresses</p>
+              </CardContent>
+            </Card>
+          </Link>
+          <Link href="/account/security">
+            <Card className="cursor-pointer hover:shadow-md transition-shadow h-full">
+              <CardContent className="p-6">
+                <ShieldCheck className="h-8 w-8 text-blue-600 mb-3" />
+                <h2 className="font-semibold text-slate-800">Security</h2>
+                <p className="text-sm text-slate-600">Two-factor authentication</p>
+              </CardContent>
+            </Card>
+          </Link>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Recent Orders</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {recentOrders.length === 0 ? (
+              <p className="text-sm text-slate-500">You have not placed any orders yet.</p>
+            ) : (
+              recentOrders.map((order) => (
+                <Link key={order.id} href={`/account/orders/${order.id}`}>
+                  <div className="flex items-center justify-between p-3 rounded-lg hover:bg-slate-50 cursor-pointer">
+                    <div>
+                      <p className="font-medium text-slate-800">Order #{order.id}</p>
+                      <p className="text-sm text-slate-600">
+                        {new Date(order.createdAt).toLocaleDateString()} • {order.orderItems.length} item(s)
+                      </p>
+                    </div>
+                    <div className="flex items-center space-x-4">
+                      <span className="font-semibold text-slate-800">{formatPrice(order.total)}</span>
+                      <OrderStatusBadge status={order.status} />
+                    </div>
+                  </div>
+                </Link>
+              ))
+            )}
+          </CardContent>
+        </Card>
+
+        {returnRequests.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Returns</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {returnRequests.map((returnRequest) => (
+                <Link key={returnRequest.id} href={`/account/orders/${returnRequest.orderId}`}>
+                  <div className="cursor-pointer">
+                    <ReturnRequestSummary returnRequest={returnRequest} />
+                  </div>
+                </Link>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+
+      {/* Cart Sidebar */}
+      <CartSidebar
+        isOpen={cartOpen}
+        onClose={() => setCartOpen(false)}
+        onCheckoutOpen={() => setCheckoutOpen(true)}
+      />
+
+      {/* Checkout Modal */}
+      <CheckoutModal
+        isOpen={checkoutOpen}
+        onClose={() => setCheckoutOpen(false)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,250 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { QRCodeSVG } from "qrcode.react";
+import { ShieldCheck, ShieldOff } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Header } from "@/components/header";
+import { CartSidebar } from "@/components/cart-sidebar";
+import { CheckoutModal } from "@/components/checkout-modal";
+import { TwoFactorCodeForm, type SecondFactor } from "@/components/two-factor-code-form";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { TwoFactorStatus } from "@shared/schema";
+
+type TwoFactorSetup = { secret: string; otpauthUri: string };
+
+function RecoveryCodesCard({ codes, onDone }: { codes: string[]; onDone: () => void }) {
+  return (
+    <Card className="border-amber-200 bg-amber-50">
+      <CardHeader>
+        <CardTitle>Save your recovery codes</CardTitle>
+        <CardDescription>
+          Each code signs you in once if you lose your authenticator. They won't be shown again.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 gap-2 font-mono text-sm">
+          {codes.map((code) => (
+            <span key={code}>{code}</span>
+          ))}
+        </div>
+        <div className="flex space-x-2">
+          <Button variant="outline" onClick={() => navigator.clipboard.writeText(codes.join("\n"))}>
+            Copy
+          </Button>
+          <Button onClick={onDone}>I've saved them</Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function AccountSecurityPage() {
+  const { toast } = useToast();
+  const [cartOpen, setCartOpen] = useState(false);
+  const [checkoutOpen, setCheckoutOpen] = useState(false);
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [disablePassword, setDisablePassword] = useState("");
+
+  const { data: status, isLoading } = useQuery<TwoFactorStatus>({
+    queryKey: ["/api/2fa"],
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const setupMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/2fa/setup", {});
+      return await res.json();
+    },
+    onSuccess: (result: TwoFactorSetup) => {
+      setSetup(result);
+    },
+    onError,
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: async (factor: SecondFactor) => {
+      const res = await apiRequest("POST", "/api/2fa/enable", factor);
+      return await res.json();
+    },
+    onSuccess: (result: { recoveryCodes: string[] }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/2fa"] });
+      setSetup(null);
+      setRecoveryCodes(result.recoveryCodes);
+      toast({
+        title: "Two-factor authentication enabled",
+        description: "You'll be asked for a code when you sign in.",
+      });
+    },
+    onError,
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: async (factor: SecondFactor) => {
+      const res = await apiRequest("POST", "/api/2fa/recovery-codes", factor);
+      return await res.json();
+    },
+    onSuccess: (result: { recoveryCodes: string[] }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/2fa"] });
+      setRecoveryCodes(result.recoveryCodes);
+    },
+    onError,
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: async (factor: SecondFactor) => {
+      await apiRequest("POST", "/api/2fa/disable", { ...factor, password: disablePassword });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/2fa"] });
+      setDisablePassword("");
+      toast({
+        title: "Two-factor authentication disabled",
+        description: "You'll only need your password to sign in.",
+      });
+    },
+    onError,
+  });
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      <Header onCartOpen={() => setCartOpen(true)} />
+
+      <div className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8 py-12 space-y-8">
+        <div>
+          <Link href="/account" className="text-sm text-blue-600 hover:text-blue-700">
+            Back to Account
+          </Link>
+          <h1 className="text-3xl font-bold text-slate-800">Security</h1>
+        </div>
+
+        {recoveryCodes && (
+          <RecoveryCodesCard codes={recoveryCodes} onDone={() => setRecoveryCodes(null)} />
+        )}
+
+        {isLoading || !status ? (
+          <div className="flex items-center justify-center min-h-[30vh]">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+          </div>
+        ) : status.enabled ? (
+          <>
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2">
+                  <ShieldCheck className="h-5 w-5 text-green-600" />
+                  <span>Two-factor authentication is on</span>
+                </CardTitle>
+                <CardDescription>
+                  {status.recoveryCodesRemaining} recovery code(s) left. Enter a code from your
+                  authenticator to replace them with a new set.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <TwoFactorCodeForm
+                  onSubmit={(factor) => regenerateMutation.mutate(factor)}
+                  isPending={regenerateMutation.isPending}
+                  submitLabel="Generate New Recovery Codes"
+                />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Turn off two-factor authentication</CardTitle>
+                {status.required && (
+                  <CardDescription>
+                    The store requires two-factor authentication for admin accounts.
+                  </CardDescription>
+                )}
+              </CardHeader>
+              {!status.required && (
+                <CardContent className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="disable-password">Password</Label>
+                    <Input
+                      id="disable-password"
+                      type="password"
+                      value={disablePassword}
+                      onChange={(e) => setDisablePassword(e.target.value)}
+                    />
+                  </div>
+                  <TwoFactorCodeForm
+                    onSubmit={(factor) => disableMutation.mutate(factor)}
+                    isPending={disableMutation.isPending}
+                    submitLabel="Turn Off"
+                    allowRecoveryCode
+                  />
+                </CardContent>
+              )}
+            </Card>
+          </>
+        ) : (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <ShieldOff className="h-5 w-5 text-slate-500" />
+                <span>Two-factor authentication is off</span>
+                {status.required && <Badge variant="destructive">Required</Badge>}
+              </CardTitle>
+              <CardDescription>
+                Protect your account with a code from an authenticator app, such as Google
+                Authenticator or 1Password, in addition to your password.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              {setup ? (
+                <>
+                  <div className="flex flex-col items-center space-y-3">
+                    <QRCodeSVG value={setup.otpauthUri} size={180} />
+                    <p className="text-sm text-slate-600">Can't scan it? Enter this key instead:</p>
+                    <code className="text-sm bg-slate-100 px-2 py-1 rounded break-all">{setup.secret}</code>
+                  </div>
+                  <div className="space-y-2">
+                    <p className="text-sm text-slate-700 text-center">
+                      Enter the 6-digit code your app shows to finish setup
+                    </p>
+                    <TwoFactorCodeForm
+                      onSubmit={(factor) => enableMutation.mutate(factor)}
+                      isPending={enableMutation.isPending}
+                      submitLabel="Turn On"
+                    />
+                  </div>
+                </>
+              ) : (
+                <Button onClick={() => setupMutation.mutate()} disabled={setupMutation.isPending}>
+                  Set Up Two-Factor Authentication
+                </Button>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+
+      {/* Cart Sidebar */}
+      <CartSidebar
+        isOpen={cartOpen}
+        onClose={() => setCartOpen(false)}
+        onCheckoutOpen={() => setCheckoutOpen(true)}
+      />
+
+      {/* Checkout Modal */}
+      <CheckoutModal
+        isOpen={checkoutOpen}
+        onClose={() => setCheckoutOpen(false)}
+      />
+    </div>
+  );
+}
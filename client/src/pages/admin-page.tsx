@@ -1,12 +1,78 @@
 import { useAuth } from "@/hooks/use-auth";
 import { AdminPanel } from "@/components/admin-panel";
-import { Redirect } from "wouter";
-import { Loader2 } from "lucide-react";
+import { Link, Redirect } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Loader2, ShieldAlert } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { TwoFactorCodeForm, type SecondFactor } from "@/components/two-factor-code-form";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { TwoFactorStatus } from "@shared/schema";
+import { isStaffRole } from "@shared/permissions";
+
+// Shown while the store requires 2FA for administrators and this session hasn't
+// passed a second factor yet.
+function TwoFactorGate({ status }: { status: TwoFactorStatus }) {
+  const { toast } = useToast();
+
+  const verifyMutation = useMutation({
+    mutationFn: async (factor: SecondFactor) => {
+      await apiRequest("POST", "/api/2fa/verify", factor);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Verification failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="flex items-center justify-center min-h-screen bg-slate-50 px-4">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <ShieldAlert className="h-5 w-5 text-amber-600" />
+            <span>Two-factor authentication required</span>
+          </CardTitle>
+          <CardDescription>
+            {status.enabled
+              ? "Enter a code from your authenticator app to continue to the admin panel."
+              : "The store requires administrator accounts to use two-factor authentication. Set it up to continue."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {status.enabled ? (
+            <TwoFactorCodeForm
+              onSubmit={(factor) => verifyMutation.mutate(factor)}
+              isPending={verifyMutation.isPending}
+              allowRecoveryCode
+            />
+          ) : (
+            <Link href="/account/security" className="text-blue-600 hover:text-blue-700">
+              Set up two-factor authentication
+            </Link>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
 
 export default function AdminPage() {
   const { user, isLoading } = useAuth();
+  const isStaff = !!user && isStaffRole(user.role);
 
-  if (isLoading) {
+  const { data: twoFactorStatus, isLoading: isTwoFactorLoading } = useQuery<TwoFactorStatus>({
+    queryKey: ["/api/2fa"],
+    enabled: isStaff,
+  });
+
+  if (isLoading || (isStaff && isTwoFactorLoading)) {
     return (
       <div className="flex items-center justify-center min-h-screen">
         <Loader2 className="h-8 w-8 animate-spin text-blue-600" />
@@ -18,7 +84,7 @@ export default function AdminPage() {
     return <Redirect to="/auth" />;
   }
 
-  if (user.role !== "admin") {
+  if (!isStaff) {
     return (
       <div className="flex items-center justify-center min-h-screen bg-slate-50">
         <div className="text-center">
@@ -29,5 +95,9 @@ export default function AdminPage() {
     );
   }
 
-  return <AdminPanel />;
+  if (twoFactorStatus?.required && !twoFactorStatus.verified) {
+    return <TwoFactorGate status={twoFactorStatus} />;
+  }
+
+  return <AdminPanel role={user.role} />;
 }
@@ -2,12 +2,14 @@ import { useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { Redirect } from "wouter";
+import { Link, Redirect } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { TwoFactorCodeForm } from "@/components/two-factor-code-form";
 import { useAuth } from "@/hooks/use-auth";
+import { useStoreSettings } from "@/hooks/use-store-settings";
 
 const loginSchema = z.object({
   username: z.string().min(1, "Username is required"),
@@ -26,7 +28,10 @@ type RegisterFormData = z.infer<typeof registerSchema>;
 
 export default function AuthPage() {
   const [isLogin, setIsLogin] = useState(true);
-  const { user, loginMutation, registerMutation } = useAuth();
+  // Set when the password was accepted but the account also needs a code
+  const [twoFactorPending, setTwoFactorPending] = useState(false);
+  const { user, loginMutation, twoFactorLoginMutation, registerMutation } = useAuth();
+  const { settings, formatMoney } = useStoreSettings();
 
   const loginForm = useForm<LoginFormData>({
     resolver: zodResolver(loginSchema),
@@ -52,7 +57,9 @@ export default function AuthPage() {
   }
 
   const onLoginSubmit = (data: LoginFormData) => {
-    loginMutation.mutate(data);
+    loginMutation.mutate(data, {
+      onSuccess: (result) => setTwoFactorPending("twoFactorRequired" in result),
+    });
   };
 
   const onRegisterSubmit = (data: RegisterFormData) => {
@@ -74,7 +81,7 @@ export default function AuthPage() {
               <div className="w-8 h-8 bg-white bg-opacity-20 rounded-full flex items-center justify-center">
                 <span className="text-sm font-bold">✓</span>
               </div>
-              <span>Free shipping on orders over $50</span>
+              <span>Free shipping on orders over {formatMoney(settings.freeShippingThreshold)}</span>
             </div>
             <div className="flex items-center space-x-3">
               <div className="w-8 h-8 bg-white bg-opacity-20 rounded-full flex items-center justify-center">
@@ -105,7 +112,28 @@ export default function AuthPage() {
               </p>
             </div>
 
-            {isLogin ? (
+            {isLogin && twoFactorPending ? (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Two-factor authentication</CardTitle>
+                  <CardDescription>Enter the 6-digit code from your authenticator app</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <TwoFactorCodeForm
+                    onSubmit={(factor) => twoFactorLoginMutation.mutate(factor)}
+                    isPending={twoFactorLoginMutation.isPending}
+                    allowRecoveryCode
+                  />
+                  <button
+                    type="button"
+                    className="block w-full text-center text-sm text-slate-600 hover:text-slate-800"
+                    onClick={() => setTwoFactorPending(false)}
+                  >
+                    Back to Sign In
+                  </button>
+                </CardContent>
+              </Card>
+            ) : isLogin ? (
               <Card>
                 <CardHeader>
                   <CardTitle>Sign In</CardTitle>
@@ -140,6 +168,11 @@ export default function AuthPage() {
                           </FormItem>
                         )}
                       />
+                      <div className="text-right">
+                        <Link href="/forgot-password" className="text-sm text-blue-600 hover:text-blue-700">
+                          Forgot your password?
+                        </Link>
+                      </div>
                       <Button 
                         type="submit" 
                         className="w-full bg-blue-600 hover:bg-blue-700"
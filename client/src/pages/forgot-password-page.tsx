@@ -0,0 +1,93 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+const forgotPasswordSchema = z.object({
+  email: z.string().email("Invalid email address"),
+});
+
+type ForgotPasswordFormData = z.infer<typeof forgotPasswordSchema>;
+
+export default function ForgotPasswordPage() {
+  const { toast } = useToast();
+  const [sentMessage, setSentMessage] = useState<string | null>(null);
+
+  const form = useForm<ForgotPasswordFormData>({
+    resolver: zodResolver(forgotPasswordSchema),
+    defaultValues: {
+      email: "",
+    },
+  });
+
+  const requestResetMutation = useMutation({
+    mutationFn: async (data: ForgotPasswordFormData) => {
+      const res = await apiRequest("POST", "/api/password-reset", data);
+      return await res.json();
+    },
+    onSuccess: (result: { message: string }) => {
+      setSentMessage(result.message);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="min-h-screen bg-slate-50 flex items-center justify-center py-12 px-4">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle>Forgot your password?</CardTitle>
+          <CardDescription>
+            Enter the email on your account and we'll send you a link to choose a new password.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {sentMessage ? (
+            <p className="text-sm text-slate-700">{sentMessage}</p>
+          ) : (
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit((data) => requestResetMutation.mutate(data))} className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="email"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Email</FormLabel>
+                      <FormControl>
+                        <Input type="email" placeholder="Enter your email" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <Button
+                  type="submit"
+                  className="w-full bg-blue-600 hover:bg-blue-700"
+                  disabled={requestResetMutation.isPending}
+                >
+                  {requestResetMutation.isPending ? "Sending..." : "Send Reset Link"}
+                </Button>
+              </form>
+            </Form>
+          )}
+          <Link href="/auth" className="block text-center text-sm text-blue-600 hover:text-blue-700">
+            Back to Sign In
+          </Link>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
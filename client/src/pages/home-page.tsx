@@ -1,79 +1,72 @@
-import { useState, useEffect } import "react";
-import { useQuery } from "@tanstack/react-query";
-import { Link, useLocation } from "wouter";
+import { useState } from "react";
+import { useQuery, keepPreviousData } from "@tanstack/react-query";
+import { useLocation, useSearch } from "wouter";
 import { Laptop, Shirt, Home, Dumbbell, Book, Gamepad2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { ProductCard } from "@/components/product-card";
+import { CatalogFilterSidebar } from "@/components/catalog-filters";
 import { CartSidebar } from "@/components/cart-sidebar";
 import { CheckoutModal } from "@/components/checkout-modal";
 import { Header } from "@/components/header";
-import { Product, Category } from "@shared/schema";
+import {
+  CATALOG_PAGE_SIZE,
+  catalogApiSearch,
+  catalogFiltersToSearch,
+  parseCatalogFilters,
+  type CatalogFilters,
+} from "@/lib/catalog-filters";
+import { logSearchClick } from "@/lib/search-analytics";
+import { Category, ProductListing, ProductSort } from "@shared/schema";
+
+const SORT_LABELS: Record<ProductSort, string> = {
+  relevance: "Sort by: Relevance",
+  featured: "Sort by: Featured",
+  newest: "Newest",
+  price_asc: "Price: Low to High",
+  price_desc: "Price: High to Low",
+  rating: "Top Rated",
+  best_selling: "Best Selling",
+};
 
 export default function HomePage() {
-  const [location, setLocation] = useLocation();
+  const [, setLocation] = useLocation();
+  const searchString = useSearch();
   const [cartOpen, setCartOpen] = useState(false);
   const [checkoutOpen, setCheckoutOpen] = useState(false);
-  const [currentPage, setCurrentPage] = useState(0);
-  const [sortBy, setSortBy] = useState("featured");
 
-  // Parse query parameters
-  const params = new URLSearchParams(location.split("?")[1] || "");
-  const categoryId = params.get("categoryId");
-  const search = params.get("search");
-  const featured = params.get("featured");
-  const ITEMS_PER_PAGE = 8;
+  // Filters, sort order and page all come from the query string
+  const filters = parseCatalogFilters(searchString);
+  const setFilters = (next: CatalogFilters) => {
+    const search = catalogFiltersToSearch(next);
+    setLocation(search ? `/?${search}` : "/");
+  };
 
   const { data: categories = [] } = useQuery<Category[]>({
     queryKey: ["/api/categories"],
   });
 
-  const { data: allProducts = [] } = useQuery<Product[]>({
-    queryKey: ["/api/products", { categoryId, search, featured, limit: 100 }],
+  const apiSearch = catalogApiSearch(filters);
+  const { data: listing } = useQuery<ProductListing>({
+    queryKey: ["/api/products", apiSearch],
     queryFn: async () => {
-      const url = new URL("/api/products", window.location.origin);
-      url.searchParams.set("limit", "100"); // Get more products for pagination
-      if (categoryId) url.searchParams.set("categoryId", categoryId);
-      if (search) url.searchParams.set("search", search);
-      if (featured) {
-        const res = await fetch("/api/products/featured?limit=100");
-        return res.json();
+      const res = await fetch(`/api/products?${apiSearch}`);
+      if (!res.ok) {
+        throw new Error("Failed to fetch products");
       }
-      const res = await fetch(url.toString());
       return res.json();
     },
+    placeholderData: keepPreviousData,
   });
 
-  const { data: featuredProducts = [] } = useQuery<Product[]>({
-    queryKey: ["/api/products/featured"],
-    enabled: !featured && !search && !categoryId,
-  });
-
-  // Sort products based on selection
-  const sortProducts = (products: Product[]) => {
-    const sorted = [...products];
-    switch (sortBy) {
-      case "price-asc":
-        return sorted.sort((a, b) => parseFloat(a.price) - parseFloat(b.price));
-      case "price-desc":
-        return sorted.sort((a, b) => parseFloat(b.price) - parseFloat(a.price));
-      case "newest":
-        return sorted.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
-      case "best-selling":
-        return sorted.sort((a, b) => (b.reviewCount || 0) - (a.reviewCount || 0));
-      case "featured":
-      default:
-        return sorted.sort((a, b) => (b.isFeatured ? 1 : 0) - (a.isFeatured ? 1 : 0));
-    }
-  };
-
-  const rawProducts = featured || search || categoryId ? allProducts : featuredProducts;
-  const sortedProducts = sortProducts(rawProducts);
-  const totalProducts = sortedProducts.length;
-  const displayedCount = (currentPage + 1) * ITEMS_PER_PAGE;
-  const displayProducts = sortedProducts.slice(0, displayedCount);
-  const hasMore = displayedCount < totalProducts;
+  const products = listing?.products ?? [];
+  const total = listing?.total ?? 0;
+  const pageCount = Math.max(1, Math.ceil(total / CATALOG_PAGE_SIZE));
+  const firstShown = total === 0 ? 0 : (filters.page - 1) * CATALOG_PAGE_SIZE + 1;
+  const lastShown = Math.min(filters.page * CATALOG_PAGE_SIZE, total);
+  const sortOptions = (Object.keys(SORT_LABELS) as ProductSort[]).filter((sort) => sort !== "relevance" || filters.search);
+  const currentCategory = categories.find((category) => category.id === filters.categoryId);
 
   const categoryIcons = {
     electronics: Laptop,
@@ -85,17 +78,16 @@ export default function HomePage() {
   };
 
   const handleCategoryClick = (category: Category) => {
-    setCurrentPage(0); // Reset to first page when changing category
-    setLocation(`/?categoryId=${category.id}`);
+    setFilters({ categoryId: category.id, page: 1 });
   };
 
-  const handleLoadMore = () => {
-    setCurrentPage(prev => prev + 1);
+  const handleSortChange = (value: string) => {
+    setFilters({ ...filters, sort: value as ProductSort, page: 1 });
   };
 
-  const handleSortChange = (value: string) => {
-    setSortBy(value);
-    setCurrentPage(0); // Reset to first page when changing sort
+  const handlePageChange = (page: number) => {
+    setFilters({ ...filters, page });
+    window.scrollTo({ top: 0, behavior: "smooth" });
   };
 
   const handleShopNow = () => {
@@ -103,15 +95,9 @@ export default function HomePage() {
   };
 
   const handleViewDeals = () => {
-    setCurrentPage(0);
-    setLocation("/?featured=true");
+    setFilters({ onSale: true, page: 1 });
   };
 
-  // Reset page when URL parameters change
-  useEffect(() => {
-    setCurrentPage(0);
-  }, [categoryId, search, featured]);
-
   return (
     <div className="min-h-screen bg-slate-50">
       <Header onCartOpen={() => setCartOpen(true)} />
@@ -185,77 +171,90 @@ export default function HomePage() {
       {/* Product Grid */}
       <section className="bg-slate-50 py-12">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
-          <div className="flex items-center justify-between mb-8">
-            <div>
-              <h3 className="text-2xl font-bold text-slate-800">
-                {search ? `Search Results for "${search}"` : 
-                 featured ? "Featured Products" : 
-                 categoryId ? `${categories.find(c => c.id.toString() === categoryId)?.name || "Category"} Products` : "Featured Products"}
-              </h3>
-              {categoryId && (
-                <p className="text-slate-600 mt-1">
-                  Showing products in {categories.find(c => c.id.toString() === categoryId)?.name} category
+          <div className="grid grid-cols-1 lg:grid-cols-4 gap-8">
+            <CatalogFilterSidebar
+              filters={filters}
+              facets={listing?.facets}
+              categories={categories}
+              onChange={setFilters}
+            />
+
+            <div className="lg:col-span-3">
+              <div className="flex items-center justify-between mb-8">
+                <div>
+                  <h3 className="text-2xl font-bold text-slate-800">
+                    {filters.search ? `Search Results for "${filters.search}"` :
+                     filters.featured ? "Featured Products" :
+                     currentCategory ? `${currentCategory.name} Products` : "All Products"}
+                  </h3>
+                  <p className="text-slate-600 mt-1">
+                    {total === 0 ? "No products" : `Showing ${firstShown}–${lastShown} of ${total} products`}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-4">
+                  <Select value={filters.sort ?? (filters.search ? "relevance" : "newest")} onValueChange={handleSortChange}>
+                    <SelectTrigger className="w-48">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {sortOptions.map((sort) => (
+                        <SelectItem key={sort} value={sort}>
+                          {SORT_LABELS[sort]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              {products.length === 0 ? (
+                <div className="text-center py-12">
+                  <p className="text-slate-500 text-lg">No products found.</p>
                   <Button
-                    variant="link"
-                    className="p-0 h-auto ml-2 text-blue-600"
+                    variant="outline"
                     onClick={() => setLocation("/")}
+                    className="mt-4"
                   >
-                    Clear filter
+                    View All Products
                   </Button>
-                </p>
+                </div>
+              ) : (
+                <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-3 gap-6">
+                  {products.map((product) => (
+                    <ProductCard
+                      key={product.id}
+                      product={product}
+                      onOpen={filters.search
+                        ? () => logSearchClick({ query: filters.search!, source: "results", productId: product.id })
+                        : undefined}
+                    />
+                  ))}
+                </div>
               )}
-            </div>
-            <div className="flex items-center space-x-4">
-              <Select value={sortBy} onValueChange={handleSortChange}>
-                <SelectTrigger className="w-48">
-                  <SelectValue />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="featured">Sort by: Featured</SelectItem>
-                  <SelectItem value="price-asc">Price: Low to High</SelectItem>
-                  <SelectItem value="price-desc">Price: High to Low</SelectItem>
-                  <SelectItem value="newest">Newest</SelectItem>
-                  <SelectItem value="best-selling">Best Selling</SelectItem>
-                </SelectContent>
-              </Select>
-            </div>
-          </div>
-
-          {displayProducts.length === 0 ? (
-            <div className="text-center py-12">
-              <p className="text-slate-500 text-lg">No products found.</p>
-            </div>
-          ) : (
-            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
-              {displayProducts.map((product) => (
-                <ProductCard key={product.id} product={product} />
-              ))}
-            </div>
-          )}
-
-          {hasMore && (
-            <div className="text-center mt-12">
-              <Button variant="outline" size="lg" onClick={handleLoadMore}>
-                Load More Products ({displayedCount} of {totalProducts})
-              </Button>
-            </div>
-          )}
 
-          {displayProducts.length === 0 && (
-            <div className="text-center py-12">
-              <p className="text-slate-500 text-lg">No products found.</p>
-              <Button 
-                variant="outline" 
-                onClick={() => {
-                  setCurrentPage(0);
-                  setLocation("/");
-                }} 
-                className="mt-4"
-              >
-                View All Products
-              </Button>
+              {pageCount > 1 && (
+                <div className="flex items-center justify-center space-x-4 mt-12">
+                  <Button
+                    variant="outline"
+                    disabled={filters.page <= 1}
+                    onClick={() => handlePageChange(filters.page - 1)}
+                  >
+                    Previous
+                  </Button>
+                  <span className="text-slate-600">
+                    Page {filters.page} of {pageCount}
+                  </span>
+                  <Button
+                    variant="outline"
+                    disabled={filters.page >= pageCount}
+                    onClick={() => handlePageChange(filters.page + 1)}
+                  >
+                    Next
+                  </Button>
+                </div>
+              )}
             </div>
-          )}
+          </div>
         </div>
       </section>
 
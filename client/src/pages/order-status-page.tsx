@@ -0,0 +1,211 @@
+import { useState } from "react";
+import { useParams, useLocation } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Package } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Header } from "@/components/header";
+import { CartSidebar } from "@/components/cart-sidebar";
+import { CheckoutModal } from "@/components/checkout-modal";
+import { OrderItemsCard, type OrderWithItems } from "@/components/order-summary";
+import { OrderStatusBadge, OrderTimeline, type TimelineEvent } from "@/components/order-timeline";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { PublicUser } from "@shared/schema";
+
+type OrderWithTimeline = OrderWithItems & { statusEvents: TimelineEvent[] };
+
+const accountSchema = z.object({
+  username: z.string().min(3, "Username must be at least 3 characters"),
+  password: z.string().min(6, "Password must be at least 6 characters"),
+  fullName: z.string().min(1, "Full name is required"),
+});
+
+type AccountFormData = z.infer<typeof accountSchema>;
+
+function CreateAccountForm({ token, email }: { token: string; email: string }) {
+  const { toast } = useToast();
+
+  const form = useForm<AccountFormData>({
+    resolver: zodResolver(accountSchema),
+    defaultValues: {
+      username: "",
+      password: "",
+      fullName: "",
+    },
+  });
+
+  const createAccountMutation = useMutation({
+    mutationFn: async (data: AccountFormData) => {
+      const res = await apiRequest("POST", `/api/orders/lookup/${token}/account`, data);
+      return await res.json();
+    },
+    onSuccess: (user: PublicUser) => {
+      queryClient.setQueryData(["/api/user"], user);
+      queryClient.invalidateQueries({ queryKey: ["/api/orders/lookup", token] });
+      queryClient.invalidateQueries({ queryKey: ["/api/cart"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/cart/quote"] });
+      toast({
+        title: "Account created!",
+        description: "This order has been saved to your new account. Check your inbox to verify your email.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not create account",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Create an account</CardTitle>
+        <CardDescription>
+          Keep track of this order and check out faster next time. Your account will use {email}.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((data) => createAccountMutation.mutate(data))} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="fullName"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Full Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="John Doe" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="username"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Username</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Choose a username" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="password"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Password</FormLabel>
+                  <FormControl>
+                    <Input type="password" placeholder="Create a password" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <Button
+              type="submit"
+              className="w-full bg-blue-600 hover:bg-blue-700"
+              disabled={createAccountMutation.isPending}
+            >
+              {createAccountMutation.isPending ? "Creating account..." : "Create Account"}
+            </Button>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function OrderStatusPage() {
+  const { token } = useParams<{ token: string }>();
+  const [, setLocation] = useLocation();
+  const [cartOpen, setCartOpen] = useState(false);
+  const [checkoutOpen, setCheckoutOpen] = useState(false);
+  const { user } = useAuth();
+
+  const { data: order, isLoading } = useQuery<OrderWithTimeline>({
+    queryKey: ["/api/orders/lookup", token],
+    queryFn: async () => {
+      const res = await fetch(`/api/orders/lookup/${token}`);
+      if (!res.ok) {
+        throw new Error("Order not found");
+      }
+      return res.json();
+    },
+  });
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      <Header onCartOpen={() => setCartOpen(true)} />
+
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+        {isLoading ? (
+          <div className="flex items-center justify-center min-h-[30vh]">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+          </div>
+        ) : !order ? (
+          <Card className="text-center p-12">
+            <Package className="h-12 w-12 text-slate-300 mx-auto mb-4" />
+            <h2 className="text-xl font-semibold text-slate-800 mb-2">Order not found</h2>
+            <p className="text-slate-600 mb-6">Please check the link from your order confirmation.</p>
+            <Button onClick={() => setLocation("/")}>Back to Home</Button>
+          </Card>
+        ) : (
+          <div className="space-y-8">
+            <div className="flex items-center justify-between">
+              <div>
+                <h1 className="text-3xl font-bold text-slate-800">Order #{order.id}</h1>
+                <p className="text-slate-600 mt-1">
+                  Placed on {new Date(order.createdAt).toLocaleDateString()}
+                  {order.contactEmail && ` • Updates go to ${order.contactEmail}`}
+                </p>
+              </div>
+              <OrderStatusBadge status={order.status} />
+            </div>
+
+            <OrderItemsCard order={order} />
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Order History</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <OrderTimeline events={order.statusEvents} />
+              </CardContent>
+            </Card>
+
+            {!user && order.userId === null && order.contactEmail && (
+              <CreateAccountForm token={token} email={order.contactEmail} />
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Cart Sidebar */}
+      <CartSidebar
+        isOpen={cartOpen}
+        onClose={() => setCartOpen(false)}
+        onCheckoutOpen={() => setCheckoutOpen(true)}
+      />
+
+      {/* Checkout Modal */}
+      <CheckoutModal
+        isOpen={checkoutOpen}
+        onClose={() => setCheckoutOpen(false)}
+      />
+    </div>
+  );
+}
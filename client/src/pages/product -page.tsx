@@ -8,8 +8,11 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Header } from "@/components/header";
 import { CartSidebar } from "@/components/cart-sidebar";
 import { CheckoutModal } from "@/components/checkout-modal";
+import { ProductReviews } from "@/components/product-reviews";
 import { useCart } from "@/hooks/use-cart";
 import { useAuth } from "@/hooks/use-auth";
+import { useWishlist } from "@/hooks/use-wishlist";
+import { useStoreSettings } from "@/hooks/use-store-settings";
 import { Product } from "@shared/schema";
 
 export default function ProductPage() {
@@ -18,10 +21,11 @@ export default function ProductPage() {
   const [quantity, setQuantity] = useState(1);
   const [cartOpen, setCartOpen] = useState(false);
   const [checkoutOpen, setCheckoutOpen] = useState(false);
-  const [isWishlisted, setIsWishlisted] = useState(false);
   
   const { addToCart } = useCart();
   const { user } = useAuth();
+  const { isWishlisted, toggleWishlist } = useWishlist();
+  const { settings, formatMoney, formatPrice } = useStoreSettings();
 
   const { data: product, isLoading, error } = useQuery<Product>({
     queryKey: ["/api/products", id],
@@ -65,10 +69,6 @@ export default function ProductPage() {
     : 0;
 
   const handleAddToCart = async () => {
-    if (!user) {
-      setLocation("/auth");
-      return;
-    }
     await addToCart(product.id, quantity);
   };
 
@@ -153,11 +153,11 @@ export default function ProductPage() {
               {/* Price */}
               <div className="flex items-center space-x-4 mb-6">
                 <span className="text-4xl font-bold text-slate-800">
-                  ${product.price}
+                  {formatPrice(product.price)}
                 </span>
                 {product.originalPrice && (
                   <span className="text-2xl text-slate-500 line-through">
-                    ${product.originalPrice}
+                    {formatPrice(product.originalPrice)}
                   </span>
                 )}
               </div>
@@ -243,14 +243,14 @@ export default function ProductPage() {
                 size="lg"
                 variant="ghost"
                 className="w-full text-lg py-6 border border-slate-300"
-                onClick={() => setIsWishlisted(!isWishlisted)}
+                onClick={() => toggleWishlist(product.id)}
               >
                 <Heart
                   className={`h-5 w-5 mr-2 ${
-                    isWishlisted ? "fill-red-500 text-red-500" : ""
+                    isWishlisted(product.id) ? "fill-red-500 text-red-500" : ""
                   }`}
                 />
-                {isWishlisted ? "Remove from Wishlist" : "Add to Wishlist"}
+                {isWishlisted(product.id) ? "Remove from Wishlist" : "Add to Wishlist"}
               </Button>
             </div>
 
@@ -260,7 +260,9 @@ export default function ProductPage() {
               <div className="grid grid-cols-2 gap-4 text-sm">
                 <div className="flex items-center space-x-2">
                   <div className="w-2 h-2 bg-blue-600 rounded-full"></div>
-                  <span className="text-slate-600">Free shipping</span>
+                  <span className="text-slate-600">
+                    Free shipping over {formatMoney(settings.freeShippingThreshold)}
+                  </span>
                 </div>
                 <div className="flex items-center space-x-2">
                   <div className="w-2 h-2 bg-blue-600 rounded-full"></div>
@@ -278,6 +280,8 @@ export default function ProductPage() {
             </div>
           </div>
         </div>
+
+        <ProductReviews product={product} />
       </div>
 
       {/* Cart Sidebar */}
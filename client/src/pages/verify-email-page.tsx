@@ -0,0 +1,64 @@
+import { useEffect } from "react";
+import { Link, useSearch } from "wouter";
+import { useMutation } from "@tanstack/react-query";
+import { CheckCircle, XCircle } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+type VerificationResult = { email: string; claimedOrders: number };
+
+export default function VerifyEmailPage() {
+  const token = new URLSearchParams(useSearch()).get("token") ?? "";
+
+  const verifyEmailMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/email-verification/confirm", { token });
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+    },
+  });
+
+  // Tokens are single-use, so the link is confirmed exactly once per visit
+  useEffect(() => {
+    if (token) verifyEmailMutation.mutate();
+  }, [token]);
+
+  const result = verifyEmailMutation.data as VerificationResult | undefined;
+
+  return (
+    <div className="min-h-screen bg-slate-50 flex items-center justify-center py-12 px-4">
+      <Card className="w-full max-w-md text-center">
+        <CardContent className="p-8 space-y-4">
+          {result ? (
+            <>
+              <CheckCircle className="h-12 w-12 text-green-600 mx-auto" />
+              <h1 className="text-xl font-semibold text-slate-800">Email verified</h1>
+              <p className="text-slate-600">
+                {result.email} is confirmed.
+                {result.claimedOrders > 0 &&
+                  ` ${result.claimedOrders} guest order(s) placed with it are now in your account.`}
+              </p>
+              <Link href="/account" className="text-blue-600 hover:text-blue-700">
+                Go to My Account
+              </Link>
+            </>
+          ) : verifyEmailMutation.isError || !token ? (
+            <>
+              <XCircle className="h-12 w-12 text-red-500 mx-auto" />
+              <h1 className="text-xl font-semibold text-slate-800">Verification failed</h1>
+              <p className="text-slate-600">This link is invalid, has expired or was already used.</p>
+              <Link href="/account" className="text-blue-600 hover:text-blue-700">
+                Request a new link from My Account
+              </Link>
+            </>
+          ) : (
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto"></div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+import { useState } from "react";
+import { Link, useLocation } from "wouter";
+import { Heart, ShoppingCart, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { Header } from "@/components/header";
+import { CartSidebar } from "@/components/cart-sidebar";
+import { CheckoutModal } from "@/components/checkout-modal";
+import { useWishlist } from "@/hooks/use-wishlist";
+import { useStoreSettings } from "@/hooks/use-store-settings";
+
+export default function WishlistPage() {
+  const [, setLocation] = useLocation();
+  const [cartOpen, setCartOpen] = useState(false);
+  const [checkoutOpen, setCheckoutOpen] = useState(false);
+  const { wishlistItems, isLoading, removeFromWishlist, moveToCart } = useWishlist();
+  const { formatPrice } = useStoreSettings();
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      <Header onCartOpen={() => setCartOpen(true)} />
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+        <h1 className="text-3xl font-bold text-slate-800 mb-8">My Wishlist</h1>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center min-h-[30vh]">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+          </div>
+        ) : wishlistItems.length === 0 ? (
+          <Card className="text-center p-12">
+            <Heart className="h-12 w-12 text-slate-300 mx-auto mb-4" />
+            <h2 className="text-xl font-semibold text-slate-800 mb-2">Your wishlist is empty</h2>
+            <p className="text-slate-600 mb-6">Tap the heart on any product to save it for later.</p>
+            <Button onClick={() => setLocation("/")}>Browse Products</Button>
+          </Card>
+        ) : (
+          <div className="space-y-4">
+            {wishlistItems.map((item) => (
+              <Card key={item.id}>
+                <CardContent className="p-6 flex items-center space-x-6">
+                  <Link href={`/products/${item.product.id}`}>
+                    <img
+                      src={item.product.imageUrl}
+                      alt={item.product.name}
+                      className="w-24 h-24 object-cover rounded-lg cursor-pointer"
+                    />
+                  </Link>
+                  <div className="flex-1">
+                    <Link href={`/products/${item.product.id}`}>
+                      <h3 className="font-semibold text-slate-800 hover:text-blue-600 cursor-pointer">
+                        {item.product.name}
+                      </h3>
+                    </Link>
+                    <p className="text-lg font-bold text-slate-800 mt-1">
+                      {formatPrice(item.product.price)}
+                    </p>
+                    {item.product.stock > 0 && item.product.isActive ? (
+                      <Badge variant="outline" className="text-green-600 border-green-600 mt-2">
+                        In Stock
+                      </Badge>
+                    ) : (
+                      <Badge variant="destructive" className="mt-2">
+                        Unavailable
+                      </Badge>
+                    )}
+                  </div>
+                  <div className="flex flex-col space-y-2">
+                    <Button
+                      className="bg-blue-600 hover:bg-blue-700"
+                      disabled={item.product.stock === 0 || !item.product.isActive}
+                      onClick={() => moveToCart(item.productId)}
+                    >
+                      <ShoppingCart className="h-4 w-4 mr-2" />
+                      Move to Cart
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      className="text-red-500 hover:text-red-700"
+                      onClick={() => removeFromWishlist(item.productId)}
+                    >
+                      <Trash2 className="h-4 w-4 mr-2" />
+                      Remove
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Cart Sidebar */}
+      <CartSidebar
+        isOpen={cartOpen}
+        onClose={() => setCartOpen(false)}
+        onCheckoutOpen={() => setCheckoutOpen(true)}
+      />
+
+      {/* Checkout Modal */}
+      <CheckoutModal
+        isOpen={checkoutOpen}
+        onClose={() => setCheckoutOpen(false)}
+      />
+    </div>
+  );
+}
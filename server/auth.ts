@@ -1,11 +1,25 @@
 import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
-import { Express } from "express";
+import { Express, Request } from "express";
 import session from "express-session";
-import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { scrypt, randomBytes, timingSafeEqual, createHash } from "crypto";
 import { promisify } from "util";
 import { storage } from "./storage";
-import { User as SelectUser } from "@shared/schema";
+import { getMailer, passwordResetEmail, emailVerificationEmail } from "./mailer";
+import { getStoreSettings } from "./settings";
+import { toPublicUser } from "./serializers";
+import { logError } from "./logger";
+import { generateTotpSecret, verifyTotp, totpUri, generateRecoveryCodes, hashRecoveryCode } from "./totp";
+import {
+  rateLimit,
+  byIp,
+  byUsername,
+  getLoginLockout,
+  recordLoginFailure,
+  clearLoginFailures,
+  sendLockedOut,
+} from "./rate-limit";
+import { User as SelectUser, UserTokenPurpose, TwoFactorCredential, TwoFactorStatus } from "@shared/schema";
 import { z } from "zod";
 
 declare global {
@@ -14,9 +28,24 @@ declare global {
   }
 }
 
+declare module "express-session" {
+  interface SessionData {
+    hasGuestCart?: boolean;
+    // Set once the password is checked for an account with 2FA. The login is
+    // only completed by POST /api/login/2fa.
+    pendingTwoFactor?: { userId: number; expiresAt: number; attempts: number };
+    // Set once this session has passed a second factor
+    twoFactorVerified?: boolean;
+    // Recorded at sign-in for the admin user detail's session list
+    signedInAt?: number;
+    ip?: string;
+    userAgent?: string;
+  }
+}
+
 const scryptAsync = promisify(scrypt);
 
-async function hashPassword(password: string) {
+export async function hashPassword(password: string) {
   const salt = randomBytes(16).toString("hex");
   const buf = (await scryptAsync(password, salt, 64)) as Buffer;
   return `${buf.toString("hex")}.${salt}`;
@@ -29,7 +58,7 @@ async function comparePasswords(supplied: string, stored: string) {
   return timingSafeEqual(hashedBuf, suppliedBuf);
 }
 
-const registerSchema = z.object({
+export const registerSchema = z.object({
   username: z.string().min(3).max(50),
   email: z.string().email(),
   password: z.string().min(6),
@@ -41,6 +70,117 @@ const loginSchema = z.object({
   password: z.string(),
 });
 
+// The email comes from the guest order being claimed
+const orderAccountSchema = registerSchema.omit({ email: true });
+
+const passwordResetRequestSchema = z.object({
+  email: z.string().email(),
+});
+
+const passwordResetSchema = z.object({
+  token: z.string().min(1),
+  password: registerSchema.shape.password,
+});
+
+const emailVerificationSchema = z.object({
+  token: z.string().min(1),
+});
+
+const secondFactorFields = z.object({
+  code: z.string().optional(),
+  recoveryCode: z.string().optional(),
+});
+const hasSecondFactor = (factor: z.infer<typeof secondFactorFields>) => !!(factor.code || factor.recoveryCode);
+const secondFactorMessage = { message: "Enter an authentication code or a recovery code" };
+
+const secondFactorSchema = secondFactorFields.refine(hasSecondFactor, secondFactorMessage);
+
+const totpCodeSchema = z.object({
+  code: z.string().min(1),
+});
+
+const disableTwoFactorSchema = secondFactorFields
+  .extend({ password: z.string().min(1) })
+  .refine(hasSecondFactor, secondFactorMessage);
+
+const PENDING_TWO_FACTOR_TTL_MS = 5 * 60 * 1000;
+const MAX_TWO_FACTOR_ATTEMPTS = 5;
+
+const PASSWORD_RESET_TTL_MINUTES = 60;
+
+const ACCOUNT_DISABLED_MESSAGE = "This account has been disabled. Please contact support.";
+
+// Every auth endpoint shares one limit per IP, and per account where the body
+// names one (sign-in, registration, password reset)
+const authRateLimit = rateLimit("auth", [byIp, byUsername]);
+const EMAIL_VERIFICATION_TTL_MINUTES = 48 * 60;
+const INVALID_TOKEN_MESSAGE = "This link is invalid or has expired";
+
+function hashToken(token: string) {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+// Returns the raw token for the email link; only its hash is stored
+async function issueUserToken(user: SelectUser, purpose: UserTokenPurpose, ttlMinutes: number) {
+  const token = randomBytes(32).toString("base64url");
+  await storage.createUserToken({
+    userId: user.id,
+    purpose,
+    tokenHash: hashToken(token),
+    email: user.email,
+    expiresAt: new Date(Date.now() + ttlMinutes * 60 * 1000),
+  });
+  return token;
+}
+
+// Accepts a TOTP code newer than the last one used, or an unused recovery
+// code, which is then spent.
+async function verifySecondFactor(credential: TwoFactorCredential, factor: z.infer<typeof secondFactorFields>) {
+  if (factor.code) {
+    const step = verifyTotp(credential.secret, factor.code, credential.lastUsedStep);
+    return step !== null && await storage.recordTotpStep(credential.userId, step);
+  }
+  if (factor.recoveryCode) {
+    return await storage.consumeRecoveryCode(credential.userId, hashRecoveryCode(factor.recoveryCode));
+  }
+  return false;
+}
+
+// The store policy can make 2FA mandatory for administrator accounts
+export async function isTwoFactorRequired(user: SelectUser) {
+  return user.role === "admin" && (await getStoreSettings()).requireAdminTwoFactor;
+}
+
+// A failed delivery never fails the request that triggered it; the user can
+// ask for another email.
+async function sendVerificationEmail(user: SelectUser) {
+  try {
+    const token = await issueUserToken(user, "email_verification", EMAIL_VERIFICATION_TTL_MINUTES);
+    await getMailer().send(emailVerificationEmail(user.email, user.fullName, token));
+  } catch (error) {
+    logError(`Failed to send verification email to user ${user.id}`, "auth", error);
+  }
+}
+
+// req.login regenerates the session, so the guest cart is looked up by the
+// old session id before logging in and merged into the account afterwards.
+async function loginWithGuestCart(req: Request, user: SelectUser) {
+  const guestSessionId = req.session.hasGuestCart ? req.sessionID : undefined;
+  await new Promise<void>((resolve, reject) =>
+    req.login(user, (err) => (err ? reject(err) : resolve()))
+  );
+  req.session.signedInAt = Date.now();
+  req.session.ip = req.ip;
+  req.session.userAgent = req.get("user-agent");
+  if (guestSessionId) await storage.mergeGuestCart(guestSessionId, user.id);
+}
+
+// Also used by staff from the admin user detail
+export async function sendPasswordResetEmail(user: SelectUser) {
+  const token = await issueUserToken(user, "password_reset", PASSWORD_RESET_TTL_MINUTES);
+  await getMailer().send(passwordResetEmail(user.email, user.fullName, token, PASSWORD_RESET_TTL_MINUTES));
+}
+
 export function setupAuth(app: Express) {
   const sessionSettings: session.SessionOptions = {
     secret: process.env.SESSION_SECRET || "your-secret-key-here",
@@ -65,6 +205,9 @@ export function setupAuth(app: Express) {
         const user = await storage.getUserByUsername(username);
         if (!user || !(await comparePasswords(password, user.password))) {
           return done(null, false);
+        } else if (user.disabledAt) {
+          // Only revealed to someone who knows the password
+          return done(null, false, { message: ACCOUNT_DISABLED_MESSAGE });
         } else {
           return done(null, user);
         }
@@ -78,13 +221,14 @@ export function setupAuth(app: Express) {
   passport.deserializeUser(async (id: number, done) => {
     try {
       const user = await storage.getUser(id);
-      done(null, user);
+      // Disabling an account ends its sessions on their next request
+      done(null, user && !user.disabledAt ? user : false);
     } catch (error) {
       done(error);
     }
   });
 
-  app.post("/api/register", async (req, res, next) => {
+  app.post("/api/register", authRateLimit, async (req, res, next) => {
     try {
       const validatedData = registerSchema.parse(req.body);
       
@@ -103,11 +247,10 @@ export function setupAuth(app: Express) {
         ...validatedData,
         password: await hashPassword(validatedData.password),
       });
+      await sendVerificationEmail(user);
 
-      req.login(user, (err) => {
-        if (err) return next(err);
-        res.status(201).json(user);
-      });
+      await loginWithGuestCart(req, user);
+      res.status(201).json(toPublicUser(user));
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Validation error", errors: error.errors });
@@ -116,26 +259,358 @@ export function setupAuth(app: Express) {
     }
   });
 
-  app.post("/api/login", (req, res, next) => {
+  app.post("/api/login", authRateLimit, async (req, res, next) => {
+    let credentials: z.infer<typeof loginSchema>;
     try {
-      loginSchema.parse(req.body);
+      credentials = loginSchema.parse(req.body);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Validation error", errors: error.errors });
       }
+      return next(error);
+    }
+
+    try {
+      const lockedUntil = await getLoginLockout(req, credentials.username);
+      if (lockedUntil) return sendLockedOut(res, lockedUntil);
+    } catch (error) {
+      return next(error);
     }
     
-    passport.authenticate("local", (err: any, user: any) => {
+    passport.authenticate("local", async (err: any, user: any, info?: { message?: string }) => {
       if (err) return next(err);
-      if (!user) return res.status(401).json({ message: "Invalid credentials" });
       
-      req.login(user, (err) => {
-        if (err) return next(err);
-        res.status(200).json(user);
-      });
+      try {
+        if (info?.message === ACCOUNT_DISABLED_MESSAGE) {
+          return res.status(403).json({ message: ACCOUNT_DISABLED_MESSAGE });
+        }
+        if (!user) {
+          await recordLoginFailure(req, credentials.username);
+          return res.status(401).json({ message: "Invalid credentials" });
+        }
+
+        const credential = await storage.getTwoFactorCredential(user.id);
+        if (credential?.enabledAt) {
+          req.session.pendingTwoFactor = {
+            userId: user.id,
+            expiresAt: Date.now() + PENDING_TWO_FACTOR_TTL_MS,
+            attempts: 0,
+          };
+          return res.status(200).json({ twoFactorRequired: true });
+        }
+
+        await clearLoginFailures(credentials.username);
+        await loginWithGuestCart(req, user);
+        res.status(200).json(toPublicUser(user));
+      } catch (error) {
+        next(error);
+      }
     })(req, res, next);
   });
 
+  // Second login step for accounts with 2FA, after the password was accepted
+  app.post("/api/login/2fa", authRateLimit, async (req, res, next) => {
+    try {
+      const factor = secondFactorSchema.parse(req.body);
+
+      const pending = req.session.pendingTwoFactor;
+      if (!pending || pending.expiresAt < Date.now()) {
+        delete req.session.pendingTwoFactor;
+        return res.status(401).json({ message: "Your sign-in has expired, please enter your password again" });
+      }
+
+      const user = await storage.getUser(pending.userId);
+      const credential = await storage.getTwoFactorCredential(pending.userId);
+      if (!user || user.disabledAt || !credential?.enabledAt) {
+        delete req.session.pendingTwoFactor;
+        return res.status(401).json({ message: "Your sign-in has expired, please enter your password again" });
+      }
+
+      // Wrong codes count towards the same lockout as wrong passwords
+      const lockedUntil = await getLoginLockout(req, user.username);
+      if (lockedUntil) return sendLockedOut(res, lockedUntil);
+
+      if (!(await verifySecondFactor(credential, factor))) {
+        await recordLoginFailure(req, user.username);
+        pending.attempts += 1;
+        if (pending.attempts >= MAX_TWO_FACTOR_ATTEMPTS) {
+          delete req.session.pendingTwoFactor;
+          return res.status(401).json({ message: "Too many incorrect codes, please sign in again" });
+        }
+        return res.status(401).json({ message: "Invalid authentication code" });
+      }
+
+      await clearLoginFailures(user.username);
+      await loginWithGuestCart(req, user);
+      req.session.twoFactorVerified = true;
+      res.status(200).json(toPublicUser(user));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      next(error);
+    }
+  });
+
+  // Turns a guest order into an account. Holding the lookup token proves the
+  // visitor placed this order, so only this order is claimed here; other guest
+  // orders placed with the same email are claimed once that email is verified.
+  app.post("/api/orders/lookup/:token/account", authRateLimit, async (req, res, next) => {
+    try {
+      const validatedData = orderAccountSchema.parse(req.body);
+
+      const order = await storage.getOrderByLookupToken(req.params.token);
+      if (!order || !order.contactEmail) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+      if (order.userId !== null) {
+        return res.status(409).json({ message: "This order already belongs to an account" });
+      }
+
+      const existingUser = await storage.getUserByUsername(validatedData.username);
+      if (existingUser) {
+        return res.status(400).json({ message: "Username already exists" });
+      }
+
+      const existingEmail = await storage.getUserByEmail(order.contactEmail);
+      if (existingEmail) {
+        return res.status(400).json({ message: "An account with this email already exists, please sign in" });
+      }
+
+      const user = await storage.createUser({
+        ...validatedData,
+        email: order.contactEmail,
+        password: await hashPassword(validatedData.password),
+      });
+      await storage.claimGuestOrder(order.id, user.id);
+      await sendVerificationEmail(user);
+
+      await loginWithGuestCart(req, user);
+      res.status(201).json(toPublicUser(user));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      next(error);
+    }
+  });
+
+  // Always answers the same way so the endpoint can't be used to find out
+  // which emails have accounts.
+  app.post("/api/password-reset", authRateLimit, async (req, res, next) => {
+    try {
+      const { email } = passwordResetRequestSchema.parse(req.body);
+
+      const user = await storage.getUserByEmail(email);
+      if (user) {
+        try {
+          await sendPasswordResetEmail(user);
+        } catch (error) {
+          logError(`Failed to send password reset email to user ${user.id}`, "auth", error);
+        }
+      }
+
+      res.json({ message: "If an account exists for this email, we've sent a link to reset the password" });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      next(error);
+    }
+  });
+
+  app.post("/api/password-reset/confirm", authRateLimit, async (req, res, next) => {
+    try {
+      const { token, password } = passwordResetSchema.parse(req.body);
+
+      const userToken = await storage.consumeUserToken(hashToken(token), "password_reset");
+      const user = userToken && await storage.getUser(userToken.userId);
+      // A link sent to a previous email address no longer proves ownership
+      if (!userToken || !user || user.email !== userToken.email) {
+        return res.status(400).json({ message: INVALID_TOKEN_MESSAGE });
+      }
+
+      await storage.updateUserPassword(user.id, await hashPassword(password));
+      res.json({ message: "Your password has been reset" });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      next(error);
+    }
+  });
+
+  app.post("/api/email-verification", authRateLimit, async (req, res, next) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      if (req.user.emailVerifiedAt) {
+        return res.status(409).json({ message: "Your email is already verified" });
+      }
+      await sendVerificationEmail(req.user);
+      res.json({ message: `We've sent a verification link to ${req.user.email}` });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Works without a session so the link can be opened on any device. Once the
+  // email is proven, guest orders placed with it are moved into the account.
+  app.post("/api/email-verification/confirm", authRateLimit, async (req, res, next) => {
+    try {
+      const { token } = emailVerificationSchema.parse(req.body);
+
+      const userToken = await storage.consumeUserToken(hashToken(token), "email_verification");
+      const user = userToken && await storage.markEmailVerified(userToken.userId, userToken.email);
+      if (!user) {
+        return res.status(400).json({ message: INVALID_TOKEN_MESSAGE });
+      }
+
+      const claimedOrders = await storage.claimGuestOrders(user.id, user.email);
+      res.json({ email: user.email, claimedOrders });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      next(error);
+    }
+  });
+
+  // Two-factor management for the signed-in user
+  app.get("/api/2fa", async (req, res, next) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      const credential = await storage.getTwoFactorCredential(req.user.id);
+      const status: TwoFactorStatus = {
+        enabled: !!credential?.enabledAt,
+        recoveryCodesRemaining: credential?.enabledAt ? credential.recoveryCodeHashes.length : 0,
+        required: await isTwoFactorRequired(req.user),
+        verified: !!req.session.twoFactorVerified,
+      };
+      res.json(status);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Starts (or restarts) enrollment. The secret is only active once a code
+  // generated from it is confirmed through /api/2fa/enable.
+  app.post("/api/2fa/setup", authRateLimit, async (req, res, next) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      const existing = await storage.getTwoFactorCredential(req.user.id);
+      if (existing?.enabledAt) {
+        return res.status(409).json({ message: "Two-factor authentication is already enabled" });
+      }
+
+      const secret = generateTotpSecret();
+      await storage.startTwoFactorEnrollment(req.user.id, secret);
+      res.json({ secret, otpauthUri: totpUri(secret, req.user.email) });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Recovery codes are only ever shown in this response and when regenerated
+  app.post("/api/2fa/enable", authRateLimit, async (req, res, next) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      const { code } = totpCodeSchema.parse(req.body);
+
+      const credential = await storage.getTwoFactorCredential(req.user.id);
+      if (!credential || credential.enabledAt) {
+        return res.status(409).json({ message: "Start two-factor setup first" });
+      }
+      if (!(await verifySecondFactor(credential, { code }))) {
+        return res.status(400).json({ message: "Invalid authentication code" });
+      }
+
+      const recoveryCodes = generateRecoveryCodes();
+      await storage.enableTwoFactor(req.user.id, recoveryCodes.map(hashRecoveryCode));
+      req.session.twoFactorVerified = true;
+      res.json({ recoveryCodes });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      next(error);
+    }
+  });
+
+  // Step-up for a session that signed in before the admin policy applied
+  app.post("/api/2fa/verify", authRateLimit, async (req, res, next) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      const factor = secondFactorSchema.parse(req.body);
+
+      const credential = await storage.getTwoFactorCredential(req.user.id);
+      if (!credential?.enabledAt) {
+        return res.status(409).json({ message: "Two-factor authentication is not enabled" });
+      }
+      if (!(await verifySecondFactor(credential, factor))) {
+        return res.status(401).json({ message: "Invalid authentication code" });
+      }
+
+      req.session.twoFactorVerified = true;
+      res.sendStatus(204);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      next(error);
+    }
+  });
+
+  app.post("/api/2fa/recovery-codes", authRateLimit, async (req, res, next) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      const { code } = totpCodeSchema.parse(req.body);
+
+      const credential = await storage.getTwoFactorCredential(req.user.id);
+      if (!credential?.enabledAt) {
+        return res.status(409).json({ message: "Two-factor authentication is not enabled" });
+      }
+      if (!(await verifySecondFactor(credential, { code }))) {
+        return res.status(401).json({ message: "Invalid authentication code" });
+      }
+
+      const recoveryCodes = generateRecoveryCodes();
+      await storage.replaceRecoveryCodes(req.user.id, recoveryCodes.map(hashRecoveryCode));
+      res.json({ recoveryCodes });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      next(error);
+    }
+  });
+
+  app.post("/api/2fa/disable", authRateLimit, async (req, res, next) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      const { password, ...factor } = disableTwoFactorSchema.parse(req.body);
+
+      if (await isTwoFactorRequired(req.user)) {
+        return res.status(409).json({ message: "Two-factor authentication is required for admin accounts" });
+      }
+      const credential = await storage.getTwoFactorCredential(req.user.id);
+      if (!credential?.enabledAt) {
+        return res.status(409).json({ message: "Two-factor authentication is not enabled" });
+      }
+      if (!(await comparePasswords(password, req.user.password)) || !(await verifySecondFactor(credential, factor))) {
+        return res.status(401).json({ message: "Invalid password or authentication code" });
+      }
+
+      await storage.deleteTwoFactorCredential(req.user.id);
+      delete req.session.twoFactorVerified;
+      res.sendStatus(204);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      next(error);
+    }
+  });
+
   app.post("/api/logout", (req, res, next) => {
     req.logout((err) => {
       if (err) return next(err);
@@ -145,6 +620,6 @@ export function setupAuth(app: Express) {
 
   app.get("/api/user", (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
-    res.json(req.user);
+    res.json(toPublicUser(req.user));
   });
 }
@@ -0,0 +1,201 @@
+import { parseArgs } from "util";
+import { randomBytes } from "crypto";
+import { z } from "zod";
+import { USER_ROLES, type UserRole } from "@shared/permissions";
+import type { User } from "@shared/schema";
+import { storage } from "./storage";
+import { pool, isDatabaseConfigured } from "./db";
+import { hashPassword, registerSchema } from "./auth";
+import { seedDemoCatalog } from "./seed";
+
+// Management CLI for bootstrapping and maintenance, run with
+// `npm run cli -- <command> [options]`. It works on the same storage as the
+// server, so DATABASE_URL must point at the store's database.
+
+const USAGE = `Usage: npm run cli -- <command> [options]
+
+Commands:
+  create-admin --username <name> --email <email> --name <full name> [--password <password>] [--role <role>]
+      Creates an account with the admin role (or --role). Without --password
+      a random one is generated and printed.
+  promote <username|email> [--role <role>]
+      Gives an existing account the admin role (or --role).
+  reset-password <username|email> [--password <password>] [--disable-2fa]
+      Sets a new password, generated when --password is omitted. --disable-2fa
+      also removes two-factor authentication, for a lost authenticator.
+  seed
+      Adds the demo categories and products that don't exist yet.
+  recompute-ratings
+      Recomputes every product's rating and review count from approved reviews.
+  reindex-search
+      Rebuilds every product's search document, e.g. after enabling search on
+      an existing catalog.
+  purge-sessions
+      Deletes expired sessions and the guest cart lines left behind by them.
+
+Roles: ${USER_ROLES.join(", ")}`;
+
+class CliError extends Error {}
+
+const roleSchema = z.enum(USER_ROLES);
+
+function parseRole(value: string | undefined): UserRole {
+  if (value === undefined) return "admin";
+  const result = roleSchema.safeParse(value);
+  if (!result.success) {
+    throw new CliError(`Unknown role "${value}". Roles: ${USER_ROLES.join(", ")}`);
+  }
+  return result.data;
+}
+
+// Passwords follow the same rules as registration
+function parsePassword(value: string | undefined): { password: string; generated: boolean } {
+  if (value === undefined) {
+    return { password: randomBytes(12).toString("base64url"), generated: true };
+  }
+  const result = registerSchema.shape.password.safeParse(value);
+  if (!result.success) {
+    throw new CliError(`Invalid password: ${result.error.errors[0].message}`);
+  }
+  return { password: value, generated: false };
+}
+
+async function findUser(identifier: string | undefined): Promise<User> {
+  if (!identifier) {
+    throw new CliError("Expected a username or email");
+  }
+  const user = (await storage.getUserByUsername(identifier)) ?? (await storage.getUserByEmail(identifier.toLowerCase()));
+  if (!user) {
+    throw new CliError(`No account with username or email "${identifier}"`);
+  }
+  return user;
+}
+
+async function createAdmin(options: Record<string, string | boolean | undefined>) {
+  const role = parseRole(options.role as string | undefined);
+  const { password, generated } = parsePassword(options.password as string | undefined);
+  const result = registerSchema.safeParse({
+    username: options.username,
+    email: options.email,
+    fullName: options.name,
+    password,
+  });
+  if (!result.success) {
+    const issues = result.error.errors.map((issue) => `--${issue.path[0] === "fullName" ? "name" : issue.path[0]}: ${issue.message}`);
+    throw new CliError(`Invalid account details\n  ${issues.join("\n  ")}`);
+  }
+
+  if (await storage.getUserByUsername(result.data.username)) {
+    throw new CliError(`Username "${result.data.username}" already exists; use promote instead`);
+  }
+  if (await storage.getUserByEmail(result.data.email)) {
+    throw new CliError(`Email "${result.data.email}" already exists; use promote instead`);
+  }
+
+  const user = await storage.createUser({ ...result.data, password: await hashPassword(password) });
+  await storage.updateUserRole(user.id, role);
+  console.log(`Created ${role} "${user.username}" (#${user.id})`);
+  if (generated) console.log(`Password: ${password}`);
+}
+
+async function promote(identifier: string | undefined, options: Record<string, string | boolean | undefined>) {
+  const role = parseRole(options.role as string | undefined);
+  const user = await findUser(identifier);
+  await storage.updateUserRole(user.id, role);
+  await storage.createAuditLogEntry({
+    actorId: null,
+    action: "user.role_changed",
+    targetUserId: user.id,
+    details: { from: user.role, to: role, source: "cli" },
+  });
+  console.log(`"${user.username}" is now ${role} (was ${user.role})`);
+}
+
+async function resetPassword(identifier: string | undefined, options: Record<string, string | boolean | undefined>) {
+  const user = await findUser(identifier);
+  const { password, generated } = parsePassword(options.password as string | undefined);
+  await storage.updateUserPassword(user.id, await hashPassword(password));
+  await storage.createAuditLogEntry({
+    actorId: null,
+    action: "user.password_reset",
+    targetUserId: user.id,
+    details: { source: "cli", twoFactorDisabled: !!options["disable-2fa"] },
+  });
+  console.log(`Password reset for "${user.username}"`);
+  if (generated) console.log(`Password: ${password}`);
+
+  if (options["disable-2fa"]) {
+    await storage.deleteTwoFactorCredential(user.id);
+    console.log("Two-factor authentication disabled");
+  }
+}
+
+async function run(argv: string[]) {
+  const { values: options, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      username: { type: "string" },
+      email: { type: "string" },
+      name: { type: "string" },
+      password: { type: "string" },
+      role: { type: "string" },
+      "disable-2fa": { type: "boolean" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+  const [command, identifier] = positionals;
+
+  if (!command || command === "help" || options.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  if (!isDatabaseConfigured) {
+    throw new CliError("DATABASE_URL is not set; without it changes would only go to a throwaway in-memory store");
+  }
+
+  switch (command) {
+    case "create-admin":
+      return await createAdmin(options);
+    case "promote":
+      return await promote(identifier, options);
+    case "reset-password":
+      return await resetPassword(identifier, options);
+    case "seed": {
+      const created = await seedDemoCatalog();
+      console.log(`Created ${created.categories} categories and ${created.products} products`);
+      return;
+    }
+    case "recompute-ratings": {
+      const count = await storage.recomputeAllProductRatings();
+      console.log(`Recomputed ratings for ${count} products`);
+      return;
+    }
+    case "reindex-search": {
+      const count = await storage.reindexProductSearch();
+      console.log(`Reindexed ${count} products for search`);
+      return;
+    }
+    case "purge-sessions": {
+      const purged = await storage.purgeExpiredSessions();
+      console.log(`Deleted ${purged.sessions} expired sessions and ${purged.guestCartItems} guest cart lines`);
+      return;
+    }
+    default:
+      throw new CliError(`Unknown command "${command}"\n\n${USAGE}`);
+  }
+}
+
+(async () => {
+  try {
+    await run(process.argv.slice(2));
+    await pool.end();
+    process.exit(0);
+  } catch (error) {
+    // Argument errors from parseArgs are as user-facing as our own
+    const isUsageError = error instanceof CliError || (error as { code?: string }).code?.startsWith("ERR_PARSE_ARGS");
+    console.error(isUsageError ? (error as Error).message : error);
+    process.exit(1);
+  }
+})();
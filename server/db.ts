@@ -5,11 +5,10 @@ import * as schema from "@shared/schema";
 
 neonConfig.webSocketConstructor = ws;
 
-if (!process.env.DATABASE_URL) {
-  throw new Error(
-    "DATABASE_URL must be set. Did you forget to provision a database?",
-  );
-}
+// Without a DATABASE_URL the server runs on the in-memory storage (see
+// server/storage.ts). The pool only opens connections on first query, so
+// creating it here is harmless when no database is configured.
+export const isDatabaseConfigured = !!process.env.DATABASE_URL;
 
 export const pool = new Pool({ connectionString: process.env.DATABASE_URL });
 export const db = drizzle({ client: pool, schema });
@@ -0,0 +1,23 @@
+// Server log lines, timestamped and tagged with the part of the server that
+// wrote them. Kept apart from vite.ts so modules the CLI loads don't pull in
+// the dev server.
+
+function timestamp() {
+  return new Date().toLocaleTimeString("en-US", {
+    hour: "numeric",
+    minute: "2-digit",
+    second: "2-digit",
+    hour12: true,
+  });
+}
+
+export function log(message: string, source = "express") {
+  console.log(`${timestamp()} [${source}] ${message}`);
+}
+
+// For failures that are handled but need an operator's attention; goes to
+// stderr with the error's stack
+export function logError(message: string, source = "express", error?: unknown) {
+  const detail = error instanceof Error ? error.stack ?? error.message : error;
+  console.error(`${timestamp()} [${source}] ${message}${detail === undefined ? "" : `: ${detail}`}`);
+}
@@ -0,0 +1,110 @@
+import nodemailer from "nodemailer";
+import { storage } from "./storage";
+
+// Mailer abstraction. Transactional emails go through getMailer(); by default
+// messages are written to the email_outbox table (readable from the admin
+// panel) instead of being delivered. MAIL_TRANSPORT=smtp sends them through
+// SMTP_URL, which defaults to a local catcher such as Mailpit or MailHog.
+
+export type MailMessage = {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+};
+
+export interface Mailer {
+  readonly name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+export class OutboxMailer implements Mailer {
+  readonly name = "outbox";
+
+  async send(message: MailMessage): Promise<void> {
+    await storage.createOutboxEmail({
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+      html: message.html ?? null,
+    });
+  }
+}
+
+export class SmtpMailer implements Mailer {
+  readonly name = "smtp";
+  private transport: nodemailer.Transporter;
+
+  constructor(url: string, private from: string) {
+    this.transport = nodemailer.createTransport(url);
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transport.sendMail({ from: this.from, ...message });
+  }
+}
+
+let mailer: Mailer | undefined;
+
+export function getMailer(): Mailer {
+  if (!mailer) {
+    const name = process.env.MAIL_TRANSPORT || "outbox";
+    if (name === "outbox") {
+      mailer = new OutboxMailer();
+    } else if (name === "smtp") {
+      mailer = new SmtpMailer(
+        process.env.SMTP_URL || "smtp://127.0.0.1:1025",
+        process.env.MAIL_FROM || "ModernCart <no-reply@moderncart.local>",
+      );
+    } else {
+      throw new Error(`Unknown mail transport "${name}"`);
+    }
+  }
+  return mailer;
+}
+
+// Links in emails point at the storefront, which may not be the host the
+// request came in on (e.g. behind a proxy), so APP_URL takes precedence.
+export function appUrl(path: string): string {
+  const base = process.env.APP_URL || `http://localhost:${process.env.PORT || "5000"}`;
+  return new URL(path, base).toString();
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function linkMessage(to: string, subject: string, greeting: string, body: string, action: string, url: string): MailMessage {
+  return {
+    to,
+    subject,
+    text: `${greeting}\n\n${body}\n\n${url}\n`,
+    html: `<p>${escapeHtml(greeting)}</p><p>${escapeHtml(body)}</p><p><a href="${escapeHtml(url)}">${escapeHtml(action)}</a></p>`,
+  };
+}
+
+export function passwordResetEmail(to: string, fullName: string, token: string, expiresInMinutes: number): MailMessage {
+  return linkMessage(
+    to,
+    "Reset your password",
+    `Hi ${fullName},`,
+    `Someone asked to reset the password for your account. The link below is valid for ${expiresInMinutes} minutes and can be used once. If this wasn't you, you can ignore this email.`,
+    "Choose a new password",
+    appUrl(`/reset-password?token=${encodeURIComponent(token)}`),
+  );
+}
+
+export function emailVerificationEmail(to: string, fullName: string, token: string): MailMessage {
+  return linkMessage(
+    to,
+    "Verify your email address",
+    `Hi ${fullName},`,
+    "Please confirm this is your email address. Verifying it also links any orders you placed as a guest with this address to your account.",
+    "Verify email",
+    appUrl(`/verify-email?token=${encodeURIComponent(token)}`),
+  );
+}
@@ -0,0 +1,396 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import type { Order, PaymentStatus } from "@shared/schema";
+import { logError } from "./logger";
+
+// Payment provider abstraction. Checkout authorizes through getPaymentProvider()
+// and the provider reports every state change back through a signed webhook to
+// /api/payments/webhook, which is the only place paymentStatus is updated.
+
+export type CardDetails = {
+  number: string;
+  expiry: string; // MM/YY
+  cvc: string;
+};
+
+export type IntentStatus = "requires_action" | "authorized" | "captured" | "voided" | "refunded" | "failed";
+
+export type PaymentIntent = {
+  id: string;
+  status: IntentStatus;
+  amount: number; // minor units
+  amountCaptured: number;
+  amountRefunded: number;
+  currency: string;
+  cardBrand?: string;
+  cardLast4?: string;
+  declineReason?: string;
+  // Present while status is "requires_action"
+  nextAction?: { type: "challenge"; message: string };
+};
+
+export type AuthorizeRequest = {
+  amount: number;
+  currency: string;
+  paymentMethod: string;
+  card?: CardDetails;
+};
+
+export interface PaymentProvider {
+  readonly name: string;
+  authorize(request: AuthorizeRequest): Promise<PaymentIntent>;
+  retrieve(intentId: string): Promise<PaymentIntent>;
+  confirmChallenge(intentId: string, code: string): Promise<PaymentIntent>;
+  capture(intentId: string, amount?: number): Promise<PaymentIntent>;
+  void(intentId: string): Promise<PaymentIntent>;
+  // A repeated idempotencyKey returns the first refund's result instead of
+  // refunding again
+  refund(intentId: string, amount?: number, idempotencyKey?: string): Promise<PaymentIntent>;
+}
+
+export type PaymentEventType =
+  | "payment_intent.requires_action"
+  | "payment_intent.authorized"
+  | "payment_intent.captured"
+  | "payment_intent.voided"
+  | "payment_intent.refunded"
+  | "payment_intent.failed";
+
+export type PaymentWebhookEvent = {
+  id: string;
+  type: PaymentEventType;
+  created: number; // unix seconds
+  data: PaymentIntent;
+};
+
+// Thrown for declined cards and for operations the intent's state does not
+// allow (e.g. capturing a voided authorization).
+export class PaymentError extends Error {
+  constructor(message: string, public status: number = 402) {
+    super(message);
+    this.name = "PaymentError";
+  }
+}
+
+// Webhook events mapped onto orders.paymentStatus. A partial refund leaves the
+// order "paid"; only a full refund moves it to "refunded".
+export function paymentStatusForEvent(event: PaymentWebhookEvent): PaymentStatus {
+  switch (event.type) {
+    case "payment_intent.requires_action":
+      return "pending";
+    case "payment_intent.authorized":
+      return "authorized";
+    case "payment_intent.captured":
+      return "paid";
+    case "payment_intent.voided":
+      return "voided";
+    case "payment_intent.refunded":
+      return event.data.amountRefunded >= event.data.amountCaptured ? "refunded" : "paid";
+    case "payment_intent.failed":
+      return "failed";
+  }
+}
+
+// Payments only move forward, but may skip states: the "authorized" event is
+// delivered before the order exists and retried, so "captured" can reach an
+// order that is still pending.
+const paymentTransitions: Record<PaymentStatus, PaymentStatus[]> = {
+  pending: ["pending", "authorized", "paid", "voided", "refunded", "failed"],
+  authorized: ["paid", "voided", "refunded", "failed"],
+  paid: ["paid", "refunded"],
+  failed: [],
+  voided: [],
+  refunded: [],
+};
+
+// Webhooks can be retried or arrive out of order; never move a payment backwards.
+export function canTransitionPayment(from: string, to: PaymentStatus): boolean {
+  return paymentTransitions[from as PaymentStatus]?.includes(to) ?? false;
+}
+
+// Signatures follow the common "t=<unix>,v1=<hex hmac>" header format, where
+// the HMAC-SHA256 covers "<t>.<raw body>".
+export const SIGNATURE_HEADER = "x-payment-signature";
+const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+export function getWebhookSecret(): string {
+  return process.env.PAYMENT_WEBHOOK_SECRET || "dev-webhook-secret";
+}
+
+export function signWebhookPayload(payload: string, secret: string, timestamp = Math.floor(Date.now() / 1000)): string {
+  const signature = createHmac("sha256", secret).update(`${timestamp}.${payload}`).digest("hex");
+  return `t=${timestamp},v1=${signature}`;
+}
+
+export function verifyWebhookSignature(payload: Buffer | string, header: string | undefined, secret: string): boolean {
+  if (!header) return false;
+  const parts = Object.fromEntries(header.split(",").map(part => part.split("=", 2)));
+  const timestamp = parseInt(parts.t, 10);
+  if (!timestamp || !parts.v1) return false;
+  if (Math.abs(Date.now() / 1000 - timestamp) > SIGNATURE_TOLERANCE_SECONDS) return false;
+
+  const expected = createHmac("sha256", secret).update(`${timestamp}.${payload.toString()}`).digest();
+  const received = Buffer.from(parts.v1, "hex");
+  return received.length === expected.length && timingSafeEqual(received, expected);
+}
+
+// Test cards understood by the fake provider. Any other number that passes the
+// Luhn check is approved.
+export const TEST_CARDS = {
+  success: "4242424242424242",
+  decline: "4000000000000002",
+  insufficientFunds: "4000000000009995",
+  expired: "4000000000000069",
+  challenge: "4000000000003220",
+} as const;
+
+// The code that passes a fake 3-DS challenge; anything else fails it.
+export const TEST_CHALLENGE_CODE = "123456";
+
+const WEBHOOK_RETRY_DELAYS_MS = [100, 1000, 5000, 15000];
+
+function passesLuhn(number: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < number.length; i++) {
+    let digit = parseInt(number[number.length - 1 - i], 10);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+function cardBrand(number: string): string {
+  if (number.startsWith("4")) return "visa";
+  if (/^5[1-5]/.test(number)) return "mastercard";
+  if (/^3[47]/.test(number)) return "amex";
+  return "card";
+}
+
+function isExpired(expiry: string, now: Date): boolean {
+  const match = /^(\d{2})\s*\/\s*(\d{2})$/.exec(expiry.trim());
+  if (!match) return true;
+  const month = parseInt(match[1], 10);
+  const year = 2000 + parseInt(match[2], 10);
+  if (month < 1 || month > 12) return true;
+  // Cards are valid through the last day of their expiry month
+  return new Date(year, month, 1) <= now;
+}
+
+// In-process stand-in for a real gateway so checkout can be exercised end to
+// end offline. Intents only live as long as the process, like MemStorage.
+export class FakePaymentProvider implements PaymentProvider {
+  readonly name = "fake";
+  private intents = new Map<string, PaymentIntent>();
+  private challengeAttempts = new Map<string, number>();
+  private refunds = new Map<string, PaymentIntent>(); // by idempotency key
+
+  constructor(private webhookUrl: () => string, private webhookSecret: () => string) {}
+
+  async authorize({ amount, currency, paymentMethod, card }: AuthorizeRequest): Promise<PaymentIntent> {
+    const intent: PaymentIntent = {
+      id: `pi_${randomBytes(12).toString("hex")}`,
+      status: "authorized",
+      amount,
+      amountCaptured: 0,
+      amountRefunded: 0,
+      currency,
+    };
+
+    if (paymentMethod === "card") {
+      const number = (card?.number ?? "").replace(/\D/g, "");
+      if (number.length < 12 || !passesLuhn(number)) {
+        throw new PaymentError("Your card number is invalid");
+      }
+      if (!card || !/^\d{3,4}$/.test(card.cvc.trim())) {
+        throw new PaymentError("Your card's security code is invalid");
+      }
+      if (isExpired(card.expiry, new Date()) || number === TEST_CARDS.expired) {
+        throw new PaymentError("Your card has expired");
+      }
+      if (number === TEST_CARDS.decline) {
+        throw new PaymentError("Your card was declined");
+      }
+      if (number === TEST_CARDS.insufficientFunds) {
+        throw new PaymentError("Your card has insufficient funds");
+      }
+
+      intent.cardBrand = cardBrand(number);
+      intent.cardLast4 = number.slice(-4);
+      if (number === TEST_CARDS.challenge) {
+        intent.status = "requires_action";
+        intent.nextAction = {
+          type: "challenge",
+          message: `Enter the verification code sent by your bank (test code ${TEST_CHALLENGE_CODE})`,
+        };
+      }
+    }
+
+    this.intents.set(intent.id, intent);
+    this.emit(intent.status === "requires_action" ? "payment_intent.requires_action" : "payment_intent.authorized", intent);
+    return { ...intent };
+  }
+
+  async retrieve(intentId: string): Promise<PaymentIntent> {
+    const intent = this.getIntent(intentId, ["requires_action", "authorized", "captured", "voided", "refunded", "failed"]);
+    return { ...intent };
+  }
+
+  async confirmChallenge(intentId: string, code: string): Promise<PaymentIntent> {
+    const intent = this.getIntent(intentId, ["requires_action"]);
+    const attempts = (this.challengeAttempts.get(intentId) ?? 0) + 1;
+    this.challengeAttempts.set(intentId, attempts);
+
+    if (code.trim() === TEST_CHALLENGE_CODE) {
+      intent.status = "authorized";
+      delete intent.nextAction;
+      this.emit("payment_intent.authorized", intent);
+      return { ...intent };
+    }
+
+    // Like real issuers, give up after a few wrong codes
+    if (attempts >= 3) {
+      intent.status = "failed";
+      intent.declineReason = "Verification failed";
+      delete intent.nextAction;
+      this.emit("payment_intent.failed", intent);
+      return { ...intent };
+    }
+    throw new PaymentError("The verification code is incorrect");
+  }
+
+  async capture(intentId: string, amount?: number): Promise<PaymentIntent> {
+    const intent = this.getIntent(intentId, ["authorized"]);
+    const captureAmount = amount ?? intent.amount;
+    if (captureAmount <= 0 || captureAmount > intent.amount) {
+      throw new PaymentError("Capture amount exceeds the authorized amount", 400);
+    }
+    intent.status = "captured";
+    intent.amountCaptured = captureAmount;
+    this.emit("payment_intent.captured", intent);
+    return { ...intent };
+  }
+
+  async void(intentId: string): Promise<PaymentIntent> {
+    const intent = this.getIntent(intentId, ["requires_action", "authorized"]);
+    intent.status = "voided";
+    delete intent.nextAction;
+    this.emit("payment_intent.voided", intent);
+    return { ...intent };
+  }
+
+  async refund(intentId: string, amount?: number, idempotencyKey?: string): Promise<PaymentIntent> {
+    const earlier = idempotencyKey && this.refunds.get(idempotencyKey);
+    if (earlier) return { ...earlier };
+    const intent = this.getIntent(intentId, ["captured"]);
+    const refundable = intent.amountCaptured - intent.amountRefunded;
+    const refundAmount = amount ?? refundable;
+    if (refundAmount <= 0 || refundAmount > refundable) {
+      throw new PaymentError("Refund amount exceeds the refundable amount", 400);
+    }
+    intent.amountRefunded += refundAmount;
+    if (intent.amountRefunded === intent.amountCaptured) {
+      intent.status = "refunded";
+    }
+    this.emit("payment_intent.refunded", intent);
+    if (idempotencyKey) this.refunds.set(idempotencyKey, { ...intent });
+    return { ...intent };
+  }
+
+  private getIntent(intentId: string, allowed: IntentStatus[]): PaymentIntent {
+    const intent = this.intents.get(intentId);
+    if (!intent) {
+      throw new PaymentError("Payment not found", 404);
+    }
+    if (!allowed.includes(intent.status)) {
+      throw new PaymentError(`Payment cannot be changed while ${intent.status}`, 409);
+    }
+    return intent;
+  }
+
+  // Delivery is asynchronous and retried on failure, like a real gateway, so
+  // the webhook may arrive before the order referencing the intent is saved.
+  private emit(type: PaymentEventType, intent: PaymentIntent) {
+    const event: PaymentWebhookEvent = {
+      id: `evt_${randomBytes(12).toString("hex")}`,
+      type,
+      created: Math.floor(Date.now() / 1000),
+      data: { ...intent },
+    };
+    const payload = JSON.stringify(event);
+
+    const deliver = async (attempt: number) => {
+      try {
+        const res = await fetch(this.webhookUrl(), {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            [SIGNATURE_HEADER]: signWebhookPayload(payload, this.webhookSecret()),
+          },
+          body: payload,
+        });
+        if (res.ok) return;
+      } catch {
+        // fall through to the retry below
+      }
+      if (attempt + 1 < WEBHOOK_RETRY_DELAYS_MS.length) {
+        setTimeout(() => deliver(attempt + 1), WEBHOOK_RETRY_DELAYS_MS[attempt + 1]);
+      } else {
+        logError(`Giving up delivering payment webhook ${event.id} (${event.type})`, "payments");
+      }
+    };
+    setTimeout(() => deliver(0), WEBHOOK_RETRY_DELAYS_MS[0]);
+  }
+}
+
+let provider: PaymentProvider | undefined;
+
+// Only the fake provider exists so far; PAYMENT_PROVIDER selects it explicitly
+// and is where a real gateway would be plugged in.
+export function getPaymentProvider(): PaymentProvider {
+  if (!provider) {
+    const name = process.env.PAYMENT_PROVIDER || "fake";
+    if (name !== "fake") {
+      throw new Error(`Unknown payment provider "${name}"`);
+    }
+    provider = new FakePaymentProvider(
+      () => process.env.PAYMENT_WEBHOOK_URL || `http://127.0.0.1:${process.env.PORT || "5000"}/api/payments/webhook`,
+      getWebhookSecret,
+    );
+  }
+  return provider;
+}
+
+// The store ships from stock, so payments are captured as soon as they are
+// authorized. Failing to capture leaves the authorization in place for an
+// admin to capture from the order later.
+export async function captureAuthorizedPayment(payment: PaymentIntent): Promise<PaymentIntent> {
+  if (payment.status !== "authorized") return payment;
+  try {
+    return await getPaymentProvider().capture(payment.id);
+  } catch (error) {
+    logError(`Failed to capture payment ${payment.id}`, "payments", error);
+    return payment;
+  }
+}
+
+// Cancelled orders give the money back: an open intent (still awaiting its
+// challenge, or authorized) is voided and a captured payment is refunded in
+// full. The intent is asked for its state rather than trusting
+// order.paymentStatus, which lags behind webhooks. Failures are logged for an
+// admin to settle from the order's payment actions.
+export async function releaseOrderPayment(order: Order): Promise<void> {
+  if (!order.paymentIntentId) return;
+  try {
+    const paymentProvider = getPaymentProvider();
+    const payment = await paymentProvider.retrieve(order.paymentIntentId);
+    if (payment.status === "requires_action" || payment.status === "authorized") {
+      await paymentProvider.void(payment.id);
+    } else if (payment.status === "captured") {
+      await paymentProvider.refund(payment.id);
+    }
+  } catch (error) {
+    logError(`Failed to release payment ${order.paymentIntentId}`, "payments", error);
+  }
+}
@@ -0,0 +1,42 @@
+import type { Promotion } from "@shared/schema";
+import { quoteCart, type PriceQuote, type PricingContext, type PricingLine, type PromotionCustomer } from "@shared/pricing";
+import { storage } from "./storage";
+import { getPricingRules } from "./settings";
+
+type PromotionLookup = { promotion?: Promotion; error?: string };
+
+// Resolves a customer-entered code and checks the limits that depend on stored
+// redemptions. Whether the promotion applies to the cart itself (dates, minimum
+// subtotal, product scoping) is decided by quoteCart.
+export async function findPromotion(code: string | undefined, customer?: PromotionCustomer): Promise<PromotionLookup> {
+  if (!code?.trim()) return {};
+
+  const promotion = await storage.getPromotionByCode(code.trim());
+  if (!promotion || !promotion.isActive) {
+    return { error: "This code is not valid" };
+  }
+  if (promotion.usageLimit !== null && promotion.usageCount >= promotion.usageLimit) {
+    return { error: "This code has reached its usage limit" };
+  }
+  if (customer && promotion.perCustomerLimit !== null) {
+    const redemptions = await storage.countCustomerRedemptions(promotion.id, customer);
+    if (redemptions >= promotion.perCustomerLimit) {
+      return { error: "You have already used this code" };
+    }
+  }
+  return { promotion };
+}
+
+// Quotes the cart with the current store rules and the context's coupon. The
+// promotion is only returned when it was actually applied to the quote.
+export async function quoteWithPromotion(
+  lines: PricingLine[],
+  context: PricingContext,
+): Promise<{ quote: PriceQuote; promotion?: Promotion }> {
+  const { promotion, error } = await findPromotion(context.couponCode, context.customer);
+  const quote = quoteCart(lines, context, await getPricingRules(), promotion);
+  if (error) {
+    return { quote: { ...quote, promotionError: error } };
+  }
+  return { quote, promotion: quote.promotionCode ? promotion : undefined };
+}
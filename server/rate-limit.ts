@@ -0,0 +1,249 @@
+import type { Request, Response, NextFunction } from "express";
+import { sql, lte } from "drizzle-orm";
+import { rateLimits } from "@shared/schema";
+import { db, isDatabaseConfigured } from "./db";
+
+// Fixed-window rate limiting. Each route group has a limit per window, counted
+// per IP and optionally per username or user, in a pluggable store: in memory
+// for a single process, or Postgres when several instances share the load.
+// Failed sign-ins additionally lock the username (and the IP) out for a time
+// that doubles with every failure past the threshold.
+
+export type RateLimitEntry = {
+  count: number;
+  resetAt: Date;
+  updatedAt: Date; // time of the last hit
+};
+
+export interface RateLimitStore {
+  readonly name: string;
+  // Counts a hit for the key, starting a new window of windowMs once the
+  // previous one has ended.
+  increment(key: string, windowMs: number): Promise<RateLimitEntry>;
+  get(key: string): Promise<RateLimitEntry | undefined>;
+  reset(key: string): Promise<void>;
+}
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  readonly name = "memory";
+  private entries = new Map<string, RateLimitEntry>();
+
+  constructor() {
+    // Drop finished windows so the map doesn't grow with every IP seen
+    setInterval(() => {
+      const now = Date.now();
+      for (const [key, entry] of Array.from(this.entries.entries())) {
+        if (entry.resetAt.getTime() <= now) this.entries.delete(key);
+      }
+    }, 60 * 1000).unref();
+  }
+
+  async increment(key: string, windowMs: number): Promise<RateLimitEntry> {
+    const now = new Date();
+    const entry = this.entries.get(key);
+    if (!entry || entry.resetAt <= now) {
+      const fresh = { count: 1, resetAt: new Date(now.getTime() + windowMs), updatedAt: now };
+      this.entries.set(key, fresh);
+      return { ...fresh };
+    }
+    entry.count += 1;
+    entry.updatedAt = now;
+    return { ...entry };
+  }
+
+  async get(key: string): Promise<RateLimitEntry | undefined> {
+    const entry = this.entries.get(key);
+    return entry && entry.resetAt > new Date() ? { ...entry } : undefined;
+  }
+
+  async reset(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+}
+
+export class PostgresRateLimitStore implements RateLimitStore {
+  readonly name = "postgres";
+  private lastPruned = 0;
+
+  async increment(key: string, windowMs: number): Promise<RateLimitEntry> {
+    const now = new Date();
+    const resetAt = new Date(now.getTime() + windowMs);
+    // One statement, so concurrent hits on the same key can't lose counts
+    const [entry] = await db
+      .insert(rateLimits)
+      .values({ key, count: 1, resetAt, updatedAt: now })
+      .onConflictDoUpdate({
+        target: rateLimits.key,
+        set: {
+          count: sql`case when ${rateLimits.resetAt} <= ${now} then 1 else ${rateLimits.count} + 1 end`,
+          resetAt: sql`case when ${rateLimits.resetAt} <= ${now} then ${resetAt} else ${rateLimits.resetAt} end`,
+          updatedAt: now,
+        },
+      })
+      .returning();
+    await this.prune(now);
+    return { count: entry.count, resetAt: entry.resetAt, updatedAt: entry.updatedAt };
+  }
+
+  async get(key: string): Promise<RateLimitEntry | undefined> {
+    const [entry] = await db.select().from(rateLimits).where(sql`${rateLimits.key} = ${key} and ${rateLimits.resetAt} > now()`);
+    return entry ? { count: entry.count, resetAt: entry.resetAt, updatedAt: entry.updatedAt } : undefined;
+  }
+
+  async reset(key: string): Promise<void> {
+    await db.delete(rateLimits).where(sql`${rateLimits.key} = ${key}`);
+  }
+
+  private async prune(now: Date) {
+    if (now.getTime() - this.lastPruned < 60 * 1000) return;
+    this.lastPruned = now.getTime();
+    await db.delete(rateLimits).where(lte(rateLimits.resetAt, now));
+  }
+}
+
+let store: RateLimitStore | undefined;
+
+// RATE_LIMIT_STORE picks the store; by default counters live in Postgres
+// whenever the app runs on a database, so all instances share them.
+export function getRateLimitStore(): RateLimitStore {
+  if (!store) {
+    const name = process.env.RATE_LIMIT_STORE || (isDatabaseConfigured ? "postgres" : "memory");
+    if (name === "memory") {
+      store = new MemoryRateLimitStore();
+    } else if (name === "postgres") {
+      store = new PostgresRateLimitStore();
+    } else {
+      throw new Error(`Unknown rate limit store "${name}"`);
+    }
+  }
+  return store;
+}
+
+export type RateLimitGroup = "auth" | "cart" | "orders" | "search" | "admin";
+
+export type RateLimitRule = {
+  max: number;
+  windowMs: number;
+};
+
+const DEFAULT_RATE_LIMITS: Record<RateLimitGroup, RateLimitRule> = {
+  auth: { max: 20, windowMs: 15 * 60 * 1000 },
+  cart: { max: 120, windowMs: 60 * 1000 },
+  orders: { max: 10, windowMs: 60 * 1000 },
+  search: { max: 120, windowMs: 60 * 1000 },
+  admin: { max: 600, windowMs: 60 * 1000 },
+};
+
+// RATE_LIMIT_<GROUP>=<max>/<window seconds> overrides a group, e.g.
+// RATE_LIMIT_ORDERS=5/60; RATE_LIMIT_<GROUP>=off disables it.
+export function getRateLimitRule(group: RateLimitGroup): RateLimitRule | null {
+  const override = process.env[`RATE_LIMIT_${group.toUpperCase()}`];
+  if (!override) return DEFAULT_RATE_LIMITS[group];
+  if (override === "off") return null;
+  const match = override.match(/^(\d+)\/(\d+)$/);
+  if (!match) {
+    throw new Error(`Invalid RATE_LIMIT_${group.toUpperCase()} "${override}", expected <max>/<seconds>`);
+  }
+  return { max: parseInt(match[1], 10), windowMs: parseInt(match[2], 10) * 1000 };
+}
+
+// Picks the bucket a request is counted in, or undefined to skip that bucket
+export type RateLimitKey = (req: Request) => string | undefined;
+
+export const byIp: RateLimitKey = (req) => `ip:${req.ip}`;
+
+export const byUser: RateLimitKey = (req) => (req.isAuthenticated() ? `user:${req.user.id}` : undefined);
+
+// Spreading attempts against one account over many IPs still hits this bucket
+export const byUsername: RateLimitKey = (req) => {
+  const username = req.body?.username ?? req.body?.email;
+  return typeof username === "string" && username ? `username:${username.trim().toLowerCase()}` : undefined;
+};
+
+function retryAfterSeconds(until: Date) {
+  return Math.max(1, Math.ceil((until.getTime() - Date.now()) / 1000));
+}
+
+function sendTooManyRequests(res: Response, until: Date, message: string) {
+  const retryAfter = retryAfterSeconds(until);
+  res.set("Retry-After", String(retryAfter));
+  res.status(429).json({ message, retryAfter });
+}
+
+export function rateLimit(group: RateLimitGroup, keys: RateLimitKey[] = [byIp]) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const rule = getRateLimitRule(group);
+      if (!rule) return next();
+
+      let tightest: RateLimitEntry | undefined;
+      for (const key of keys) {
+        const bucket = key(req);
+        if (!bucket) continue;
+        const entry = await getRateLimitStore().increment(`${group}:${bucket}`, rule.windowMs);
+        if (!tightest || entry.count > tightest.count) tightest = entry;
+      }
+      if (!tightest) return next();
+
+      res.set("RateLimit-Limit", String(rule.max));
+      res.set("RateLimit-Remaining", String(Math.max(0, rule.max - tightest.count)));
+      res.set("RateLimit-Reset", String(retryAfterSeconds(tightest.resetAt)));
+      if (tightest.count > rule.max) {
+        return sendTooManyRequests(res, tightest.resetAt, "Too many requests, please try again later");
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+// Progressive lockout for failed sign-ins. Failures are remembered for a day;
+// past the threshold each one locks the bucket for twice as long as the last.
+const LOGIN_FAILURE_WINDOW_MS = 24 * 60 * 60 * 1000;
+const LOGIN_LOCKOUT_BASE_MS = 30 * 1000;
+const LOGIN_LOCKOUT_MAX_MS = 60 * 60 * 1000;
+// A shared IP (office, mobile carrier) sees failures from many people
+const LOGIN_FAILURE_THRESHOLDS = { username: 5, ip: 20 };
+
+function loginFailureKeys(req: Request, username: string) {
+  return [
+    { key: `login-failures:username:${username.trim().toLowerCase()}`, threshold: LOGIN_FAILURE_THRESHOLDS.username },
+    { key: `login-failures:ip:${req.ip}`, threshold: LOGIN_FAILURE_THRESHOLDS.ip },
+  ];
+}
+
+function lockedUntil(entry: RateLimitEntry, threshold: number): Date | null {
+  if (entry.count < threshold) return null;
+  const lockMs = Math.min(LOGIN_LOCKOUT_BASE_MS * 2 ** (entry.count - threshold), LOGIN_LOCKOUT_MAX_MS);
+  const until = new Date(entry.updatedAt.getTime() + lockMs);
+  return until > new Date() ? until : null;
+}
+
+// Returns when the lockout for this username or IP ends, or null if sign-in
+// is allowed.
+export async function getLoginLockout(req: Request, username: string): Promise<Date | null> {
+  let latest: Date | null = null;
+  for (const { key, threshold } of loginFailureKeys(req, username)) {
+    const entry = await getRateLimitStore().get(key);
+    const until = entry && lockedUntil(entry, threshold);
+    if (until && (!latest || until > latest)) latest = until;
+  }
+  return latest;
+}
+
+export async function recordLoginFailure(req: Request, username: string): Promise<void> {
+  for (const { key } of loginFailureKeys(req, username)) {
+    await getRateLimitStore().increment(key, LOGIN_FAILURE_WINDOW_MS);
+  }
+}
+
+// A successful sign-in clears the account's failures; the IP's are left to
+// expire so one good login can't reset an attacker's count.
+export async function clearLoginFailures(username: string): Promise<void> {
+  await getRateLimitStore().reset(`login-failures:username:${username.trim().toLowerCase()}`);
+}
+
+export function sendLockedOut(res: Response, until: Date) {
+  sendTooManyRequests(res, until, "Too many failed sign-in attempts, please try again later");
+}
@@ -0,0 +1,34 @@
+// Redaction for anything written to the logs. Response bodies are logged for
+// every API request, so fields that hold credentials or secrets are replaced
+// before they get there, however deeply they are nested.
+
+const REDACTED = "[redacted]";
+
+// Matched against the key with case and separators ignored, so "password",
+// "newPassword" and "password_hash" are all caught
+const SENSITIVE_KEY_PATTERNS = [
+  "password",
+  "secret",
+  "token", // lookup, reset and verification tokens and their hashes
+  "otpauthuri",
+  "recoverycode",
+  "cardnumber",
+  "cvc",
+];
+
+function isSensitiveKey(key: string): boolean {
+  const normalized = key.toLowerCase().replace(/[^a-z0-9]/g, "");
+  return SENSITIVE_KEY_PATTERNS.some((pattern) => normalized.includes(pattern));
+}
+
+export function redactSensitive(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(redactSensitive);
+  }
+  if (value && typeof value === "object" && !(value instanceof Date)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [key, isSensitiveKey(key) ? REDACTED : redactSensitive(entry)]),
+    );
+  }
+  return value;
+}
@@ -1,9 +1,149 @@
-import type { Express } from "express";
+import type { Express, Request } from "express";
 import { createServer, type Server } from "http";
-import { setupAuth } from "./auth";
-import { storage } from "./storage";
+import { randomBytes, createHash } from "crypto";
+import { setupAuth, sendPasswordResetEmail, isTwoFactorRequired } from "./auth";
+import { rateLimit, byIp, byUser } from "./rate-limit";
+import { hasPermission, type Permission, type UserRole } from "@shared/permissions";
+import {
+  storage,
+  OrderConflictError,
+  OrderTransitionError,
+  ProductInUseError,
+  PromotionUnavailableError,
+  ReturnRequestError,
+  ReturnTransitionError,
+  type CartOwner,
+  type StoredSession,
+} from "./storage";
 import { z } from "zod";
-import { insertProductSchema, insertCategorySchema } from "@shared/schema";
+import {
+  insertProductSchema,
+  insertCategorySchema,
+  insertSearchSynonymSchema,
+  productQuerySchema,
+  searchSuggestQuerySchema,
+  searchClickSchema,
+  searchInsightsQuerySchema,
+  insertReviewSchema,
+  reviewStatusSchema,
+  reviewSortSchema,
+  updateStoreSettingsSchema,
+  insertPromotionSchema,
+  updateOrderStatusSchema,
+  insertAddressSchema,
+  createReturnSchema,
+  updateReturnStatusSchema,
+  returnStatusSchema,
+  assignRoleSchema,
+  adminUserQuerySchema,
+  updateUserRoleSchema,
+  disableUserSchema,
+  insertUserNoteSchema,
+  type AuditAction,
+  type Order,
+  type OrderCustomer,
+  type UserSession,
+  type AdminUserDetail,
+  type OrderActor,
+  type OrderStatus,
+  type OrderStatusEventWithActor,
+  type PostalAddress,
+  type PaymentStatus,
+  type CartItem,
+  type Product,
+  type User,
+} from "@shared/schema";
+import { fromMinorUnits, prorateRefund, toMinorUnits, type PricingLine } from "@shared/pricing";
+import { canTransitionOrder } from "@shared/order-status";
+import { canTransitionReturn, RETURNABLE_ORDER_STATUSES } from "@shared/returns";
+import { addressSchema, toPostalAddress } from "@shared/address";
+import { getStoreSettings, updateStoreSettings, toPublicSettings } from "./settings";
+import { quoteWithPromotion } from "./promotions";
+import { toStaffMember, toOrderCustomer } from "./serializers";
+import { getSearchSuggestions } from "./search-suggestions";
+import { logSearch, logSearchClick, searcherKey } from "./search-analytics";
+import {
+  getPaymentProvider,
+  captureAuthorizedPayment,
+  releaseOrderPayment,
+  getWebhookSecret,
+  verifyWebhookSignature,
+  paymentStatusForEvent,
+  PaymentError,
+  SIGNATURE_HEADER,
+  type PaymentWebhookEvent,
+} from "./payments";
+
+const SYSTEM_ACTOR: OrderActor = { id: null, role: "system" };
+
+// Payment outcomes that also move the order along its lifecycle. A failed
+// payment cancels the order, which puts its items back in stock.
+const orderUpdateForPayment: Partial<Record<PaymentStatus, { status: OrderStatus; note: string }>> = {
+  paid: { status: "paid", note: "Payment captured" },
+  refunded: { status: "refunded", note: "Payment refunded" },
+  failed: { status: "cancelled", note: "Payment failed" },
+};
+
+// Customers see who changed their order by role only, never staff names
+const toCustomerTimeline = (events: OrderStatusEventWithActor[]) =>
+  events.map(({ actorId, actorName, ...event }) => event);
+
+// Cart quantities are also capped at the product's stock by the routes
+const addToCartSchema = z.object({
+  productId: z.number().int().positive(),
+  quantity: z.number().int().positive().default(1),
+});
+
+const cartQuantitySchema = z.object({
+  quantity: z.number().int().positive(),
+});
+
+const couponSchema = z.object({
+  couponCode: z.string().max(64).optional(),
+});
+
+// Cart previews may pass the checkout's address; orders use the one resolved
+// for shipping
+const quoteRequestSchema = couponSchema.extend({
+  shippingAddress: addressSchema.optional(),
+});
+
+const paymentDetailsSchema = z.object({
+  paymentMethod: z.enum(["card", "paypal"]),
+  card: z.object({
+    number: z.string(),
+    expiry: z.string(),
+    cvc: z.string(),
+  }).optional(),
+});
+
+// Checkout addresses are either a saved address (signed-in users only) or a
+// new address; billing defaults to the shipping address.
+const checkoutAddressSchema = z.union([z.object({ addressId: z.number().int() }), addressSchema]);
+
+const checkoutAddressesSchema = z.object({
+  shippingAddress: checkoutAddressSchema,
+  billingAddress: checkoutAddressSchema.optional(),
+  saveShippingAddress: z.boolean().optional(),
+});
+
+// Resolves to the snapshot stored on the order, or undefined when a saved
+// address does not exist or belongs to someone else.
+async function resolveCheckoutAddress(
+  input: z.infer<typeof checkoutAddressSchema>,
+  userId?: number,
+): Promise<PostalAddress | undefined> {
+  if (!("addressId" in input)) return toPostalAddress(input);
+  const saved = userId ? await storage.getAddressById(input.addressId, userId) : undefined;
+  return saved ? toPostalAddress(saved) : undefined;
+}
+
+// How many queries each list of the Search insights report shows
+const SEARCH_INSIGHTS_LIMIT = 20;
+
+const guestContactSchema = z.object({
+  contactEmail: z.string().email().transform(email => email.toLowerCase()),
+});
 
 const requireAuth = (req: any, res: any, next: any) => {
   if (!req.isAuthenticated()) {
@@ -12,13 +152,76 @@ const requireAuth = (req: any, res: any, next: any) => {
   next();
 };
 
-const requireAdmin = (req: any, res: any, next: any) => {
-  if (!req.isAuthenticated() || req.user.role !== 'admin') {
-    return res.status(403).json({ message: "Admin access required" });
+const cartRateLimit = rateLimit("cart", [byIp, byUser]);
+const orderRateLimit = rateLimit("orders", [byIp, byUser]);
+const searchRateLimit = rateLimit("search", [byIp]);
+// Catalog listings are only counted when they search, since searches are logged
+const productSearchRateLimit = rateLimit("search", [(req) => (req.query.search ? byIp(req) : undefined)]);
+// Staff are counted per account, since a team may share an office IP
+const adminRateLimit = rateLimit("admin", [byUser]);
+
+// Staff routes need the permission from the user's role (shared/permissions.ts).
+// When the store requires 2FA for administrators, their sessions must also have
+// passed a second factor; the code lets the admin page ask for one.
+const requirePermission = (permission: Permission) => async (req: any, res: any, next: any) => {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: "Authentication required" });
+  }
+  if (!hasPermission(req.user.role, permission)) {
+    return res.status(403).json({ message: "You don't have permission to do this", permission });
+  }
+  try {
+    if (!req.session.twoFactorVerified && (await isTwoFactorRequired(req.user))) {
+      return res.status(403).json({
+        message: "Two-factor authentication is required for admin access",
+        code: "two_factor_required",
+      });
+    }
+    adminRateLimit(req, res, next);
+  } catch (error) {
+    next(error);
   }
-  next();
 };
 
+// Staff order views show who placed each order rather than a bare user id
+async function withCustomers<T extends Order>(orderList: T[]): Promise<Array<T & { customer: OrderCustomer | null }>> {
+  const userIds = Array.from(new Set(orderList.map(order => order.userId).filter((id): id is number => id !== null)));
+  const customers = new Map((await storage.getUsersByIds(userIds)).map(user => [user.id, toOrderCustomer(user)]));
+  return orderList.map(order => ({
+    ...order,
+    customer: order.userId !== null ? customers.get(order.userId) ?? null : null,
+  }));
+}
+
+// Session ids are bearer credentials, so staff only ever see a hash of them
+const toUserSession = ({ sid, expiresAt, data }: StoredSession): UserSession => ({
+  id: createHash("sha256").update(sid).digest("hex").slice(0, 16),
+  signedInAt: data.signedInAt ? new Date(data.signedInAt).toISOString() : null,
+  expiresAt: expiresAt ? expiresAt.toISOString() : null,
+  ip: data.ip ?? null,
+  userAgent: data.userAgent ?? null,
+});
+
+const audit = (req: Request, action: AuditAction, targetUserId: number, details: Record<string, unknown> | null = null) =>
+  storage.createAuditLogEntry({ actorId: req.user.id, action, targetUserId, details });
+
+// Staff accounts can only be disabled, signed out, sent a password reset or
+// given notes by someone who may also change their role
+const canManageAccount = (actorRole: UserRole, target: User) =>
+  target.role === "user" || hasPermission(actorRole, "users:manage");
+
+// Logged-in users own their cart; anonymous visitors get one tied to their session
+const cartOwner = (req: Request): CartOwner =>
+  req.isAuthenticated() ? { userId: req.user.id } : { sessionId: req.sessionID };
+
+const toPricingLines = (items: Array<CartItem & { product: Product }>): PricingLine[] =>
+  items.map(item => ({
+    productId: item.productId,
+    categoryId: item.product.categoryId,
+    unitPrice: item.product.price,
+    quantity: item.quantity,
+  }));
+
 export function registerRoutes(app: Express): Server {
   // Setup authentication routes
   setupAuth(app);
@@ -33,7 +236,7 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
-  app.post("/api/categories", requireAdmin, async (req, res) => {
+  app.post("/api/categories", requirePermission("catalog:manage"), async (req, res) => {
     try {
       const validatedData = insertCategorySchema.parse(req.body);
       const category = await storage.createCategory(validatedData);
@@ -47,20 +250,48 @@ export function registerRoutes(app: Express): Server {
   });
 
   // Products
-  app.get("/api/products", async (req, res) => {
+  app.get("/api/products", productSearchRateLimit, async (req, res) => {
     try {
-      const limit = parseInt(req.query.limit as string) || 20;
-      const offset = parseInt(req.query.offset as string) || 0;
-      const categoryId = req.query.categoryId ? parseInt(req.query.categoryId as string) : undefined;
-      const search = req.query.search as string;
-      
-      const products = await storage.getProducts(limit, offset, categoryId, search);
-      res.json(products);
+      const query = productQuerySchema.parse(req.query);
+      const listing = await storage.getProductListing(query);
+      // First pages only, so paging through results counts as one search
+      if (query.search && query.offset === 0) {
+        await logSearch(query.search, listing.total, searcherKey(req));
+      }
+      res.json(listing);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
       res.status(500).json({ message: "Failed to fetch products" });
     }
   });
 
+  app.get("/api/search/suggest", searchRateLimit, async (req, res) => {
+    try {
+      const { q } = searchSuggestQuerySchema.parse(req.query);
+      res.json(await getSearchSuggestions(q));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to fetch search suggestions" });
+    }
+  });
+
+  app.post("/api/search/clicks", searchRateLimit, async (req, res) => {
+    try {
+      const click = searchClickSchema.parse(req.body);
+      await logSearchClick(click);
+      res.sendStatus(204);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to log search click" });
+    }
+  });
+
   app.get("/api/products/featured", async (req, res) => {
     try {
       const limit = parseInt(req.query.limit as string) || 8;
@@ -84,7 +315,7 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
-  app.post("/api/products", requireAdmin, async (req, res) => {
+  app.post("/api/products", requirePermission("catalog:manage"), async (req, res) => {
     try {
       const validatedData = insertProductSchema.parse(req.body);
       const product = await storage.createProduct(validatedData);
@@ -97,7 +328,7 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
-  app.put("/api/products/:id", requireAdmin, async (req, res) => {
+  app.put("/api/products/:id", requirePermission("catalog:manage"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const validatedData = insertProductSchema.partial().parse(req.body);
@@ -114,73 +345,317 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
-  app.delete("/api/products/:id", requireAdmin, async (req, res) => {
+  app.delete("/api/products/:id", requirePermission("catalog:manage"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       await storage.deleteProduct(id);
       res.sendStatus(204);
     } catch (error) {
+      if (error instanceof ProductInUseError) {
+        return res.status(409).json({ message: error.message });
+      }
       res.status(500).json({ message: "Failed to delete product" });
     }
   });
 
+  // Reviews
+  app.get("/api/products/:id/reviews", async (req, res) => {
+    try {
+      const productId = parseInt(req.params.id);
+      const limit = Math.min(parseInt(req.query.limit as string) || 10, 50);
+      const offset = parseInt(req.query.offset as string) || 0;
+      const sort = reviewSortSchema.catch("newest").parse(req.query.sort);
+      
+      const result = await storage.getReviews({ productId, status: "approved", sort, limit, offset });
+      res.json(result);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch reviews" });
+    }
+  });
+
+  app.post("/api/products/:id/reviews", requireAuth, async (req, res) => {
+    try {
+      const productId = parseInt(req.params.id);
+      const validatedData = insertReviewSchema.parse(req.body);
+      
+      const product = await storage.getProductById(productId);
+      if (!product) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+      
+      const existingReview = await storage.getUserReviewForProduct(req.user.id, productId);
+      if (existingReview) {
+        return res.status(409).json({ message: "You have already reviewed this product" });
+      }
+      
+      const review = await storage.createReview({
+        ...validatedData,
+        productId,
+        userId: req.user.id,
+        isVerifiedPurchase: await storage.hasPurchasedProduct(req.user.id, productId),
+      });
+      res.status(201).json(review);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create review" });
+    }
+  });
+
+  app.put("/api/reviews/:id/status", requirePermission("reviews:moderate"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const status = reviewStatusSchema.parse(req.body.status);
+      const review = await storage.updateReviewStatus(id, status);
+      if (!review) {
+        return res.status(404).json({ message: "Review not found" });
+      }
+      res.json(review);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update review status" });
+    }
+  });
+
+  app.delete("/api/reviews/:id", requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const review = await storage.getReviewById(id);
+      if (!review) {
+        return res.status(404).json({ message: "Review not found" });
+      }
+      
+      // Authors may remove their own review; moderators may remove any
+      if (!hasPermission(req.user.role, "reviews:moderate") && review.userId !== req.user.id) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      
+      await storage.deleteReview(id);
+      res.sendStatus(204);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete review" });
+    }
+  });
+
+  app.get("/api/admin/reviews", requirePermission("reviews:moderate"), async (req, res) => {
+    try {
+      const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+      const offset = parseInt(req.query.offset as string) || 0;
+      const status = req.query.status ? reviewStatusSchema.parse(req.query.status) : undefined;
+      
+      const result = await storage.getReviews({ status, sort: "oldest", limit, offset });
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to fetch reviews" });
+    }
+  });
+
   // Cart
-  app.get("/api/cart", requireAuth, async (req, res) => {
+  app.get("/api/cart", async (req, res) => {
     try {
-      const cartItems = await storage.getCartItems(req.user.id);
+      const cartItems = await storage.getCartItems(cartOwner(req));
       res.json(cartItems);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch cart items" });
     }
   });
 
-  app.post("/api/cart", requireAuth, async (req, res) => {
+  app.post("/api/cart", cartRateLimit, async (req, res) => {
     try {
-      const { productId, quantity } = req.body;
-      const cartItem = await storage.addToCart({
-        userId: req.user.id,
-        productId: parseInt(productId),
-        quantity: parseInt(quantity) || 1,
-      });
+      const { productId, quantity } = addToCartSchema.parse(req.body);
+      const product = await storage.getProductById(productId);
+      if (!product) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+      if (!product.isActive) {
+        return res.status(409).json({ message: "This product is no longer available" });
+      }
+      
+      const owner = cartOwner(req);
+      const existingItem = (await storage.getCartItems(owner)).find(item => item.productId === productId);
+      const available = product.stock - (existingItem?.quantity ?? 0);
+      if (available <= 0) {
+        return res.status(409).json({ message: "No more of this product is in stock" });
+      }
+      
+      if (!req.isAuthenticated()) {
+        // Sessions are only persisted once modified; mark it so the guest
+        // keeps the same session id (and therefore the same cart).
+        req.session.hasGuestCart = true;
+      }
+      const cartItem = await storage.addToCart(owner, productId, Math.min(quantity, available));
       res.status(201).json(cartItem);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
       res.status(500).json({ message: "Failed to add item to cart" });
     }
   });
 
-  app.put("/api/cart/:id", requireAuth, async (req, res) => {
+  app.put("/api/cart/:id", cartRateLimit, async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const { quantity } = req.body;
-      const cartItem = await storage.updateCartItem(id, parseInt(quantity));
+      const { quantity } = cartQuantitySchema.parse(req.body);
+      const owner = cartOwner(req);
+      const existingItem = (await storage.getCartItems(owner)).find(item => item.id === id);
+      if (!existingItem) {
+        return res.status(404).json({ message: "Cart item not found" });
+      }
+      if (!existingItem.product.isActive) {
+        return res.status(409).json({ message: "This product is no longer available" });
+      }
+      if (existingItem.product.stock <= 0) {
+        return res.status(409).json({ message: "This product is out of stock" });
+      }
+      
+      const cartItem = await storage.updateCartItem(owner, id, Math.min(quantity, existingItem.product.stock));
       if (!cartItem) {
         return res.status(404).json({ message: "Cart item not found" });
       }
       res.json(cartItem);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
       res.status(500).json({ message: "Failed to update cart item" });
     }
   });
 
-  app.delete("/api/cart/:id", requireAuth, async (req, res) => {
+  app.post("/api/cart/quote", async (req, res) => {
+    try {
+      const { couponCode, shippingAddress } = quoteRequestSchema.parse(req.body ?? {});
+      const cartItems = await storage.getCartItems(cartOwner(req));
+      // Guests are only identified by email at checkout, so their
+      // per-customer limits are checked when the order is placed
+      const { quote } = await quoteWithPromotion(toPricingLines(cartItems), {
+        shippingAddress: shippingAddress && toPostalAddress(shippingAddress),
+        couponCode,
+        customer: req.user ? { userId: req.user.id, email: req.user.email } : undefined,
+      });
+      res.json(quote);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to quote cart" });
+    }
+  });
+
+  app.delete("/api/cart/:id", cartRateLimit, async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      await storage.removeFromCart(id);
+      await storage.removeFromCart(cartOwner(req), id);
       res.sendStatus(204);
     } catch (error) {
       res.status(500).json({ message: "Failed to remove item from cart" });
     }
   });
 
+  // Wishlist
+  app.get("/api/wishlist", requireAuth, async (req, res) => {
+    try {
+      const wishlistItems = await storage.getWishlistItems(req.user.id);
+      res.json(wishlistItems);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch wishlist" });
+    }
+  });
+
+  app.post("/api/wishlist", requireAuth, async (req, res) => {
+    try {
+      const productId = parseInt(req.body.productId);
+      const product = await storage.getProductById(productId);
+      if (!product) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+      
+      const wishlistItem = await storage.addToWishlist({
+        userId: req.user.id,
+        productId,
+      });
+      res.status(201).json(wishlistItem);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to add item to wishlist" });
+    }
+  });
+
+  app.delete("/api/wishlist/:productId", requireAuth, async (req, res) => {
+    try {
+      const productId = parseInt(req.params.productId);
+      await storage.removeFromWishlist(req.user.id, productId);
+      res.sendStatus(204);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to remove item from wishlist" });
+    }
+  });
+
+  // Address book
+  app.get("/api/addresses", requireAuth, async (req, res) => {
+    try {
+      const addresses = await storage.getAddresses(req.user.id);
+      res.json(addresses);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch addresses" });
+    }
+  });
+
+  app.post("/api/addresses", requireAuth, async (req, res) => {
+    try {
+      const addressData = insertAddressSchema.parse(req.body);
+      const address = await storage.createAddress(req.user.id, addressData);
+      res.status(201).json(address);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to save address" });
+    }
+  });
+
+  app.put("/api/addresses/:id", requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const addressData = insertAddressSchema.parse(req.body);
+      const address = await storage.updateAddress(id, req.user.id, addressData);
+      if (!address) {
+        return res.status(404).json({ message: "Address not found" });
+      }
+      res.json(address);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to save address" });
+    }
+  });
+
+  app.delete("/api/addresses/:id", requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      await storage.deleteAddress(id, req.user.id);
+      res.sendStatus(204);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete address" });
+    }
+  });
+
   // Orders
   app.get("/api/orders", requireAuth, async (req, res) => {
     try {
       const limit = parseInt(req.query.limit as string) || 20;
       const offset = parseInt(req.query.offset as string) || 0;
-      const userId = req.user.role === 'admin' ? undefined : req.user.id;
+      // Staff see every order unless they ask for their own (account pages)
+      const userId = hasPermission(req.user.role, "orders:read") && req.query.mine !== "true" ? undefined : req.user.id;
       
       const orders = await storage.getOrders(userId, limit, offset);
-      res.json(orders);
+      res.json(userId === undefined ? await withCustomers(orders) : orders);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch orders" });
     }
@@ -194,89 +669,834 @@ export function registerRoutes(app: Express): Server {
         return res.status(404).json({ message: "Order not found" });
       }
       
-      // Check if user owns this order (unless admin)
-      if (req.user.role !== 'admin' && order.userId !== req.user.id) {
+      // Check if user owns this order (unless staff)
+      const isStaff = hasPermission(req.user.role, "orders:read");
+      if (!isStaff && order.userId !== req.user.id) {
         return res.status(403).json({ message: "Access denied" });
       }
       
-      res.json(order);
+      const statusEvents = await storage.getOrderStatusEvents(id);
+      const returnRequests = await storage.getReturnRequests({ orderId: id });
+      res.json({
+        ...(isStaff ? (await withCustomers([order]))[0] : order),
+        statusEvents: isStaff ? statusEvents : toCustomerTimeline(statusEvents),
+        returnRequests,
+      });
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch order" });
     }
   });
 
-  app.post("/api/orders", requireAuth, async (req, res) => {
+  app.post("/api/orders", orderRateLimit, async (req, res) => {
     try {
-      const { shippingAddress, paymentMethod } = req.body;
+      const { couponCode } = couponSchema.parse(req.body);
+      const { paymentMethod, card } = paymentDetailsSchema.parse(req.body);
+      const addressInput = checkoutAddressesSchema.parse(req.body);
+      const user = req.isAuthenticated() ? req.user : undefined;
+      // Guests must leave an email so we can reach them about the order
+      const contactEmail = user ? user.email : guestContactSchema.parse(req.body).contactEmail;
+      
+      const shippingAddress = await resolveCheckoutAddress(addressInput.shippingAddress, user?.id);
+      const billingAddress = addressInput.billingAddress
+        ? await resolveCheckoutAddress(addressInput.billingAddress, user?.id)
+        : shippingAddress;
+      if (!shippingAddress || !billingAddress) {
+        return res.status(400).json({ message: "Saved address not found" });
+      }
       
       // Get cart items
-      const cartItems = await storage.getCartItems(req.user.id);
+      const owner = cartOwner(req);
+      const cartItems = await storage.getCartItems(owner);
       if (cartItems.length === 0) {
         return res.status(400).json({ message: "Cart is empty" });
       }
       
-      // Calculate totals
-      const subtotal = cartItems.reduce((sum, item) => sum + (parseFloat(item.product.price) * item.quantity), 0);
-      const tax = subtotal * 0.08; // 8% tax
-      const shipping = subtotal > 50 ? 0 : 9.99; // Free shipping over $50
-      const total = subtotal + tax + shipping;
+      const { quote, promotion } = await quoteWithPromotion(toPricingLines(cartItems), {
+        shippingAddress,
+        couponCode,
+        customer: { userId: user?.id, email: contactEmail },
+      });
+      // Never charge a different amount than the customer expects
+      if (quote.promotionError) {
+        return res.status(400).json({ message: quote.promotionError });
+      }
+      
+      // Authorize before anything is written so a declined card leaves the
+      // cart and stock untouched. paymentStatus is then driven by webhooks.
+      const paymentProvider = getPaymentProvider();
+      const payment = await paymentProvider.authorize({
+        amount: quote.total,
+        currency: quote.currency,
+        paymentMethod,
+        card,
+      });
       
-      // Create order
-      const order = await storage.createOrder({
-        userId: req.user.id,
-        subtotal: subtotal.toFixed(2),
-        tax: tax.toFixed(2),
-        shipping: shipping.toFixed(2),
-        total: total.toFixed(2),
+      const order = await storage.placeOrder({
+        userId: user?.id ?? null,
+        contactEmail,
+        lookupToken: user ? null : randomBytes(24).toString("base64url"),
+        subtotal: fromMinorUnits(quote.subtotal),
+        discount: fromMinorUnits(quote.discount),
+        promotionCode: quote.promotionCode ?? null,
+        tax: fromMinorUnits(quote.tax),
+        shipping: fromMinorUnits(quote.shipping),
+        total: fromMinorUnits(quote.total),
         shippingAddress,
+        billingAddress,
         paymentMethod,
         status: 'pending',
         paymentStatus: 'pending',
+        paymentIntentId: payment.id,
+        pricing: quote,
+      }, quote.lines.map(line => ({
+        productId: line.productId,
+        quantity: line.quantity,
+        price: fromMinorUnits(line.unitPrice),
+      })), owner, promotion).catch(async (error) => {
+        await paymentProvider.void(payment.id).catch(() => undefined);
+        throw error;
       });
       
-      // Create order items
-      for (const item of cartItems) {
-        await storage.createOrderItem({
-          orderId: order.id,
-          productId: item.productId,
-          quantity: item.quantity,
-          price: item.product.price,
-        });
-        
-        // Update product stock
-        await storage.updateProductStock(item.productId, item.quantity);
+      if (user && addressInput.saveShippingAddress && !("addressId" in addressInput.shippingAddress)) {
+        await storage.createAddress(user.id, { ...shippingAddress, isDefaultShipping: false, isDefaultBilling: false });
       }
       
-      // Clear cart
-      await storage.clearCart(req.user.id);
-      
-      res.status(201).json(order);
+      res.status(201).json({ ...order, payment: await captureAuthorizedPayment(payment) });
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (error instanceof OrderConflictError) {
+        return res.status(409).json({ message: error.message, items: error.items });
+      }
+      if (error instanceof PromotionUnavailableError) {
+        return res.status(409).json({ message: error.message });
+      }
+      if (error instanceof PaymentError) {
+        return res.status(error.status).json({ message: error.message });
+      }
       res.status(500).json({ message: "Failed to create order" });
     }
   });
 
-  app.put("/api/orders/:id/status", requireAdmin, async (req, res) => {
+  // Public order status page for guest orders; the token is the only credential
+  app.get("/api/orders/lookup/:token", async (req, res) => {
+    try {
+      const order = await storage.getOrderByLookupToken(req.params.token);
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+      const statusEvents = await storage.getOrderStatusEvents(order.id);
+      res.json({ ...order, statusEvents: toCustomerTimeline(statusEvents) });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch order" });
+    }
+  });
+
+  // Buy again: re-adds the order's lines that can still be bought, capped at
+  // current stock, and reports the ones that were left out
+  app.post("/api/orders/:id/reorder", requireAuth, cartRateLimit, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const order = await storage.getOrderById(id);
+      if (!order || order.userId !== req.user.id) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+      
+      const owner = cartOwner(req);
+      let added = 0;
+      const skipped: string[] = [];
+      for (const item of order.orderItems) {
+        const product = await storage.getProductById(item.productId);
+        if (!product || !product.isActive || product.stock <= 0) {
+          skipped.push(item.product.name);
+          continue;
+        }
+        const quantity = Math.min(item.quantity, product.stock);
+        await storage.addToCart(owner, product.id, quantity);
+        added += quantity;
+      }
+      res.json({ added, skipped });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to add order to cart" });
+    }
+  });
+
+  // Customers can cancel until the order ships; the lifecycle enforces that
+  app.post("/api/orders/:id/cancel", requireAuth, async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const { status } = req.body;
-      const order = await storage.updateOrderStatus(id, status);
+      const { reason } = z.object({ reason: z.string().max(500).optional() }).parse(req.body ?? {});
+      const existing = await storage.getOrderById(id);
+      if (!existing || existing.userId !== req.user.id) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+      
+      const order = await storage.updateOrderStatus(id, "cancelled", { id: req.user.id, role: "customer" }, reason);
       if (!order) {
         return res.status(404).json({ message: "Order not found" });
       }
+      await releaseOrderPayment(order);
       res.json(order);
     } catch (error) {
-      res.status(500).json({ message: "Failed to update order status" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (error instanceof OrderTransitionError) {
+        return res.status(409).json({ message: "This order can no longer be cancelled" });
+      }
+      res.status(500).json({ message: "Failed to cancel order" });
     }
   });
 
-  // Admin stats
-  app.get("/api/admin/stats", requireAdmin, async (req, res) => {
+  // Returns
+  app.post("/api/orders/:id/returns", requireAuth, async (req, res) => {
     try {
-      const stats = await storage.getOrderStats();
-      res.json(stats);
+      const id = parseInt(req.params.id);
+      const { items, note } = createReturnSchema.parse(req.body);
+      const order = await storage.getOrderById(id);
+      if (!order || order.userId !== req.user.id) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+      if (!RETURNABLE_ORDER_STATUSES.includes(order.status)) {
+        return res.status(409).json({ message: "Only delivered orders can be returned" });
+      }
+      
+      const returnRequest = await storage.createReturnRequest(id, req.user.id, items, note);
+      res.status(201).json(returnRequest);
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch stats" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (error instanceof ReturnRequestError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to create return request" });
+    }
+  });
+
+  app.get("/api/returns", requireAuth, async (req, res) => {
+    try {
+      const returnRequests = await storage.getReturnRequests({ userId: req.user.id });
+      res.json(returnRequests);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch returns" });
+    }
+  });
+
+  app.get("/api/admin/returns", requirePermission("returns:manage"), async (req, res) => {
+    try {
+      const status = req.query.status ? returnStatusSchema.parse(req.query.status) : undefined;
+      const returnRequests = await storage.getReturnRequests({ status });
+      res.json(returnRequests);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to fetch returns" });
+    }
+  });
+
+  // Approve, reject or receive a return, or refund it. Refunds go to the
+  // provider first and default to the value of the returned lines.
+  app.put("/api/admin/returns/:id/status", requirePermission("returns:manage"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { status, adminNote, refundAmount } = updateReturnStatusSchema.parse(req.body);
+      const returnRequest = await storage.getReturnRequestById(id);
+      if (!returnRequest) {
+        return res.status(404).json({ message: "Return not found" });
+      }
+      if (!canTransitionReturn(returnRequest.status, status)) {
+        throw new ReturnTransitionError(returnRequest.status, status);
+      }
+      
+      // The refund defaults to the returned lines' share of what was charged
+      // (see prorateRefund) and never exceeds what is left on the payment, so
+      // earlier returns and admin refunds are accounted for
+      let amount = refundAmount;
+      if (status === "refunded") {
+        const order = await storage.getOrderById(returnRequest.orderId);
+        if (!order?.paymentIntentId) {
+          return res.status(400).json({ message: "This order has no payment to refund" });
+        }
+        const paymentProvider = getPaymentProvider();
+        const payment = await paymentProvider.retrieve(order.paymentIntentId);
+        const refundable = payment.status === "captured" ? payment.amountCaptured - payment.amountRefunded : 0;
+        if (refundable <= 0) {
+          return res.status(400).json({ message: "Nothing is left to refund on this order" });
+        }
+        if (amount !== undefined && amount > refundable) {
+          return res.status(400).json({ message: `Only ${fromMinorUnits(refundable)} can still be refunded` });
+        }
+        
+        const quote = order.pricing ?? {
+          subtotal: toMinorUnits(order.subtotal),
+          discount: toMinorUnits(order.discount),
+          tax: toMinorUnits(order.tax),
+        };
+        const value = returnRequest.items.reduce(
+          (sum, item) => sum + toMinorUnits(item.orderItem.price) * item.quantity, 0);
+        amount ??= Math.min(prorateRefund(quote, value), refundable);
+        
+        // Claim the return before calling the provider so concurrent requests
+        // can't both refund it; the key stops a retried refund charging twice
+        if (!(await storage.claimReturnRefund(id))) {
+          return res.status(409).json({ message: "This return is already being refunded" });
+        }
+        try {
+          await paymentProvider.refund(order.paymentIntentId, amount, `return-${id}`);
+        } catch (error) {
+          await storage.updateReturnStatus(id, "received");
+          throw error;
+        }
+      }
+      
+      const updatedReturn = await storage.updateReturnStatus(id, status, { adminNote, refundAmount: amount });
+      res.json(updatedReturn);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (error instanceof ReturnTransitionError) {
+        return res.status(409).json({ message: error.message });
+      }
+      if (error instanceof PaymentError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to update return" });
+    }
+  });
+
+  app.put("/api/orders/:id/status", requirePermission("orders:update"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { status, note } = updateOrderStatusSchema.parse(req.body);
+      const order = await storage.updateOrderStatus(id, status, { id: req.user.id, role: "admin" }, note);
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+      if (status === "cancelled") {
+        await releaseOrderPayment(order);
+      }
+      res.json(order);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (error instanceof OrderTransitionError) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to update order status" });
+    }
+  });
+
+  // Payments
+  // Completes a 3-DS style challenge. The intent id is only ever returned to
+  // the buyer who placed the order, so it doubles as the credential here.
+  // Cancelled orders are never charged: cancelling voids the open intent, and
+  // a cancellation that lands while the code is checked voids it here.
+  app.post("/api/payments/:intentId/confirm", async (req, res) => {
+    try {
+      const { code } = z.object({ code: z.string().min(1) }).parse(req.body);
+      const order = await storage.getOrderByPaymentIntentId(req.params.intentId);
+      if (!order) {
+        return res.status(404).json({ message: "Payment not found" });
+      }
+      if (order.status === "cancelled") {
+        return res.status(409).json({ message: "This order was cancelled" });
+      }
+      
+      const paymentProvider = getPaymentProvider();
+      const payment = await paymentProvider.confirmChallenge(order.paymentIntentId!, code);
+      const current = await storage.getOrderByPaymentIntentId(payment.id);
+      if (current?.status === "cancelled") {
+        if (payment.status === "authorized") await paymentProvider.void(payment.id);
+        return res.status(409).json({ message: "This order was cancelled" });
+      }
+      res.json(await captureAuthorizedPayment(payment));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (error instanceof PaymentError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to confirm payment" });
+    }
+  });
+
+  app.post("/api/payments/webhook", async (req, res) => {
+    try {
+      if (!verifyWebhookSignature(req.rawBody ?? "", req.get(SIGNATURE_HEADER), getWebhookSecret())) {
+        return res.status(400).json({ message: "Invalid signature" });
+      }
+      
+      const event = req.body as PaymentWebhookEvent;
+      const order = await storage.getOrderByPaymentIntentId(event.data.id);
+      if (!order) {
+        // The provider retries, so this resolves once the order is saved
+        return res.status(404).json({ message: "Order not found" });
+      }
+      
+      // Stale events (ones that would move the payment backwards) are acked
+      // without changing anything
+      const paymentStatus = paymentStatusForEvent(event);
+      const applied = await storage.applyPaymentEvent({
+        eventId: event.id,
+        orderId: order.id,
+        type: event.type,
+        payload: event,
+      }, paymentStatus);
+      
+      const orderUpdate = orderUpdateForPayment[paymentStatus];
+      if (applied && orderUpdate && canTransitionOrder(order.status, orderUpdate.status)) {
+        // The order may have moved on (e.g. been cancelled) since it was read
+        await storage.updateOrderStatus(order.id, orderUpdate.status, SYSTEM_ACTOR, orderUpdate.note).catch((error) => {
+          if (!(error instanceof OrderTransitionError)) throw error;
+        });
+      }
+      res.json({ received: true });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to process webhook" });
+    }
+  });
+
+  app.post("/api/orders/:id/payment/:action", requirePermission("payments:manage"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const action = z.enum(["capture", "void", "refund"]).parse(req.params.action);
+      const { amount } = z.object({ amount: z.number().int().positive().optional() }).parse(req.body ?? {});
+      
+      const order = await storage.getOrderById(id);
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+      if (!order.paymentIntentId) {
+        return res.status(400).json({ message: "This order has no payment to manage" });
+      }
+      
+      const paymentProvider = getPaymentProvider();
+      const payment = action === "capture"
+        ? await paymentProvider.capture(order.paymentIntentId, amount)
+        : action === "void"
+        ? await paymentProvider.void(order.paymentIntentId)
+        : await paymentProvider.refund(order.paymentIntentId, amount);
+      res.json(payment);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (error instanceof PaymentError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to update payment" });
+    }
+  });
+
+  // Admin stats
+  app.get("/api/admin/stats", requirePermission("reports:read"), async (req, res) => {
+    try {
+      const stats = await storage.getOrderStats();
+      res.json(stats);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch stats" });
+    }
+  });
+
+  // Store settings
+  app.get("/api/settings", async (req, res) => {
+    try {
+      const settings = await getStoreSettings();
+      res.json(toPublicSettings(settings));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch settings" });
+    }
+  });
+
+  app.get("/api/admin/settings", requirePermission("settings:manage"), async (req, res) => {
+    try {
+      const settings = await getStoreSettings();
+      res.json(settings);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch settings" });
+    }
+  });
+
+  app.put("/api/admin/settings", requirePermission("settings:manage"), async (req, res) => {
+    try {
+      const validatedData = updateStoreSettingsSchema.parse(req.body);
+      // requirePermission only checks the session once the policy is on, so make
+      // sure whoever turns it on won't lock themselves out
+      if (validatedData.requireAdminTwoFactor && !req.session.twoFactorVerified) {
+        return res.status(409).json({ message: "Set up two-factor authentication on your own account first" });
+      }
+      const settings = await updateStoreSettings(validatedData);
+      res.json(settings);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update settings" });
+    }
+  });
+
+  // Email outbox, filled by the outbox mailer (see server/mailer.ts)
+  app.get("/api/admin/outbox", requirePermission("emails:read"), async (req, res) => {
+    try {
+      const limit = Math.min(parseInt(req.query.limit as string) || 50, 100);
+      const offset = parseInt(req.query.offset as string) || 0;
+      const emails = await storage.getOutboxEmails(limit, offset);
+      res.json(emails);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch emails" });
+    }
+  });
+
+  app.get("/api/admin/outbox/:id", requirePermission("emails:read"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const email = await storage.getOutboxEmailById(id);
+      if (!email) {
+        return res.status(404).json({ message: "Email not found" });
+      }
+      res.json(email);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch email" });
+    }
+  });
+
+  // Team: staff accounts and their roles
+  app.get("/api/admin/staff", requirePermission("users:manage"), async (req, res) => {
+    try {
+      const staff = await storage.getStaffUsers();
+      res.json(staff.map(toStaffMember));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch staff" });
+    }
+  });
+
+  // Assigning "user" takes the account off the team
+  app.put("/api/admin/staff", requirePermission("users:manage"), async (req, res) => {
+    try {
+      const { identifier, role } = assignRoleSchema.parse(req.body);
+      const user = (await storage.getUserByUsername(identifier)) ?? (await storage.getUserByEmail(identifier.toLowerCase()));
+      if (!user) {
+        return res.status(404).json({ message: "No account with that username or email" });
+      }
+      // Keeps the last administrator from removing their own access
+      if (user.id === req.user.id) {
+        return res.status(409).json({ message: "You can't change your own role" });
+      }
+      const updated = await storage.updateUserRole(user.id, role);
+      await audit(req, "user.role_changed", user.id, { from: user.role, to: role });
+      res.json(toStaffMember(updated!));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update role" });
+    }
+  });
+
+  // Customers: user accounts with their orders, sessions, notes and audit log
+  app.get("/api/admin/users", requirePermission("customers:read"), async (req, res) => {
+    try {
+      const query = adminUserQuerySchema.parse(req.query);
+      const result = await storage.getUserSummaries(query);
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to fetch users" });
+    }
+  });
+
+  app.get("/api/admin/users/:id", requirePermission("customers:read"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const user = await storage.getUserSummary(id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      const detail: AdminUserDetail = {
+        user,
+        orders: await storage.getOrders(id, 20, 0),
+        sessions: (await storage.getUserSessions(id)).map(toUserSession),
+        notes: await storage.getUserNotes(id),
+        auditLog: await storage.getAuditLog(id),
+      };
+      res.json(detail);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch user" });
+    }
+  });
+
+  // Disabling also signs the account out everywhere
+  app.post("/api/admin/users/:id/disable", requirePermission("customers:manage"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { reason } = disableUserSchema.parse(req.body);
+      const user = await storage.getUser(id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (user.id === req.user.id) {
+        return res.status(409).json({ message: "You can't disable your own account" });
+      }
+      if (!canManageAccount(req.user.role, user)) {
+        return res.status(403).json({ message: "Only administrators can disable staff accounts" });
+      }
+      if (user.disabledAt) {
+        return res.status(409).json({ message: "This account is already disabled" });
+      }
+
+      await storage.setUserDisabled(id, true);
+      const sessionsEnded = await storage.deleteUserSessions(id);
+      await audit(req, "user.disabled", id, { reason: reason || null, sessionsEnded });
+      res.json(await storage.getUserSummary(id));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to disable user" });
+    }
+  });
+
+  app.post("/api/admin/users/:id/enable", requirePermission("customers:manage"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const user = await storage.getUser(id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (!canManageAccount(req.user.role, user)) {
+        return res.status(403).json({ message: "Only administrators can enable staff accounts" });
+      }
+      if (!user.disabledAt) {
+        return res.status(409).json({ message: "This account is not disabled" });
+      }
+
+      await storage.setUserDisabled(id, false);
+      await audit(req, "user.enabled", id);
+      res.json(await storage.getUserSummary(id));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to enable user" });
+    }
+  });
+
+  // Emails the user a reset link; staff never see or choose the password
+  app.post("/api/admin/users/:id/password-reset", requirePermission("customers:manage"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const user = await storage.getUser(id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (!canManageAccount(req.user.role, user)) {
+        return res.status(403).json({ message: "Only administrators can reset staff passwords" });
+      }
+
+      await sendPasswordResetEmail(user);
+      await audit(req, "user.password_reset_sent", id, { email: user.email });
+      res.json({ message: `A password reset link was sent to ${user.email}` });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to send password reset" });
+    }
+  });
+
+  app.delete("/api/admin/users/:id/sessions", requirePermission("customers:manage"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const user = await storage.getUser(id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (!canManageAccount(req.user.role, user)) {
+        return res.status(403).json({ message: "Only administrators can sign out staff accounts" });
+      }
+
+      const sessionsEnded = await storage.deleteUserSessions(id);
+      await audit(req, "user.sessions_revoked", id, { sessionsEnded });
+      res.sendStatus(204);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to sign out user" });
+    }
+  });
+
+  app.put("/api/admin/users/:id/role", requirePermission("users:manage"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { role } = updateUserRoleSchema.parse(req.body);
+      const user = await storage.getUser(id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (user.id === req.user.id) {
+        return res.status(409).json({ message: "You can't change your own role" });
+      }
+
+      await storage.updateUserRole(id, role);
+      await audit(req, "user.role_changed", id, { from: user.role, to: role });
+      res.json(await storage.getUserSummary(id));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update role" });
+    }
+  });
+
+  app.post("/api/admin/users/:id/notes", requirePermission("customers:manage"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { body } = insertUserNoteSchema.parse(req.body);
+      const user = await storage.getUser(id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (!canManageAccount(req.user.role, user)) {
+        return res.status(403).json({ message: "Only administrators can add notes to staff accounts" });
+      }
+
+      const note = await storage.createUserNote({ userId: id, authorId: req.user.id, body });
+      await audit(req, "user.note_added", id, { noteId: note.id });
+      res.status(201).json({ ...note, author: { id: req.user.id, fullName: req.user.fullName } });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to add note" });
+    }
+  });
+
+  // Promotions
+  app.get("/api/admin/promotions", requirePermission("promotions:manage"), async (req, res) => {
+    try {
+      const promotions = await storage.getPromotions();
+      res.json(promotions);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch promotions" });
+    }
+  });
+
+  app.post("/api/admin/promotions", requirePermission("promotions:manage"), async (req, res) => {
+    try {
+      const validatedData = insertPromotionSchema.parse(req.body);
+      const existing = await storage.getPromotionByCode(validatedData.code);
+      if (existing) {
+        return res.status(400).json({ message: "A promotion with this code already exists" });
+      }
+      const promotion = await storage.createPromotion(validatedData);
+      res.status(201).json(promotion);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create promotion" });
+    }
+  });
+
+  app.put("/api/admin/promotions/:id", requirePermission("promotions:manage"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const validatedData = insertPromotionSchema.parse(req.body);
+      const existing = await storage.getPromotionByCode(validatedData.code);
+      if (existing && existing.id !== id) {
+        return res.status(400).json({ message: "A promotion with this code already exists" });
+      }
+      const promotion = await storage.updatePromotion(id, validatedData);
+      if (!promotion) {
+        return res.status(404).json({ message: "Promotion not found" });
+      }
+      res.json(promotion);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update promotion" });
+    }
+  });
+
+  app.delete("/api/admin/promotions/:id", requirePermission("promotions:manage"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      await storage.deletePromotion(id);
+      res.sendStatus(204);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete promotion" });
+    }
+  });
+
+  app.get("/api/admin/search-synonyms", requirePermission("catalog:manage"), async (req, res) => {
+    try {
+      const synonyms = await storage.getSearchSynonyms();
+      res.json(synonyms);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch search synonyms" });
+    }
+  });
+
+  app.post("/api/admin/search-synonyms", requirePermission("catalog:manage"), async (req, res) => {
+    try {
+      const validatedData = insertSearchSynonymSchema.parse(req.body);
+      const existing = await storage.getSearchSynonymByTerm(validatedData.term);
+      if (existing) {
+        return res.status(400).json({ message: "Synonyms for this term already exist" });
+      }
+      const synonym = await storage.createSearchSynonym(validatedData);
+      res.status(201).json(synonym);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create search synonyms" });
+    }
+  });
+
+  app.put("/api/admin/search-synonyms/:id", requirePermission("catalog:manage"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const validatedData = insertSearchSynonymSchema.parse(req.body);
+      const existing = await storage.getSearchSynonymByTerm(validatedData.term);
+      if (existing && existing.id !== id) {
+        return res.status(400).json({ message: "Synonyms for this term already exist" });
+      }
+      const synonym = await storage.updateSearchSynonym(id, validatedData);
+      if (!synonym) {
+        return res.status(404).json({ message: "Search synonyms not found" });
+      }
+      res.json(synonym);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update search synonyms" });
+    }
+  });
+
+  app.delete("/api/admin/search-synonyms/:id", requirePermission("catalog:manage"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      await storage.deleteSearchSynonym(id);
+      res.sendStatus(204);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete search synonyms" });
+    }
+  });
+
+  app.get("/api/admin/search-insights", requirePermission("catalog:manage"), async (req, res) => {
+    try {
+      const { days } = searchInsightsQuerySchema.parse(req.query);
+      const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+      const insights = await storage.getSearchInsights(since, SEARCH_INSIGHTS_LIMIT);
+      res.json(insights);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to fetch search insights" });
     }
   });
 
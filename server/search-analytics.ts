@@ -0,0 +1,59 @@
+import { createHash } from "crypto";
+import type { Request } from "express";
+import type { SearchClick } from "@shared/schema";
+import { storage } from "./storage";
+import { logError } from "./logger";
+import { tokenize } from "./search";
+
+// Logging of storefront searches and clicks into search_events, for the admin
+// Search insights report and popular query suggestions. Logging never fails
+// the request it belongs to.
+
+// Lowercase words only, so "Wireless  Mouse" and "wireless mouse" count as
+// one query
+export function normalizeSearchQuery(search: string): string {
+  return tokenize(search).join(" ");
+}
+
+// Who searched: the signed-in user, else the client IP, so popular queries can
+// count distinct searchers. Hashed so the log holds neither.
+export function searcherKey(req: Request): string {
+  const searcher = req.isAuthenticated() ? `user:${req.user.id}` : `ip:${req.ip}`;
+  return createHash("sha256").update(searcher).digest("hex").slice(0, 16);
+}
+
+export async function logSearch(search: string, resultCount: number, searcher: string) {
+  const query = normalizeSearchQuery(search);
+  if (!query) return;
+  try {
+    await storage.createSearchEvent({
+      type: "search",
+      query,
+      resultCount,
+      searcherKey: searcher,
+      source: null,
+      productId: null,
+      categoryId: null,
+    });
+  } catch (error) {
+    logError("Failed to log search", "search", error);
+  }
+}
+
+export async function logSearchClick(click: SearchClick) {
+  const query = normalizeSearchQuery(click.query);
+  if (!query) return;
+  try {
+    await storage.createSearchEvent({
+      type: "click",
+      query,
+      resultCount: null,
+      searcherKey: null,
+      source: click.source,
+      productId: click.productId ?? null,
+      categoryId: click.categoryId ?? null,
+    });
+  } catch (error) {
+    logError("Failed to log search click", "search", error);
+  }
+}
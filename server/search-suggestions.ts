@@ -0,0 +1,42 @@
+import type { SearchSuggestions } from "@shared/schema";
+import { storage } from "./storage";
+import { normalizeSearchQuery } from "./search-analytics";
+
+// Search-as-you-type suggestions. The header asks for them on nearly every
+// keystroke, so results are cached in process for a short while.
+
+export const SUGGESTION_LIMIT = 5;
+const CACHE_TTL_MS = 30 * 1000;
+const MAX_CACHED = 500;
+
+// Popular queries come from the searches logged over this many days. A query
+// is only suggested to others once several different searchers (see
+// searcherKey) found products with it, so one shopper's searches aren't shown
+// to everyone.
+const POPULAR_QUERY_DAYS = 30;
+const MIN_POPULAR_SEARCHERS = 3;
+
+const cache = new Map<string, { suggestions: SearchSuggestions; expiresAt: number }>();
+
+export async function getSearchSuggestions(search: string): Promise<SearchSuggestions> {
+  const key = normalizeSearchQuery(search);
+  if (!key) return { products: [], categories: [], queries: [] };
+
+  const now = Date.now();
+  const cached = cache.get(key);
+  if (cached && cached.expiresAt > now) return cached.suggestions;
+
+  const since = new Date(now - POPULAR_QUERY_DAYS * 24 * 60 * 60 * 1000);
+  const [matches, queries] = await Promise.all([
+    storage.getSearchSuggestions(search, SUGGESTION_LIMIT),
+    storage.getPopularSearchQueries(key, since, MIN_POPULAR_SEARCHERS, SUGGESTION_LIMIT),
+  ]);
+  const suggestions = { ...matches, queries };
+  cache.delete(key);
+  if (cache.size >= MAX_CACHED) {
+    // Entries are kept in insertion order, so the first is the oldest
+    cache.delete(cache.keys().next().value!);
+  }
+  cache.set(key, { suggestions, expiresAt: now + CACHE_TTL_MS });
+  return suggestions;
+}
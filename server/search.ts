@@ -0,0 +1,204 @@
+import type { SearchSynonym, ProductHighlight } from "@shared/schema";
+import { HIGHLIGHT_START, HIGHLIGHT_END } from "@shared/search";
+
+// Product search. DatabaseStorage matches the query against
+// product_search_documents with Postgres full-text search and falls back to
+// pg_trgm similarity on names for misspellings. MemStorage uses matchProduct
+// below, which weighs fields the same way (name, then tags, category and
+// description) and orders results the same: text relevance, then name
+// similarity, then newest first.
+
+// ts_headline() options: the whole name with matches marked, and a snippet of
+// the description around them
+export const NAME_HEADLINE_OPTIONS = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_END}, HighlightAll=true`;
+export const SNIPPET_MAX_WORDS = 30;
+export const SNIPPET_HEADLINE_OPTIONS = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_END}, MaxWords=${SNIPPET_MAX_WORDS}, MinWords=15`;
+
+// pg_trgm's default word_similarity_threshold, which the <% operator uses
+export const TRIGRAM_THRESHOLD = 0.6;
+
+// ts_rank()'s default weights for A (name), B (tags), C (category) and D
+// (description)
+const FIELD_WEIGHTS = { name: 1.0, tags: 0.4, category: 0.2, description: 0.1 };
+
+type SearchField = keyof typeof FIELD_WEIGHTS;
+
+// Letters and numbers in any script
+const WORD_PATTERN = new RegExp("[\\p{L}\\p{N}]+", "gu");
+
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().match(WORD_PATTERN) ?? [];
+}
+
+// For each searched word, the words and phrases that count as a match: the
+// word itself followed by every member of a synonym group it belongs to
+export function expandSynonyms(words: string[], synonyms: SearchSynonym[]): string[][] {
+  return words.map((word) => {
+    const alternatives = new Set([word]);
+    for (const entry of synonyms) {
+      const group = [entry.term, ...entry.synonyms];
+      if (group.includes(word)) group.forEach((alternative) => alternatives.add(alternative));
+    }
+    return Array.from(alternatives);
+  });
+}
+
+// Input for to_tsquery(): alternatives are OR-ed and words AND-ed, and the last
+// word typed is matched as a prefix since it may be incomplete. Words only
+// contain letters and numbers, so none of them is tsquery syntax.
+export function toTsQuery(alternatives: string[][]): string {
+  return alternatives
+    .map((group, index) => {
+      const isLastWord = index === alternatives.length - 1;
+      const options = group.map((phrase, position) => {
+        const text = tokenize(phrase).join(" <-> ");
+        return isLastWord && position === 0 ? `${text}:*` : text;
+      });
+      return `(${options.join(" | ")})`;
+    })
+    .join(" & ");
+}
+
+// A rough stand-in for the english stemmer, enough that "headphone" matches
+// "headphones" and "charging" matches "charger" in memory
+function stem(word: string): string {
+  if (word.length <= 3) return word;
+  for (const [suffix, replacement] of [["ies", "y"], ["ing", ""], ["ers", ""], ["er", ""], ["es", ""], ["ed", ""], ["s", ""], ["e", ""]]) {
+    if (word.endsWith(suffix) && word.length - suffix.length >= 3) {
+      return word.slice(0, -suffix.length) + replacement;
+    }
+  }
+  return word;
+}
+
+type Word = { text: string; start: number; end: number };
+
+function words(text: string): Word[] {
+  return Array.from(text.matchAll(WORD_PATTERN), (match) => ({
+    text: match[0].toLowerCase(),
+    start: match.index!,
+    end: match.index! + match[0].length,
+  }));
+}
+
+// Positions in the field where the phrase occurs; the typed word also matches
+// as a prefix
+function findPhrase(fieldWords: Word[], phrase: string[], prefix: boolean): number[] {
+  const positions: number[] = [];
+  for (let i = 0; i + phrase.length <= fieldWords.length; i++) {
+    const matches = phrase.every((word, offset) => {
+      const candidate = fieldWords[i + offset].text;
+      return stem(candidate) === stem(word) || (prefix && candidate.startsWith(word));
+    });
+    if (matches) {
+      for (let offset = 0; offset < phrase.length; offset++) positions.push(i + offset);
+    }
+  }
+  return positions;
+}
+
+function trigrams(text: string): Set<string> {
+  const result = new Set<string>();
+  for (const word of tokenize(text)) {
+    const padded = `  ${word} `;
+    for (let i = 0; i + 3 <= padded.length; i++) result.add(padded.slice(i, i + 3));
+  }
+  return result;
+}
+
+// Same idea as pg_trgm's word_similarity(): how much of the search's trigrams
+// appear in the name
+export function wordSimilarity(search: string, text: string): number {
+  const searchTrigrams = trigrams(search);
+  if (searchTrigrams.size === 0) return 0;
+  const textTrigrams = trigrams(text);
+  let shared = 0;
+  searchTrigrams.forEach((trigram) => {
+    if (textTrigrams.has(trigram)) shared++;
+  });
+  return shared / searchTrigrams.size;
+}
+
+function markWords(text: string, fieldWords: Word[], positions: Set<number>, from: number, to: number): string {
+  let result = "";
+  // Text before the first word and after the last is kept when the run
+  // reaches that end
+  let cursor = from === 0 ? 0 : fieldWords[from].start;
+  for (let i = from; i < to; i++) {
+    const word = fieldWords[i];
+    result += text.slice(cursor, word.start);
+    result += positions.has(i) ? `${HIGHLIGHT_START}${text.slice(word.start, word.end)}${HIGHLIGHT_END}` : text.slice(word.start, word.end);
+    cursor = word.end;
+  }
+  return to === fieldWords.length ? result + text.slice(cursor) : result;
+}
+
+export type SearchableProduct = {
+  name: string;
+  description: string | null;
+  tags: string[] | null;
+  category: string | null;
+};
+
+export type ProductMatch = {
+  relevance: number; // 0 when only the name's spelling is close
+  similarity: number;
+  highlight: ProductHighlight;
+};
+
+export function matchProduct(product: SearchableProduct, search: string, alternatives: string[][]): ProductMatch | null {
+  const fields: Record<SearchField, Word[]> = {
+    name: words(product.name),
+    tags: words((product.tags ?? []).join(" ")),
+    category: words(product.category ?? ""),
+    description: words(product.description ?? ""),
+  };
+  const matched: Record<"name" | "description", Set<number>> = { name: new Set(), description: new Set() };
+
+  let relevance = 0;
+  let matchesEveryWord = true;
+  alternatives.forEach((group, index) => {
+    const prefix = index === alternatives.length - 1;
+    let best = 0;
+    for (const field of Object.keys(FIELD_WEIGHTS) as SearchField[]) {
+      group.forEach((phrase, position) => {
+        const found = findPhrase(fields[field], tokenize(phrase), prefix && position === 0);
+        if (found.length === 0) return;
+        best = Math.max(best, FIELD_WEIGHTS[field]);
+        if (field === "name" || field === "description") found.forEach((i) => matched[field].add(i));
+      });
+    }
+    if (best === 0) matchesEveryWord = false;
+    relevance += best;
+  });
+
+  const similarity = wordSimilarity(search, product.name);
+  if (!matchesEveryWord) {
+    if (similarity < TRIGRAM_THRESHOLD) return null;
+    relevance = 0;
+    matched.name.clear();
+    matched.description.clear();
+  }
+
+  return {
+    relevance,
+    similarity,
+    highlight: {
+      name: markWords(product.name, fields.name, matched.name, 0, fields.name.length),
+      snippet: product.description === null ? null : snippet(product.description, fields.description, matched.description),
+    },
+  };
+}
+
+// Like ts_headline(): a run of words starting a little before the first match,
+// or the start of the text when nothing in it matched
+function snippet(text: string, fieldWords: Word[], positions: Set<number>): string {
+  const firstMatch = positions.size > 0 ? Math.min(...Array.from(positions)) : 0;
+  const from = Math.max(0, Math.min(firstMatch - 5, fieldWords.length - SNIPPET_MAX_WORDS));
+  const to = Math.min(fieldWords.length, from + SNIPPET_MAX_WORDS);
+  return markWords(text, fieldWords, positions, from, to);
+}
+
+export function compareMatches(a: ProductMatch, b: ProductMatch): number {
+  return b.relevance - a.relevance || b.similarity - a.similarity;
+}
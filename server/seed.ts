@@ -0,0 +1,117 @@
+import type { InsertCategory, InsertProduct } from "@shared/schema";
+import { storage } from "./storage";
+
+// Demo catalog for local development and review apps, loaded with
+// `npm run cli -- seed`. Seeding is idempotent: categories and products are
+// matched by slug and only the missing ones are created.
+
+type SeedProduct = Omit<InsertProduct, "categoryId" | "imageUrl"> & { category: string };
+
+const DEMO_CATEGORIES: InsertCategory[] = [
+  { name: "Electronics", slug: "electronics", description: "Phones, audio and accessories", icon: "smartphone" },
+  { name: "Home & Kitchen", slug: "home-kitchen", description: "Everything for the home", icon: "home" },
+  { name: "Sports & Outdoors", slug: "sports-outdoors", description: "Gear for staying active", icon: "dumbbell" },
+  { name: "Books", slug: "books", description: "Fiction and non-fiction", icon: "book" },
+];
+
+const DEMO_PRODUCTS: SeedProduct[] = [
+  {
+    category: "electronics",
+    name: "Wireless Noise-Cancelling Headphones",
+    slug: "wireless-noise-cancelling-headphones",
+    description: "Over-ear headphones with active noise cancellation and 30 hours of battery life.",
+    price: "199.99",
+    originalPrice: "249.99",
+    stock: 25,
+    isFeatured: true,
+  },
+  {
+    category: "electronics",
+    name: "Smartphone Fast Charger",
+    slug: "smartphone-fast-charger",
+    description: "65W USB-C charger with two ports.",
+    price: "39.99",
+    stock: 80,
+  },
+  {
+    category: "electronics",
+    name: "Bluetooth Speaker",
+    slug: "bluetooth-speaker",
+    description: "Waterproof portable speaker with 12 hours of playback.",
+    price: "59.99",
+    originalPrice: "79.99",
+    stock: 40,
+    isFeatured: true,
+  },
+  {
+    category: "home-kitchen",
+    name: "Stainless Steel Cookware Set",
+    slug: "stainless-steel-cookware-set",
+    description: "Ten-piece set of pots and pans for every hob, including induction.",
+    price: "149.00",
+    stock: 15,
+  },
+  {
+    category: "home-kitchen",
+    name: "Pour-Over Coffee Maker",
+    slug: "pour-over-coffee-maker",
+    description: "Glass carafe with a reusable stainless steel filter.",
+    price: "34.50",
+    stock: 60,
+    isFeatured: true,
+  },
+  {
+    category: "sports-outdoors",
+    name: "Yoga Mat",
+    slug: "yoga-mat",
+    description: "Non-slip 6mm mat with a carrying strap.",
+    price: "29.99",
+    stock: 100,
+  },
+  {
+    category: "sports-outdoors",
+    name: "Insulated Water Bottle",
+    slug: "insulated-water-bottle",
+    description: "Keeps drinks cold for 24 hours or hot for 12.",
+    price: "24.99",
+    stock: 120,
+  },
+  {
+    category: "books",
+    name: "The Pragmatic Programmer",
+    slug: "the-pragmatic-programmer",
+    description: "20th anniversary edition.",
+    price: "44.99",
+    stock: 30,
+  },
+];
+
+function placeholderImage(name: string): string {
+  return `https://placehold.co/600x600?text=${encodeURIComponent(name)}`;
+}
+
+export async function seedDemoCatalog(): Promise<{ categories: number; products: number }> {
+  const existingCategories = await storage.getCategories();
+  const categoryIds = new Map(existingCategories.map((category) => [category.slug, category.id]));
+
+  let categoriesCreated = 0;
+  for (const category of DEMO_CATEGORIES) {
+    if (categoryIds.has(category.slug)) continue;
+    const created = await storage.createCategory(category);
+    categoryIds.set(created.slug, created.id);
+    categoriesCreated++;
+  }
+
+  let productsCreated = 0;
+  for (const { category, ...product } of DEMO_PRODUCTS) {
+    if (await storage.getProductBySlug(product.slug)) continue;
+    await storage.createProduct({
+      ...product,
+      categoryId: categoryIds.get(category) ?? null,
+      imageUrl: placeholderImage(product.name),
+    });
+    productsCreated++;
+  }
+
+  return { categories: categoriesCreated, products: productsCreated };
+}
@@ -0,0 +1,35 @@
+import type { User, PublicUser, StaffMember, OrderCustomer } from "@shared/schema";
+
+// Every response that includes a user goes through one of these, so what
+// leaves the server is an explicit list of fields rather than the whole row.
+
+export function toPublicUser(user: User): PublicUser {
+  return {
+    id: user.id,
+    username: user.username,
+    email: user.email,
+    fullName: user.fullName,
+    role: user.role,
+    emailVerifiedAt: user.emailVerifiedAt,
+    createdAt: user.createdAt,
+  };
+}
+
+export function toStaffMember(user: User): StaffMember {
+  return {
+    id: user.id,
+    username: user.username,
+    email: user.email,
+    fullName: user.fullName,
+    role: user.role,
+  };
+}
+
+export function toOrderCustomer(user: User): OrderCustomer {
+  return {
+    id: user.id,
+    username: user.username,
+    fullName: user.fullName,
+    email: user.email,
+  };
+}
@@ -0,0 +1,40 @@
+import type { StoreSettings, UpdateStoreSettings, PublicStoreSettings } from "@shared/schema";
+import type { PricingRules } from "@shared/pricing";
+import { storage } from "./storage";
+
+// Store settings are read on every quote and order, so they are cached in
+// process and only reloaded after an update goes through this module.
+let cachedSettings: StoreSettings | undefined;
+
+export async function getStoreSettings(): Promise<StoreSettings> {
+  if (!cachedSettings) {
+    cachedSettings = await storage.getStoreSettings();
+  }
+  return cachedSettings;
+}
+
+export async function updateStoreSettings(settings: UpdateStoreSettings): Promise<StoreSettings> {
+  cachedSettings = await storage.updateStoreSettings(settings);
+  return cachedSettings;
+}
+
+export async function getPricingRules(): Promise<PricingRules> {
+  const settings = await getStoreSettings();
+  return {
+    currency: settings.currency,
+    taxRateBps: settings.taxRateBps,
+    freeShippingThreshold: settings.freeShippingThreshold,
+    flatShippingFee: settings.flatShippingFee,
+  };
+}
+
+// The subset of settings the storefront needs to display prices.
+export function toPublicSettings(settings: StoreSettings): PublicStoreSettings {
+  return {
+    currency: settings.currency,
+    currencySymbol: settings.currencySymbol,
+    taxRateBps: settings.taxRateBps,
+    freeShippingThreshold: settings.freeShippingThreshold,
+    flatShippingFee: settings.flatShippingFee,
+  };
+}
@@ -5,26 +5,346 @@ import {
   cartItems, 
   orders, 
   orderItems,
+  orderStatusEvents,
+  returnRequests,
+  returnItems,
+  storeSettings,
+  paymentEvents,
+  promotions,
+  promotionRedemptions,
+  reviews,
+  wishlistItems,
+  addresses,
+  userTokens,
+  emailOutbox,
+  twoFactorCredentials,
+  userNotes,
+  auditLog,
+  productSearchDocuments,
+  searchSynonyms,
+  searchEvents,
   type User, 
   type InsertUser,
+  type UserToken,
+  type InsertUserToken,
+  type UserTokenPurpose,
+  type TwoFactorCredential,
+  type AdminUserQuery,
+  type UserSummary,
+  type UserNote,
+  type InsertUserNote,
+  type UserNoteWithAuthor,
+  type AuditLogEntry,
+  type InsertAuditLogEntry,
+  type AuditLogEntryWithActor,
+  type OutboxEmail,
+  type InsertOutboxEmail,
   type Category,
   type InsertCategory,
   type Product,
   type InsertProduct,
+  type ProductQuery,
+  type ProductListing,
+  type ProductFacets,
+  type SearchSuggestions,
+  type SearchEvent,
+  type InsertSearchEvent,
+  type SearchQueryStats,
+  type SearchTrendDay,
+  type SearchInsights,
+  type SearchSynonym,
+  type InsertSearchSynonym,
   type CartItem,
-  type InsertCartItem,
+  type WishlistItem,
+  type InsertWishlistItem,
+  type Address,
+  type InsertAddress,
   type Order,
   type InsertOrder,
   type OrderItem,
-  type InsertOrderItem
+  type OrderStatus,
+  type OrderActor,
+  type OrderStatusEvent,
+  type OrderStatusEventWithActor,
+  type ReturnRequest,
+  type ReturnRequestWithItems,
+  type ReturnItem,
+  type ReturnLine,
+  type ReturnStatus,
+  type StoreSettings,
+  type PaymentEvent,
+  type InsertPaymentEvent,
+  type PaymentStatus,
+  type Promotion,
+  type InsertPromotion,
+  type PromotionRedemption,
+  type Review,
+  type InsertReview,
+  type ReviewStatus,
+  type ReviewSort,
+  type ReviewWithAuthor,
+  type UpdateStoreSettings,
 } from "@shared/schema";
+import { DEFAULT_PRICING_RULES, type PromotionCustomer } from "@shared/pricing";
+import { PRICE_RANGES, RATING_THRESHOLDS, TAG_FACET_LIMIT } from "@shared/search";
+import { canTransitionOrder } from "@shared/order-status";
+import { canTransitionReturn } from "@shared/returns";
+import { toPostalAddress } from "@shared/address";
+import type { UserRole } from "@shared/permissions";
 import { db } from "./db";
-import { eq, and, desc, asc, sql } from "drizzle-orm";
+import { canTransitionPayment } from "./payments";
+import {
+  tokenize,
+  expandSynonyms,
+  toTsQuery,
+  matchProduct,
+  compareMatches,
+  wordSimilarity,
+  TRIGRAM_THRESHOLD,
+  type ProductMatch,
+  NAME_HEADLINE_OPTIONS,
+  SNIPPET_HEADLINE_OPTIONS,
+} from "./search";
+import { eq, and, or, ne, gt, gte, lt, desc, asc, sql, inArray, count, countDistinct, max, isNull, isNotNull, type SQL } from "drizzle-orm";
 import session from "express-session";
 import connectPg from "connect-pg-simple";
-import { pool } from "./db";
+import createMemoryStore from "memorystore";
+import { pool, isDatabaseConfigured } from "./db";
 
 const PostgresSessionStore = connectPg(session);
+const MemoryStore = createMemoryStore(session);
+
+export type CartOwner =
+  | { userId: number; sessionId?: undefined }
+  | { sessionId: string; userId?: undefined };
+
+function cartOwnerCondition(owner: CartOwner) {
+  return owner.userId !== undefined
+    ? eq(cartItems.userId, owner.userId)
+    : eq(cartItems.sessionId, owner.sessionId);
+}
+
+export type OrderLine = {
+  productId: number;
+  quantity: number;
+  price: string;
+};
+
+export type OrderConflict = {
+  productId: number;
+  name?: string;
+  requested: number;
+  available: number;
+  reason: "not_found" | "inactive" | "invalid_quantity" | "insufficient_stock";
+};
+
+// Thrown by deleteProduct when orders refer to the product. Deactivating it
+// hides it from the storefront instead.
+export class ProductInUseError extends Error {
+  status = 409;
+
+  constructor() {
+    super("This product has been ordered and can't be deleted; deactivate it instead");
+    this.name = "ProductInUseError";
+  }
+}
+
+// Thrown by placeOrder when one or more lines cannot be fulfilled. Nothing is
+// written when this is raised.
+export class OrderConflictError extends Error {
+  status = 409;
+
+  constructor(public items: OrderConflict[]) {
+    super("Some items in your cart are no longer available");
+    this.name = "OrderConflictError";
+  }
+}
+
+// Thrown by updateOrderStatus for moves the order lifecycle does not allow.
+export class OrderTransitionError extends Error {
+  status = 409;
+
+  constructor(public from: string, public to: OrderStatus) {
+    super(`Cannot change order status from ${from} to ${to}`);
+    this.name = "OrderTransitionError";
+  }
+}
+
+// Thrown by createReturnRequest when a line is not part of the order or more
+// units are requested than remain returnable. Nothing is written.
+export class ReturnRequestError extends Error {
+  status = 400;
+
+  constructor(message: string) {
+    super(message);
+    this.name = "ReturnRequestError";
+  }
+}
+
+// Thrown by updateReturnStatus for moves the return lifecycle does not allow.
+export class ReturnTransitionError extends Error {
+  status = 409;
+
+  constructor(public from: string, public to: ReturnStatus) {
+    super(`Cannot change return status from ${from} to ${to}`);
+    this.name = "ReturnTransitionError";
+  }
+}
+
+export type ReturnQuery = {
+  userId?: number;
+  orderId?: number;
+  status?: ReturnStatus;
+};
+
+export type ReturnUpdate = {
+  adminNote?: string;
+  refundAmount?: number;
+};
+
+// Thrown by placeOrder when the promotion reached its global or per-customer
+// usage limit after the cart was quoted. Nothing is written when this is raised.
+export class PromotionUnavailableError extends Error {
+  status = 409;
+
+  constructor(message: string) {
+    super(message);
+    this.name = "PromotionUnavailableError";
+  }
+}
+
+export type ReviewQuery = {
+  productId?: number;
+  status?: ReviewStatus;
+  sort?: ReviewSort;
+  limit?: number;
+  offset?: number;
+};
+
+// Rebuilds the search documents of the matching products from their current
+// name, tags, category and description
+async function refreshProductSearchDocuments(condition: SQL): Promise<number> {
+  const refreshed = await db
+    .insert(productSearchDocuments)
+    .select(
+      db
+        .select({
+          productId: products.id,
+          document: sql<string>`setweight(to_tsvector('english', ${products.name}), 'A')
+            || setweight(to_tsvector('english', coalesce(array_to_string(${products.tags}, ' '), '')), 'B')
+            || setweight(to_tsvector('english', coalesce(${categories.name}, '')), 'C')
+            || setweight(to_tsvector('english', coalesce(${products.description}, '')), 'D')`.as("document"),
+        })
+        .from(products)
+        .leftJoin(categories, eq(categories.id, products.categoryId))
+        .where(condition),
+    )
+    .onConflictDoUpdate({
+      target: productSearchDocuments.productId,
+      set: { document: sql`excluded.document` },
+    })
+    .returning({ productId: productSearchDocuments.productId });
+  return refreshed.length;
+}
+
+const countWhere = (condition: SQL | undefined) => sql<number>`count(*) filter (where ${condition})`.mapWith(Number);
+
+// Every day from since's through today (UTC), zero on days without events,
+// and the totals over them
+function searchTrend(since: Date, days: SearchTrendDay[]): Pick<SearchInsights, "totals" | "trend"> {
+  const byDate = new Map(days.map(day => [day.date, day]));
+  const trend: SearchTrendDay[] = [];
+  const today = new Date().toISOString().slice(0, 10);
+  for (const date = new Date(since.toISOString().slice(0, 10)); date.toISOString().slice(0, 10) <= today; date.setUTCDate(date.getUTCDate() + 1)) {
+    const key = date.toISOString().slice(0, 10);
+    trend.push(byDate.get(key) ?? { date: key, searches: 0, zeroResultSearches: 0, clicks: 0 });
+  }
+  const totals = { searches: 0, zeroResultSearches: 0, clicks: 0 };
+  for (const day of trend) {
+    totals.searches += day.searches;
+    totals.zeroResultSearches += day.zeroResultSearches;
+    totals.clicks += day.clicks;
+  }
+  return { totals, trend };
+}
+
+// Filters of a product listing that have their own facet
+type ProductFilter = "category" | "price" | "rating" | "tags" | "inStock" | "onSale";
+
+const productOnSale = sql`${products.originalPrice} > ${products.price}`;
+
+const isOnSale = (product: Product) =>
+  product.originalPrice !== null && parseFloat(product.originalPrice) > parseFloat(product.price);
+
+// The in-memory side of the listing filters; search and "featured" are
+// applied before this
+function matchesProductFilters(product: Product, query: ProductQuery, except?: ProductFilter): boolean {
+  const price = parseFloat(product.price);
+  if (query.categoryId && except !== "category" && product.categoryId !== query.categoryId) return false;
+  if (except !== "price") {
+    if (query.minPrice !== undefined && price < query.minPrice) return false;
+    if (query.maxPrice !== undefined && price >= query.maxPrice) return false;
+  }
+  if (query.minRating !== undefined && except !== "rating" && parseFloat(product.rating ?? "0") < query.minRating) return false;
+  if (query.inStock && except !== "inStock" && product.stock <= 0) return false;
+  if (query.onSale && except !== "onSale" && !isOnSale(product)) return false;
+  if (query.tags?.length && except !== "tags" && !query.tags.some(tag => product.tags?.includes(tag))) return false;
+  return true;
+}
+
+function redemptionCustomerCondition(customer: PromotionCustomer) {
+  const sameEmail = sql`lower(${promotionRedemptions.email}) = ${customer.email.toLowerCase()}`;
+  return customer.userId ? or(eq(promotionRedemptions.userId, customer.userId), sameEmail) : sameEmail;
+}
+
+function findOrderConflicts(lines: OrderLine[], lockedProducts: Product[]): OrderConflict[] {
+  const conflicts: OrderConflict[] = [];
+  for (const line of lines) {
+    const product = lockedProducts.find(p => p.id === line.productId);
+    if (!product) {
+      conflicts.push({ productId: line.productId, requested: line.quantity, available: 0, reason: "not_found" });
+    } else if (!product.isActive) {
+      conflicts.push({ productId: product.id, name: product.name, requested: line.quantity, available: 0, reason: "inactive" });
+    } else if (!Number.isInteger(line.quantity) || line.quantity <= 0) {
+      // A negative line would lower the charge and add stock back
+      conflicts.push({ productId: product.id, name: product.name, requested: line.quantity, available: product.stock, reason: "invalid_quantity" });
+    } else if (product.stock < line.quantity) {
+      conflicts.push({ productId: product.id, name: product.name, requested: line.quantity, available: product.stock, reason: "insufficient_stock" });
+    }
+  }
+  return conflicts;
+}
+
+// Validates requested return lines against the order's items and the
+// quantities already covered by other (non-rejected) returns.
+function checkReturnLines(
+  lines: ReturnLine[],
+  items: OrderItem[],
+  returned: Array<{ orderItemId: number; quantity: number }>,
+) {
+  for (const line of lines) {
+    const item = items.find(item => item.id === line.orderItemId);
+    if (!item) {
+      throw new ReturnRequestError(`Item ${line.orderItemId} is not part of this order`);
+    }
+    const alreadyReturned = returned
+      .filter(entry => entry.orderItemId === item.id)
+      .reduce((sum, entry) => sum + entry.quantity, 0);
+    const requested = lines
+      .filter(other => other.orderItemId === item.id)
+      .reduce((sum, other) => sum + other.quantity, 0);
+    if (alreadyReturned + requested > item.quantity) {
+      throw new ReturnRequestError(`Only ${item.quantity - alreadyReturned} of item ${item.id} can still be returned`);
+    }
+  }
+}
+
+// passport keeps the signed-in user's id in the session
+export type StoredSession = {
+  sid: string;
+  expiresAt: Date | null;
+  data: session.SessionData & { passport?: { user?: number } };
+};
 
 export interface IStorage {
   // Users
@@ -32,6 +352,41 @@ export interface IStorage {
   getUserByUsername(username: string): Promise<User | undefined>;
   getUserByEmail(email: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  updateUserPassword(id: number, password: string): Promise<User | undefined>;
+  // Only marks the user verified while `email` is still their address
+  markEmailVerified(id: number, email: string): Promise<User | undefined>;
+  // Every user whose role isn't "user", by username
+  getStaffUsers(): Promise<User[]>;
+  updateUserRole(id: number, role: UserRole): Promise<User | undefined>;
+  getUsersByIds(ids: number[]): Promise<User[]>;
+  // Search matches username, email or name
+  getUserSummaries(query: AdminUserQuery): Promise<{ users: UserSummary[]; total: number }>;
+  getUserSummary(id: number): Promise<UserSummary | undefined>;
+  setUserDisabled(id: number, disabled: boolean): Promise<User | undefined>;
+  
+  // Staff notes and the audit log of a user, newest first
+  getUserNotes(userId: number): Promise<UserNoteWithAuthor[]>;
+  createUserNote(note: InsertUserNote): Promise<UserNote>;
+  getAuditLog(targetUserId: number, limit?: number): Promise<AuditLogEntryWithActor[]>;
+  createAuditLogEntry(entry: InsertAuditLogEntry): Promise<AuditLogEntry>;
+  
+  // Email tokens. Creating a token invalidates the user's earlier unused
+  // tokens for the same purpose; consuming one marks it used and returns it
+  // only if it was unused and unexpired, so each link works once.
+  createUserToken(token: InsertUserToken): Promise<UserToken>;
+  consumeUserToken(tokenHash: string, purpose: UserTokenPurpose): Promise<UserToken | undefined>;
+  
+  // Two-factor authentication. Starting an enrollment replaces any earlier
+  // unfinished one. The consume/record methods are atomic and return false
+  // when the recovery code was already used or the TOTP step was not newer
+  // than the last accepted one.
+  getTwoFactorCredential(userId: number): Promise<TwoFactorCredential | undefined>;
+  startTwoFactorEnrollment(userId: number, secret: string): Promise<TwoFactorCredential>;
+  enableTwoFactor(userId: number, recoveryCodeHashes: string[]): Promise<TwoFactorCredential | undefined>;
+  replaceRecoveryCodes(userId: number, recoveryCodeHashes: string[]): Promise<void>;
+  consumeRecoveryCode(userId: number, codeHash: string): Promise<boolean>;
+  recordTotpStep(userId: number, step: number): Promise<boolean>;
+  deleteTwoFactorCredential(userId: number): Promise<void>;
   
   // Categories
   getCategories(): Promise<Category[]>;
@@ -41,28 +396,108 @@ export interface IStorage {
   deleteCategory(id: number): Promise<void>;
   
   // Products
-  getProducts(limit?: number, offset?: number, categoryId?: number, search?: string): Promise<Product[]>;
+  // One page of active products matching the filters, with the total and the
+  // facet counts. Searches are ranked and highlighted (see server/search.ts).
+  getProductListing(query: ProductQuery): Promise<ProductListing>;
+  // Active products and categories matching what has been typed so far,
+  // best match first
+  getSearchSuggestions(search: string, limit: number): Promise<Omit<SearchSuggestions, "queries">>;
   getProductById(id: number): Promise<Product | undefined>;
   getProductBySlug(slug: string): Promise<Product | undefined>;
   getFeaturedProducts(limit?: number): Promise<Product[]>;
   createProduct(product: InsertProduct): Promise<Product>;
   updateProduct(id: number, product: Partial<InsertProduct>): Promise<Product | undefined>;
+  // Removes the product and any cart lines for it. Throws ProductInUseError
+  // if it has been ordered.
   deleteProduct(id: number): Promise<void>;
   updateProductStock(id: number, quantity: number): Promise<void>;
+  // Rebuilds every product's search document, returning how many there were
+  reindexProductSearch(): Promise<number>;
+
+  // Search synonyms
+  getSearchSynonyms(): Promise<SearchSynonym[]>;
+  getSearchSynonymByTerm(term: string): Promise<SearchSynonym | undefined>;
+  createSearchSynonym(synonym: InsertSearchSynonym): Promise<SearchSynonym>;
+  updateSearchSynonym(id: number, synonym: InsertSearchSynonym): Promise<SearchSynonym | undefined>;
+  deleteSearchSynonym(id: number): Promise<void>;
+
+  // Search analytics
+  createSearchEvent(event: InsertSearchEvent): Promise<SearchEvent>;
+  // Queries other than the prefix itself that start with it and were
+  // searched with results by at least minSearchers distinct searchers since
+  // the date, most searchers first
+  getPopularSearchQueries(prefix: string, since: Date, minSearchers: number, limit: number): Promise<string[]>;
+  // The Search insights report for events since the date; limit applies to
+  // each list of queries
+  getSearchInsights(since: Date, limit: number): Promise<SearchInsights>;
   
   // Cart
-  getCartItems(userId: number): Promise<Array<CartItem & { product: Product }>>;
-  addToCart(cartItem: InsertCartItem): Promise<CartItem>;
-  updateCartItem(id: number, quantity: number): Promise<CartItem | undefined>;
-  removeFromCart(id: number): Promise<void>;
-  clearCart(userId: number): Promise<void>;
+  getCartItems(owner: CartOwner): Promise<Array<CartItem & { product: Product }>>;
+  addToCart(owner: CartOwner, productId: number, quantity: number): Promise<CartItem>;
+  updateCartItem(owner: CartOwner, id: number, quantity: number): Promise<CartItem | undefined>;
+  removeFromCart(owner: CartOwner, id: number): Promise<void>;
+  clearCart(owner: CartOwner): Promise<void>;
+  // Moves a guest cart into the user's cart, summing quantities of lines for
+  // the same product and capping them at the available stock.
+  mergeGuestCart(sessionId: string, userId: number): Promise<void>;
+  
+  // Address book. Lookups and changes are scoped to the owning user. The
+  // first address saved becomes the default for both shipping and billing,
+  // and setting a default clears the user's previous one.
+  getAddresses(userId: number): Promise<Address[]>;
+  getAddressById(id: number, userId: number): Promise<Address | undefined>;
+  createAddress(userId: number, address: InsertAddress): Promise<Address>;
+  updateAddress(id: number, userId: number, address: InsertAddress): Promise<Address | undefined>;
+  deleteAddress(id: number, userId: number): Promise<void>;
+  
+  // Wishlist
+  getWishlistItems(userId: number): Promise<Array<WishlistItem & { product: Product }>>;
+  addToWishlist(wishlistItem: InsertWishlistItem): Promise<WishlistItem>;
+  removeFromWishlist(userId: number, productId: number): Promise<void>;
   
   // Orders
   getOrders(userId?: number, limit?: number, offset?: number): Promise<Array<Order & { orderItems: Array<OrderItem & { product: Product }> }>>;
   getOrderById(id: number): Promise<Order & { orderItems: Array<OrderItem & { product: Product }> } | undefined>;
-  createOrder(order: InsertOrder): Promise<Order>;
-  createOrderItem(orderItem: InsertOrderItem): Promise<OrderItem>;
-  updateOrderStatus(id: number, status: string): Promise<Order | undefined>;
+  getOrderByLookupToken(token: string): Promise<Order & { orderItems: Array<OrderItem & { product: Product }> } | undefined>;
+  // Creates the order and its items, decrements stock and clears the buyer's
+  // cart as one atomic operation. Throws OrderConflictError if any line
+  // references a missing/inactive product or exceeds the available stock.
+  // When a promotion is given its redemption is recorded in the same
+  // transaction, throwing PromotionUnavailableError if a usage limit is hit.
+  placeOrder(order: InsertOrder, lines: OrderLine[], cartOwner: CartOwner, promotion?: Promotion): Promise<Order>;
+  // Attach guest orders to an account. claimGuestOrder only succeeds while the
+  // order is still unowned; claimGuestOrders takes every guest order placed
+  // with the given contact email and returns how many were claimed.
+  claimGuestOrder(id: number, userId: number): Promise<Order | undefined>;
+  claimGuestOrders(userId: number, email: string): Promise<number>;
+  // Moves the order along the lifecycle in shared/order-status.ts and records
+  // the change in its timeline. Throws OrderTransitionError for invalid moves.
+  // Cancelling puts the order's items back in stock.
+  updateOrderStatus(id: number, status: OrderStatus, actor: OrderActor, note?: string): Promise<Order | undefined>;
+  getOrderStatusEvents(orderId: number): Promise<OrderStatusEventWithActor[]>;
+  
+  // Returns
+  // Creates a return for lines of the order. Throws ReturnRequestError if a
+  // line is not on the order or exceeds what has not already been returned.
+  createReturnRequest(orderId: number, userId: number, lines: ReturnLine[], note?: string): Promise<ReturnRequestWithItems>;
+  getReturnRequests(query?: ReturnQuery): Promise<ReturnRequestWithItems[]>;
+  getReturnRequestById(id: number): Promise<ReturnRequestWithItems | undefined>;
+  // Moves the return along the lifecycle in shared/returns.ts. Throws
+  // ReturnTransitionError for invalid moves; marking an approved return
+  // received restocks.
+  updateReturnStatus(id: number, status: ReturnStatus, update?: ReturnUpdate): Promise<ReturnRequest | undefined>;
+  // Moves a received return to refunding in one conditional update, so only
+  // one caller goes on to refund it. Returns undefined when it is missing or
+  // not received (e.g. another refund holds it).
+  claimReturnRefund(id: number): Promise<ReturnRequest | undefined>;
+  
+  // Payments
+  getOrderByPaymentIntentId(paymentIntentId: string): Promise<Order | undefined>;
+  // Records a provider webhook event and moves the order's paymentStatus in one
+  // step, checking canTransitionPayment against the locked order. Returns
+  // false, changing nothing, if the event was already applied or would move
+  // the payment backwards.
+  applyPaymentEvent(event: InsertPaymentEvent, paymentStatus: PaymentStatus): Promise<boolean>;
   
   // Admin stats
   getOrderStats(): Promise<{
@@ -72,9 +507,49 @@ export interface IStorage {
     totalCustomers: number;
   }>;
   
+  // Reviews
+  getReviews(query: ReviewQuery): Promise<{ reviews: ReviewWithAuthor[]; total: number }>;
+  getReviewById(id: number): Promise<Review | undefined>;
+  getUserReviewForProduct(userId: number, productId: number): Promise<Review | undefined>;
+  hasPurchasedProduct(userId: number, productId: number): Promise<boolean>;
+  createReview(review: InsertReview): Promise<Review>;
+  // Changing status or deleting recomputes the product's rating and reviewCount
+  updateReviewStatus(id: number, status: ReviewStatus): Promise<Review | undefined>;
+  deleteReview(id: number): Promise<void>;
+  recomputeProductRating(productId: number): Promise<void>;
+  // Recomputes every product, returning how many there were
+  recomputeAllProductRatings(): Promise<number>;
+  
+  // Promotions
+  getPromotions(): Promise<Promotion[]>;
+  getPromotionById(id: number): Promise<Promotion | undefined>;
+  getPromotionByCode(code: string): Promise<Promotion | undefined>;
+  createPromotion(promotion: InsertPromotion): Promise<Promotion>;
+  updatePromotion(id: number, promotion: InsertPromotion): Promise<Promotion | undefined>;
+  deletePromotion(id: number): Promise<void>;
+  countCustomerRedemptions(promotionId: number, customer: PromotionCustomer): Promise<number>;
+  
+  // Email outbox
+  createOutboxEmail(email: InsertOutboxEmail): Promise<OutboxEmail>;
+  getOutboxEmails(limit?: number, offset?: number): Promise<OutboxEmail[]>;
+  getOutboxEmailById(id: number): Promise<OutboxEmail | undefined>;
+  
+  // Store settings
+  getStoreSettings(): Promise<StoreSettings>;
+  updateStoreSettings(settings: UpdateStoreSettings): Promise<StoreSettings>;
+  
   sessionStore: session.Store;
+  // Deletes expired sessions, then the guest cart lines of sessions that no
+  // longer exist
+  purgeExpiredSessions(): Promise<{ sessions: number; guestCartItems: number }>;
+  // Unexpired sessions signed in as the user. Deleting them signs the user
+  // out everywhere; it returns how many there were.
+  getUserSessions(userId: number): Promise<StoredSession[]>;
+  deleteUserSessions(userId: number): Promise<number>;
 }
 
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
 export class DatabaseStorage implements IStorage {
   sessionStore: session.Store;
 
@@ -105,6 +580,170 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  async updateUserPassword(id: number, password: string): Promise<User | undefined> {
+    const [user] = await db
+      .update(users)
+      .set({ password })
+      .where(eq(users.id, id))
+      .returning();
+    return user || undefined;
+  }
+
+  async getStaffUsers(): Promise<User[]> {
+    return await db.select().from(users).where(ne(users.role, "user")).orderBy(asc(users.username));
+  }
+
+  async updateUserRole(id: number, role: UserRole): Promise<User | undefined> {
+    const [user] = await db
+      .update(users)
+      .set({ role })
+      .where(eq(users.id, id))
+      .returning();
+    return user || undefined;
+  }
+
+  async getUsersByIds(ids: number[]): Promise<User[]> {
+    if (ids.length === 0) return [];
+    return await db.select().from(users).where(inArray(users.id, ids));
+  }
+
+  private userSummaries() {
+    return db
+      .select({
+        id: users.id,
+        username: users.username,
+        email: users.email,
+        fullName: users.fullName,
+        role: users.role,
+        emailVerifiedAt: users.emailVerifiedAt,
+        disabledAt: users.disabledAt,
+        createdAt: users.createdAt,
+        orderCount: sql<number>`count(${orders.id})::int`,
+        lifetimeValue: sql<string>`coalesce(sum(${orders.total}) filter (where ${orders.paymentStatus} = 'paid'), 0)::text`,
+      })
+      .from(users)
+      .leftJoin(orders, eq(orders.userId, users.id))
+      .groupBy(users.id);
+  }
+
+  async getUserSummaries(query: AdminUserQuery): Promise<{ users: UserSummary[]; total: number }> {
+    const conditions = [];
+    if (query.search) {
+      const pattern = `%${query.search}%`;
+      conditions.push(or(
+        sql`${users.username} ILIKE ${pattern}`,
+        sql`${users.email} ILIKE ${pattern}`,
+        sql`${users.fullName} ILIKE ${pattern}`,
+      ));
+    }
+    if (query.role) {
+      conditions.push(eq(users.role, query.role));
+    }
+    if (query.status) {
+      conditions.push(query.status === "disabled" ? isNotNull(users.disabledAt) : isNull(users.disabledAt));
+    }
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+    const orderBy = {
+      newest: [desc(users.createdAt), desc(users.id)],
+      oldest: [asc(users.createdAt), asc(users.id)],
+      name: [asc(users.fullName), asc(users.id)],
+      orders: [desc(sql`count(${orders.id})`), desc(users.id)],
+      lifetime_value: [desc(sql`coalesce(sum(${orders.total}) filter (where ${orders.paymentStatus} = 'paid'), 0)`), desc(users.id)],
+    }[query.sort];
+
+    const summaries = await this.userSummaries()
+      .where(where)
+      .orderBy(...orderBy)
+      .limit(query.limit)
+      .offset(query.offset);
+    const [{ total }] = await db.select({ total: count() }).from(users).where(where);
+    return { users: summaries, total };
+  }
+
+  async getUserSummary(id: number): Promise<UserSummary | undefined> {
+    const [summary] = await this.userSummaries().where(eq(users.id, id));
+    return summary || undefined;
+  }
+
+  async setUserDisabled(id: number, disabled: boolean): Promise<User | undefined> {
+    const [user] = await db
+      .update(users)
+      .set({ disabledAt: disabled ? new Date() : null })
+      .where(eq(users.id, id))
+      .returning();
+    return user || undefined;
+  }
+
+  async getUserNotes(userId: number): Promise<UserNoteWithAuthor[]> {
+    const rows = await db
+      .select({ note: userNotes, author: { id: users.id, fullName: users.fullName } })
+      .from(userNotes)
+      .leftJoin(users, eq(userNotes.authorId, users.id))
+      .where(eq(userNotes.userId, userId))
+      .orderBy(desc(userNotes.createdAt), desc(userNotes.id));
+    return rows.map(row => ({ ...row.note, author: row.author }));
+  }
+
+  async createUserNote(note: InsertUserNote): Promise<UserNote> {
+    const [created] = await db.insert(userNotes).values(note).returning();
+    return created;
+  }
+
+  async getAuditLog(targetUserId: number, limit: number = 50): Promise<AuditLogEntryWithActor[]> {
+    const rows = await db
+      .select({ entry: auditLog, actor: { id: users.id, fullName: users.fullName } })
+      .from(auditLog)
+      .leftJoin(users, eq(auditLog.actorId, users.id))
+      .where(eq(auditLog.targetUserId, targetUserId))
+      .orderBy(desc(auditLog.createdAt), desc(auditLog.id))
+      .limit(limit);
+    return rows.map(row => ({ ...row.entry, actor: row.actor }));
+  }
+
+  async createAuditLogEntry(entry: InsertAuditLogEntry): Promise<AuditLogEntry> {
+    const [created] = await db.insert(auditLog).values(entry).returning();
+    return created;
+  }
+
+  async markEmailVerified(id: number, email: string): Promise<User | undefined> {
+    const [user] = await db
+      .update(users)
+      .set({ emailVerifiedAt: new Date() })
+      .where(and(eq(users.id, id), eq(users.email, email)))
+      .returning();
+    return user || undefined;
+  }
+
+  async createUserToken(token: InsertUserToken): Promise<UserToken> {
+    return await db.transaction(async (tx) => {
+      await tx
+        .update(userTokens)
+        .set({ usedAt: new Date() })
+        .where(and(
+          eq(userTokens.userId, token.userId),
+          eq(userTokens.purpose, token.purpose),
+          isNull(userTokens.usedAt),
+        ));
+      const [userToken] = await tx.insert(userTokens).values(token).returning();
+      return userToken;
+    });
+  }
+
+  async consumeUserToken(tokenHash: string, purpose: UserTokenPurpose): Promise<UserToken | undefined> {
+    const [userToken] = await db
+      .update(userTokens)
+      .set({ usedAt: new Date() })
+      .where(and(
+        eq(userTokens.tokenHash, tokenHash),
+        eq(userTokens.purpose, purpose),
+        isNull(userTokens.usedAt),
+        gt(userTokens.expiresAt, new Date()),
+      ))
+      .returning();
+    return userToken || undefined;
+  }
+
   async getCategories(): Promise<Category[]> {
     return await db.select().from(categories).orderBy(asc(categories.name));
   }
@@ -128,6 +767,9 @@ export class DatabaseStorage implements IStorage {
       .set(category)
       .where(eq(categories.id, id))
       .returning();
+    if (updatedCategory) {
+      await refreshProductSearchDocuments(eq(products.categoryId, id));
+    }
     return updatedCategory || undefined;
   }
 
@@ -135,22 +777,181 @@ export class DatabaseStorage implements IStorage {
     await db.delete(categories).where(eq(categories.id, id));
   }
 
-  async getProducts(limit: number = 20, offset: number = 0, categoryId?: number, search?: string): Promise<Product[]> {
-    let conditions = [eq(products.isActive, true)];
-    
-    if (categoryId) {
-      conditions.push(eq(products.categoryId, categoryId));
-    }
-    
-    if (search) {
-      conditions.push(sql`${products.name} ILIKE ${`%${search}%`}`);
-    }
-    
-    return await db.select().from(products)
-      .where(and(...conditions))
-      .orderBy(desc(products.createdAt))
-      .limit(limit)
-      .offset(offset);
+  // The tsquery for a search, the condition matching products by text or a
+  // close name, and the relevance order. Undefined without any words.
+  private async productSearch(search: string) {
+    const words = tokenize(search);
+    if (words.length === 0) return undefined;
+    const tsQuery = sql`to_tsquery('english', ${toTsQuery(expandSynonyms(words, await this.getSearchSynonyms()))})`;
+    const textMatches = db
+      .select({ productId: productSearchDocuments.productId })
+      .from(productSearchDocuments)
+      .where(sql`${productSearchDocuments.document} @@ ${tsQuery}`);
+    return {
+      tsQuery,
+      condition: or(inArray(products.id, textMatches), sql`${search} <% ${products.name}`)!,
+      // Products only found through a misspelling rank below every text match
+      relevance: [
+        desc(sql`coalesce((select ts_rank(${productSearchDocuments.document}, ${tsQuery}) from ${productSearchDocuments}
+          where ${productSearchDocuments.productId} = ${products.id} and ${productSearchDocuments.document} @@ ${tsQuery}), 0)`),
+        desc(sql`word_similarity(${search}, ${products.name})`),
+      ],
+    };
+  }
+
+  async getProductListing(query: ProductQuery): Promise<ProductListing> {
+    const search = query.search ? await this.productSearch(query.search) : undefined;
+    const tsQuery = search?.tsQuery;
+
+    const conditions = (except?: ProductFilter) => {
+      const conditions: Array<SQL | undefined> = [eq(products.isActive, true)];
+      if (search) {
+        conditions.push(search.condition);
+      }
+      if (query.featured) {
+        conditions.push(eq(products.isFeatured, true));
+      }
+      if (query.categoryId && except !== "category") {
+        conditions.push(eq(products.categoryId, query.categoryId));
+      }
+      if (except !== "price") {
+        if (query.minPrice !== undefined) conditions.push(gte(products.price, String(query.minPrice)));
+        if (query.maxPrice !== undefined) conditions.push(lt(products.price, String(query.maxPrice)));
+      }
+      if (query.minRating !== undefined && except !== "rating") {
+        conditions.push(gte(products.rating, String(query.minRating)));
+      }
+      if (query.inStock && except !== "inStock") {
+        conditions.push(gt(products.stock, 0));
+      }
+      if (query.onSale && except !== "onSale") {
+        conditions.push(productOnSale);
+      }
+      if (query.tags?.length && except !== "tags") {
+        conditions.push(sql`${products.tags} && array[${sql.join(query.tags.map(tag => sql`${tag}`), sql`, `)}]::text[]`);
+      }
+      return and(...conditions);
+    };
+
+    const sort = query.sort ?? (search ? "relevance" : "newest");
+    const order = (() => {
+      switch (sort) {
+        case "relevance":
+          return search?.relevance ?? [];
+        case "featured":
+          return [desc(products.isFeatured)];
+        case "price_asc":
+          return [asc(products.price)];
+        case "price_desc":
+          return [desc(products.price)];
+        case "rating":
+          return [desc(sql`coalesce(${products.rating}, 0)`), desc(sql`coalesce(${products.reviewCount}, 0)`)];
+        case "best_selling":
+          return [desc(sql`coalesce((select sum(${orderItems.quantity}) from ${orderItems}
+            inner join ${orders} on ${orders.id} = ${orderItems.orderId}
+            where ${orderItems.productId} = ${products.id} and ${orders.paymentStatus} = 'paid'), 0)`)];
+        case "newest":
+          return [];
+      }
+    })();
+    const orderBy = [...order, desc(products.createdAt), desc(products.id)];
+
+    const where = conditions();
+    const [productList, [{ total }], facets] = await Promise.all([
+      tsQuery
+        ? db
+            .select({
+              product: products,
+              name: sql<string>`ts_headline('english', ${products.name}, ${tsQuery}, ${NAME_HEADLINE_OPTIONS})`,
+              snippet: sql<string | null>`case when ${products.description} is null then null
+                else ts_headline('english', ${products.description}, ${tsQuery}, ${SNIPPET_HEADLINE_OPTIONS}) end`,
+            })
+            .from(products)
+            .where(where)
+            .orderBy(...orderBy)
+            .limit(query.limit)
+            .offset(query.offset)
+            .then(rows => rows.map(({ product, name, snippet }) => ({ ...product, highlight: { name, snippet } })))
+        : db.select().from(products).where(where).orderBy(...orderBy).limit(query.limit).offset(query.offset),
+      db.select({ total: count() }).from(products).where(where),
+      this.getProductFacets(conditions),
+    ]);
+    return { products: productList, total, facets };
+  }
+
+  private async getProductFacets(conditions: (except?: ProductFilter) => SQL | undefined): Promise<ProductFacets> {
+    const productTags = db
+      .select({ tag: sql<string>`unnest(${products.tags})`.as("tag") })
+      .from(products)
+      .where(conditions("tags"))
+      .as("product_tags");
+
+    const [categoryCounts, tagCounts, [priceCounts], [ratingCounts], [{ inStock }], [{ onSale }]] = await Promise.all([
+      db
+        .select({ categoryId: products.categoryId, count: count() })
+        .from(products)
+        .where(and(conditions("category"), isNotNull(products.categoryId)))
+        .groupBy(products.categoryId),
+      db
+        .select({ tag: productTags.tag, count: count() })
+        .from(productTags)
+        .groupBy(productTags.tag)
+        .orderBy(desc(count()), asc(productTags.tag))
+        .limit(TAG_FACET_LIMIT),
+      db
+        .select(Object.fromEntries(PRICE_RANGES.map(({ min, max }, index) => [
+          `range${index}`,
+          countWhere(and(gte(products.price, String(min)), max !== null ? lt(products.price, String(max)) : undefined)),
+        ])))
+        .from(products)
+        .where(conditions("price")),
+      db
+        .select(Object.fromEntries(RATING_THRESHOLDS.map(minRating => [
+          `rating${minRating}`,
+          countWhere(gte(products.rating, String(minRating))),
+        ])))
+        .from(products)
+        .where(conditions("rating")),
+      db.select({ inStock: count() }).from(products).where(and(conditions("inStock"), gt(products.stock, 0))),
+      db.select({ onSale: count() }).from(products).where(and(conditions("onSale"), productOnSale)),
+    ]);
+
+    return {
+      categories: categoryCounts.map(({ categoryId, count }) => ({ categoryId: categoryId!, count })),
+      tags: tagCounts,
+      priceRanges: PRICE_RANGES.map((range, index) => ({ ...range, count: priceCounts[`range${index}`] })),
+      ratings: RATING_THRESHOLDS.map(minRating => ({ minRating, count: ratingCounts[`rating${minRating}`] })),
+      inStock,
+      onSale,
+    };
+  }
+
+  async getSearchSuggestions(search: string, limit: number): Promise<Omit<SearchSuggestions, "queries">> {
+    const productSearch = await this.productSearch(search);
+    const [productSuggestions, categorySuggestions] = await Promise.all([
+      productSearch
+        ? db
+            .select({
+              id: products.id,
+              name: products.name,
+              price: products.price,
+              originalPrice: products.originalPrice,
+              imageUrl: products.imageUrl,
+              highlight: sql<string>`ts_headline('english', ${products.name}, ${productSearch.tsQuery}, ${NAME_HEADLINE_OPTIONS})`,
+            })
+            .from(products)
+            .where(and(eq(products.isActive, true), productSearch.condition))
+            .orderBy(...productSearch.relevance, desc(products.createdAt), desc(products.id))
+            .limit(limit)
+        : [],
+      db
+        .select({ id: categories.id, name: categories.name, slug: categories.slug })
+        .from(categories)
+        .where(or(sql`${categories.name} ILIKE ${`%${search}%`}`, sql`${search} <% ${categories.name}`))
+        .orderBy(asc(categories.name))
+        .limit(limit),
+    ]);
+    return { products: productSuggestions, categories: categorySuggestions };
   }
 
   async getProductById(id: number): Promise<Product | undefined> {
@@ -177,6 +978,7 @@ export class DatabaseStorage implements IStorage {
       .insert(products)
       .values(product)
       .returning();
+    await refreshProductSearchDocuments(eq(products.id, newProduct.id));
     return newProduct;
   }
 
@@ -186,11 +988,19 @@ export class DatabaseStorage implements IStorage {
       .set(product)
       .where(eq(products.id, id))
       .returning();
+    if (updatedProduct) {
+      await refreshProductSearchDocuments(eq(products.id, id));
+    }
     return updatedProduct || undefined;
   }
 
   async deleteProduct(id: number): Promise<void> {
-    await db.delete(products).where(eq(products.id, id));
+    await db.transaction(async (tx) => {
+      const [ordered] = await tx.select({ id: orderItems.id }).from(orderItems).where(eq(orderItems.productId, id)).limit(1);
+      if (ordered) throw new ProductInUseError();
+      await tx.delete(cartItems).where(eq(cartItems.productId, id));
+      await tx.delete(products).where(eq(products.id, id));
+    });
   }
 
   async updateProductStock(id: number, quantity: number): Promise<void> {
@@ -200,33 +1010,135 @@ export class DatabaseStorage implements IStorage {
       .where(eq(products.id, id));
   }
 
-  async getCartItems(userId: number): Promise<Array<CartItem & { product: Product }>> {
+  async reindexProductSearch(): Promise<number> {
+    return await refreshProductSearchDocuments(sql`true`);
+  }
+
+  async getSearchSynonyms(): Promise<SearchSynonym[]> {
+    return await db.select().from(searchSynonyms).orderBy(asc(searchSynonyms.term));
+  }
+
+  async getSearchSynonymByTerm(term: string): Promise<SearchSynonym | undefined> {
+    const [synonym] = await db.select().from(searchSynonyms).where(eq(searchSynonyms.term, term.toLowerCase()));
+    return synonym || undefined;
+  }
+
+  async createSearchSynonym(synonym: InsertSearchSynonym): Promise<SearchSynonym> {
+    const [newSynonym] = await db
+      .insert(searchSynonyms)
+      .values(synonym)
+      .returning();
+    return newSynonym;
+  }
+
+  async updateSearchSynonym(id: number, synonym: InsertSearchSynonym): Promise<SearchSynonym | undefined> {
+    const [updatedSynonym] = await db
+      .update(searchSynonyms)
+      .set(synonym)
+      .where(eq(searchSynonyms.id, id))
+      .returning();
+    return updatedSynonym || undefined;
+  }
+
+  async deleteSearchSynonym(id: number): Promise<void> {
+    await db.delete(searchSynonyms).where(eq(searchSynonyms.id, id));
+  }
+
+  async createSearchEvent(event: InsertSearchEvent): Promise<SearchEvent> {
+    const [created] = await db.insert(searchEvents).values(event).returning();
+    return created;
+  }
+
+  async getPopularSearchQueries(prefix: string, since: Date, minSearchers: number, limit: number): Promise<string[]> {
+    const searchers = countDistinct(searchEvents.searcherKey);
+    const rows = await db
+      .select({ query: searchEvents.query })
+      .from(searchEvents)
+      .where(and(
+        eq(searchEvents.type, "search"),
+        gt(searchEvents.resultCount, 0),
+        gte(searchEvents.createdAt, since),
+        sql`starts_with(${searchEvents.query}, ${prefix})`,
+        ne(searchEvents.query, prefix),
+      ))
+      .groupBy(searchEvents.query)
+      .having(gte(searchers, minSearchers))
+      .orderBy(desc(searchers), asc(searchEvents.query))
+      .limit(limit);
+    return rows.map(row => row.query);
+  }
+
+  async getSearchInsights(since: Date, limit: number): Promise<SearchInsights> {
+    const recent = gte(searchEvents.createdAt, since);
+    const isSearch = eq(searchEvents.type, "search");
+    const isZeroResult = and(isSearch, eq(searchEvents.resultCount, 0));
+    const isClick = eq(searchEvents.type, "click");
+    const searches = countWhere(isSearch);
+    const day = sql<string>`to_char(${searchEvents.createdAt}, 'YYYY-MM-DD')`;
+
+    const [topQueries, zeroResultQueries, days] = await Promise.all([
+      db
+        .select({
+          query: searchEvents.query,
+          searches,
+          zeroResultSearches: countWhere(isZeroResult),
+          resultClicks: countWhere(and(isClick, eq(searchEvents.source, "results"))),
+          suggestionClicks: countWhere(and(isClick, eq(searchEvents.source, "suggestions"))),
+        })
+        .from(searchEvents)
+        .where(recent)
+        .groupBy(searchEvents.query)
+        .having(gt(searches, 0))
+        .orderBy(desc(searches), asc(searchEvents.query))
+        .limit(limit),
+      db
+        .select({ query: searchEvents.query, searches: count(), lastSearchedAt: max(searchEvents.createdAt) })
+        .from(searchEvents)
+        .where(and(recent, isZeroResult))
+        .groupBy(searchEvents.query)
+        .orderBy(desc(count()), desc(max(searchEvents.createdAt)))
+        .limit(limit),
+      db
+        .select({ date: day, searches, zeroResultSearches: countWhere(isZeroResult), clicks: countWhere(isClick) })
+        .from(searchEvents)
+        .where(recent)
+        .groupBy(day),
+    ]);
+
+    return {
+      ...searchTrend(since, days),
+      topQueries: topQueries.map(stats => ({ ...stats, clickThroughRate: stats.resultClicks / stats.searches })),
+      zeroResultQueries: zeroResultQueries.map(({ lastSearchedAt, ...stats }) => ({ ...stats, lastSearchedAt: lastSearchedAt! })),
+    };
+  }
+
+  async getCartItems(owner: CartOwner): Promise<Array<CartItem & { product: Product }>> {
     return await db
       .select()
       .from(cartItems)
       .leftJoin(products, eq(cartItems.productId, products.id))
-      .where(eq(cartItems.userId, userId))
+      .where(cartOwnerCondition(owner))
       .then(rows => rows.map(row => ({
         ...row.cart_items,
         product: row.products!
       })));
   }
 
-  async addToCart(cartItem: InsertCartItem): Promise<CartItem> {
+  async addToCart(owner: CartOwner, productId: number, quantity: number): Promise<CartItem> {
     // Check if item already exists in cart
     const [existingItem] = await db
       .select()
       .from(cartItems)
       .where(and(
-        eq(cartItems.userId, cartItem.userId),
-        eq(cartItems.productId, cartItem.productId)
+        cartOwnerCondition(owner),
+        eq(cartItems.productId, productId)
       ));
 
     if (existingItem) {
       // Update quantity
       const [updatedItem] = await db
         .update(cartItems)
-        .set({ quantity: (existingItem.quantity || 0) + (cartItem.quantity || 1) })
+        .set({ quantity: (existingItem.quantity || 0) + quantity })
         .where(eq(cartItems.id, existingItem.id))
         .returning();
       return updatedItem;
@@ -234,27 +1146,161 @@ export class DatabaseStorage implements IStorage {
       // Create new cart item
       const [newItem] = await db
         .insert(cartItems)
-        .values(cartItem)
+        .values({ userId: owner.userId, sessionId: owner.sessionId, productId, quantity })
         .returning();
       return newItem;
     }
   }
 
-  async updateCartItem(id: number, quantity: number): Promise<CartItem | undefined> {
+  async updateCartItem(owner: CartOwner, id: number, quantity: number): Promise<CartItem | undefined> {
     const [updatedItem] = await db
       .update(cartItems)
       .set({ quantity })
-      .where(eq(cartItems.id, id))
+      .where(and(eq(cartItems.id, id), cartOwnerCondition(owner)))
       .returning();
     return updatedItem || undefined;
   }
 
-  async removeFromCart(id: number): Promise<void> {
-    await db.delete(cartItems).where(eq(cartItems.id, id));
+  async removeFromCart(owner: CartOwner, id: number): Promise<void> {
+    await db.delete(cartItems).where(and(eq(cartItems.id, id), cartOwnerCondition(owner)));
+  }
+
+  async clearCart(owner: CartOwner): Promise<void> {
+    await db.delete(cartItems).where(cartOwnerCondition(owner));
+  }
+
+  async mergeGuestCart(sessionId: string, userId: number): Promise<void> {
+    await db.transaction(async (tx) => {
+      const guestItems = await tx
+        .select()
+        .from(cartItems)
+        .innerJoin(products, eq(cartItems.productId, products.id))
+        .where(eq(cartItems.sessionId, sessionId));
+
+      for (const { cart_items: guestItem, products: product } of guestItems) {
+        const [existingItem] = await tx
+          .select()
+          .from(cartItems)
+          .where(and(eq(cartItems.userId, userId), eq(cartItems.productId, guestItem.productId)));
+
+        const quantity = Math.min((existingItem?.quantity || 0) + guestItem.quantity, product.stock);
+        if (quantity <= 0) continue; // out of stock, nothing to carry over
+
+        if (existingItem) {
+          await tx.update(cartItems).set({ quantity }).where(eq(cartItems.id, existingItem.id));
+        } else {
+          await tx.insert(cartItems).values({ userId, productId: guestItem.productId, quantity });
+        }
+      }
+
+      await tx.delete(cartItems).where(eq(cartItems.sessionId, sessionId));
+    });
+  }
+
+  async getWishlistItems(userId: number): Promise<Array<WishlistItem & { product: Product }>> {
+    return await db
+      .select()
+      .from(wishlistItems)
+      .innerJoin(products, eq(wishlistItems.productId, products.id))
+      .where(eq(wishlistItems.userId, userId))
+      .orderBy(desc(wishlistItems.createdAt))
+      .then(rows => rows.map(row => ({
+        ...row.wishlist_items,
+        product: row.products
+      })));
+  }
+
+  async addToWishlist(wishlistItem: InsertWishlistItem): Promise<WishlistItem> {
+    // Adding the same product twice is a no-op
+    const [existingItem] = await db
+      .select()
+      .from(wishlistItems)
+      .where(and(
+        eq(wishlistItems.userId, wishlistItem.userId),
+        eq(wishlistItems.productId, wishlistItem.productId)
+      ));
+    if (existingItem) return existingItem;
+
+    const [newItem] = await db
+      .insert(wishlistItems)
+      .values(wishlistItem)
+      .returning();
+    return newItem;
+  }
+
+  async removeFromWishlist(userId: number, productId: number): Promise<void> {
+    await db
+      .delete(wishlistItems)
+      .where(and(eq(wishlistItems.userId, userId), eq(wishlistItems.productId, productId)));
+  }
+
+  async getAddresses(userId: number): Promise<Address[]> {
+    return await db
+      .select()
+      .from(addresses)
+      .where(eq(addresses.userId, userId))
+      .orderBy(desc(addresses.isDefaultShipping), desc(addresses.createdAt));
+  }
+
+  async getAddressById(id: number, userId: number): Promise<Address | undefined> {
+    const [address] = await db
+      .select()
+      .from(addresses)
+      .where(and(eq(addresses.id, id), eq(addresses.userId, userId)));
+    return address || undefined;
+  }
+
+  async createAddress(userId: number, address: InsertAddress): Promise<Address> {
+    return await db.transaction(async (tx) => {
+      const [{ saved }] = await tx
+        .select({ saved: count() })
+        .from(addresses)
+        .where(eq(addresses.userId, userId));
+      const isFirst = saved === 0;
+      const values = {
+        ...address,
+        isDefaultShipping: address.isDefaultShipping || isFirst,
+        isDefaultBilling: address.isDefaultBilling || isFirst,
+      };
+      await this.clearDefaultAddresses(tx, userId, values);
+
+      const [newAddress] = await tx
+        .insert(addresses)
+        .values({ ...values, userId })
+        .returning();
+      return newAddress;
+    });
+  }
+
+  async updateAddress(id: number, userId: number, address: InsertAddress): Promise<Address | undefined> {
+    return await db.transaction(async (tx) => {
+      await this.clearDefaultAddresses(tx, userId, address);
+      const [updatedAddress] = await tx
+        .update(addresses)
+        .set({ ...address, updatedAt: new Date() })
+        .where(and(eq(addresses.id, id), eq(addresses.userId, userId)))
+        .returning();
+      return updatedAddress || undefined;
+    });
+  }
+
+  async deleteAddress(id: number, userId: number): Promise<void> {
+    await db
+      .delete(addresses)
+      .where(and(eq(addresses.id, id), eq(addresses.userId, userId)));
   }
 
-  async clearCart(userId: number): Promise<void> {
-    await db.delete(cartItems).where(eq(cartItems.userId, userId));
+  private async clearDefaultAddresses(
+    tx: Transaction,
+    userId: number,
+    address: Pick<InsertAddress, "isDefaultShipping" | "isDefaultBilling">,
+  ) {
+    if (address.isDefaultShipping) {
+      await tx.update(addresses).set({ isDefaultShipping: false }).where(eq(addresses.userId, userId));
+    }
+    if (address.isDefaultBilling) {
+      await tx.update(addresses).set({ isDefaultBilling: false }).where(eq(addresses.userId, userId));
+    }
   }
 
   async getOrders(userId?: number, limit: number = 20, offset: number = 0): Promise<Array<Order & { orderItems: Array<OrderItem & { product: Product }> }>> {
@@ -317,48 +1363,330 @@ export class DatabaseStorage implements IStorage {
     };
   }
 
-  async createOrder(order: InsertOrder): Promise<Order> {
-    const [newOrder] = await db
-      .insert(orders)
-      .values(order)
-      .returning();
-    return newOrder;
+  async getOrderByLookupToken(token: string): Promise<Order & { orderItems: Array<OrderItem & { product: Product }> } | undefined> {
+    const [order] = await db
+      .select({ id: orders.id })
+      .from(orders)
+      .where(eq(orders.lookupToken, token));
+    return order ? await this.getOrderById(order.id) : undefined;
   }
 
-  async createOrderItem(orderItem: InsertOrderItem): Promise<OrderItem> {
-    const [newOrderItem] = await db
-      .insert(orderItems)
-      .values(orderItem)
-      .returning();
-    return newOrderItem;
+  async placeOrder(order: InsertOrder, lines: OrderLine[], cartOwner: CartOwner, promotion?: Promotion): Promise<Order> {
+    return await db.transaction(async (tx) => {
+      // Lock the product rows (in id order, to avoid deadlocks between
+      // concurrent checkouts) so stock cannot change until we commit.
+      const lockedProducts = await tx
+        .select()
+        .from(products)
+        .where(inArray(products.id, lines.map(line => line.productId)))
+        .orderBy(asc(products.id))
+        .for("update");
+
+      const conflicts = findOrderConflicts(lines, lockedProducts);
+      if (conflicts.length > 0) {
+        throw new OrderConflictError(conflicts);
+      }
+
+      if (promotion) {
+        // The update locks the promotion row, so concurrent redemptions of the
+        // same code are serialized until this transaction commits.
+        const [redeemed] = await tx
+          .update(promotions)
+          .set({ usageCount: sql`${promotions.usageCount} + 1` })
+          .where(and(
+            eq(promotions.id, promotion.id),
+            or(isNull(promotions.usageLimit), sql`${promotions.usageCount} < ${promotions.usageLimit}`),
+          ))
+          .returning();
+        if (!redeemed) {
+          throw new PromotionUnavailableError("This code has reached its usage limit");
+        }
+
+        if (promotion.perCustomerLimit !== null) {
+          const [{ redemptions }] = await tx
+            .select({ redemptions: count() })
+            .from(promotionRedemptions)
+            .where(and(
+              eq(promotionRedemptions.promotionId, promotion.id),
+              redemptionCustomerCondition({ userId: order.userId, email: order.contactEmail ?? "" }),
+            ));
+          if (redemptions >= promotion.perCustomerLimit) {
+            throw new PromotionUnavailableError("You have already used this code");
+          }
+        }
+      }
+
+      const [newOrder] = await tx
+        .insert(orders)
+        .values(order)
+        .returning();
+
+      await tx.insert(orderStatusEvents).values({
+        orderId: newOrder.id,
+        fromStatus: null,
+        toStatus: newOrder.status,
+        actorId: newOrder.userId,
+        actorRole: "customer",
+      });
+
+      if (promotion) {
+        await tx.insert(promotionRedemptions).values({
+          promotionId: promotion.id,
+          orderId: newOrder.id,
+          userId: order.userId ?? null,
+          email: (order.contactEmail ?? "").toLowerCase(),
+        });
+      }
+
+      for (const line of lines) {
+        await tx.insert(orderItems).values({
+          orderId: newOrder.id,
+          productId: line.productId,
+          quantity: line.quantity,
+          price: line.price,
+        });
+
+        await tx
+          .update(products)
+          .set({ stock: sql`${products.stock} - ${line.quantity}` })
+          .where(eq(products.id, line.productId));
+      }
+
+      await tx.delete(cartItems).where(cartOwnerCondition(cartOwner));
+
+      return newOrder;
+    });
   }
 
-  async updateOrderStatus(id: number, status: string): Promise<Order | undefined> {
-    const [updatedOrder] = await db
+  async claimGuestOrder(id: number, userId: number): Promise<Order | undefined> {
+    const [claimedOrder] = await db
       .update(orders)
-      .set({ status })
-      .where(eq(orders.id, id))
+      .set({ userId })
+      .where(and(eq(orders.id, id), isNull(orders.userId)))
       .returning();
-    return updatedOrder || undefined;
+    return claimedOrder || undefined;
   }
 
-  async getOrderStats(): Promise<{
-    totalOrders: number;
-    totalRevenue: string;
-    totalProducts: number;
-    totalCustomers: number;
-  }> {
-    const [orderStats] = await db
-      .select({
-        totalOrders: sql<number>`count(*)`,
-        totalRevenue: sql<string>`sum(${orders.total})`,
-      })
-      .from(orders);
-    
-    const [productStats] = await db
-      .select({
-        totalProducts: sql<number>`count(*)`,
-      })
+  async claimGuestOrders(userId: number, email: string): Promise<number> {
+    const claimedOrders = await db
+      .update(orders)
+      .set({ userId })
+      .where(and(isNull(orders.userId), sql`lower(${orders.contactEmail}) = ${email.toLowerCase()}`))
+      .returning({ id: orders.id });
+    return claimedOrders.length;
+  }
+
+  async updateOrderStatus(id: number, status: OrderStatus, actor: OrderActor, note?: string): Promise<Order | undefined> {
+    return await db.transaction(async (tx) => {
+      const [order] = await tx.select().from(orders).where(eq(orders.id, id)).for("update");
+      if (!order) return undefined;
+      if (!canTransitionOrder(order.status, status)) {
+        throw new OrderTransitionError(order.status, status);
+      }
+
+      const [updatedOrder] = await tx
+        .update(orders)
+        .set({ status })
+        .where(eq(orders.id, id))
+        .returning();
+      if (status === "cancelled") {
+        const items = await tx.select().from(orderItems).where(eq(orderItems.orderId, id));
+        for (const item of items) {
+          await tx
+            .update(products)
+            .set({ stock: sql`${products.stock} + ${item.quantity}` })
+            .where(eq(products.id, item.productId));
+        }
+      }
+      await tx.insert(orderStatusEvents).values({
+        orderId: id,
+        fromStatus: order.status,
+        toStatus: status,
+        actorId: actor.id,
+        actorRole: actor.role,
+        note: note ?? null,
+      });
+      return updatedOrder;
+    });
+  }
+
+  async getOrderStatusEvents(orderId: number): Promise<OrderStatusEventWithActor[]> {
+    const rows = await db
+      .select()
+      .from(orderStatusEvents)
+      .leftJoin(users, eq(orderStatusEvents.actorId, users.id))
+      .where(eq(orderStatusEvents.orderId, orderId))
+      .orderBy(asc(orderStatusEvents.createdAt), asc(orderStatusEvents.id));
+    return rows.map(row => ({
+      ...row.order_status_events,
+      actorName: row.users?.fullName ?? null,
+    }));
+  }
+
+  async createReturnRequest(orderId: number, userId: number, lines: ReturnLine[], note?: string): Promise<ReturnRequestWithItems> {
+    const returnId = await db.transaction(async (tx) => {
+      // Locking the order serializes concurrent return requests against it
+      await tx.select().from(orders).where(eq(orders.id, orderId)).for("update");
+
+      const items = await tx.select().from(orderItems).where(eq(orderItems.orderId, orderId));
+      const returned = await tx
+        .select({ orderItemId: returnItems.orderItemId, quantity: returnItems.quantity })
+        .from(returnItems)
+        .innerJoin(returnRequests, eq(returnItems.returnId, returnRequests.id))
+        .where(and(eq(returnRequests.orderId, orderId), ne(returnRequests.status, "rejected")));
+      checkReturnLines(lines, items, returned);
+
+      const [returnRequest] = await tx
+        .insert(returnRequests)
+        .values({ orderId, userId, note: note ?? null })
+        .returning();
+      await tx.insert(returnItems).values(lines.map(line => ({
+        returnId: returnRequest.id,
+        orderItemId: line.orderItemId,
+        quantity: line.quantity,
+        reason: line.reason,
+      })));
+      return returnRequest.id;
+    });
+    return (await this.getReturnRequestById(returnId))!;
+  }
+
+  async getReturnRequests({ userId, orderId, status }: ReturnQuery = {}): Promise<ReturnRequestWithItems[]> {
+    const conditions = [];
+    if (userId !== undefined) conditions.push(eq(returnRequests.userId, userId));
+    if (orderId !== undefined) conditions.push(eq(returnRequests.orderId, orderId));
+    if (status) conditions.push(eq(returnRequests.status, status));
+
+    const returnList = await db
+      .select()
+      .from(returnRequests)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(returnRequests.createdAt), desc(returnRequests.id));
+    return await this.withReturnItems(returnList);
+  }
+
+  async getReturnRequestById(id: number): Promise<ReturnRequestWithItems | undefined> {
+    const [returnRequest] = await db.select().from(returnRequests).where(eq(returnRequests.id, id));
+    if (!returnRequest) return undefined;
+    const [withItems] = await this.withReturnItems([returnRequest]);
+    return withItems;
+  }
+
+  private async withReturnItems(returnList: ReturnRequest[]): Promise<ReturnRequestWithItems[]> {
+    if (returnList.length === 0) return [];
+    const rows = await db
+      .select()
+      .from(returnItems)
+      .innerJoin(orderItems, eq(returnItems.orderItemId, orderItems.id))
+      .innerJoin(products, eq(orderItems.productId, products.id))
+      .where(inArray(returnItems.returnId, returnList.map(returnRequest => returnRequest.id)))
+      .orderBy(asc(returnItems.id));
+
+    return returnList.map(returnRequest => ({
+      ...returnRequest,
+      items: rows
+        .filter(row => row.return_items.returnId === returnRequest.id)
+        .map(row => ({
+          ...row.return_items,
+          orderItem: { ...row.order_items, product: row.products },
+        })),
+    }));
+  }
+
+  async updateReturnStatus(id: number, status: ReturnStatus, update: ReturnUpdate = {}): Promise<ReturnRequest | undefined> {
+    return await db.transaction(async (tx) => {
+      const [returnRequest] = await tx.select().from(returnRequests).where(eq(returnRequests.id, id)).for("update");
+      if (!returnRequest) return undefined;
+      if (!canTransitionReturn(returnRequest.status, status)) {
+        throw new ReturnTransitionError(returnRequest.status, status);
+      }
+
+      const [updatedReturn] = await tx
+        .update(returnRequests)
+        .set({
+          status,
+          adminNote: update.adminNote ?? returnRequest.adminNote,
+          refundAmount: update.refundAmount ?? returnRequest.refundAmount,
+          updatedAt: new Date(),
+        })
+        .where(eq(returnRequests.id, id))
+        .returning();
+
+      // A refund that failed puts the return back to received, already restocked
+      if (status === "received" && returnRequest.status === "approved") {
+        const items = await tx
+          .select({ productId: orderItems.productId, quantity: returnItems.quantity })
+          .from(returnItems)
+          .innerJoin(orderItems, eq(returnItems.orderItemId, orderItems.id))
+          .where(eq(returnItems.returnId, id));
+        for (const item of items) {
+          await tx
+            .update(products)
+            .set({ stock: sql`${products.stock} + ${item.quantity}` })
+            .where(eq(products.id, item.productId));
+        }
+      }
+      return updatedReturn;
+    });
+  }
+
+  async claimReturnRefund(id: number): Promise<ReturnRequest | undefined> {
+    const [claimed] = await db
+      .update(returnRequests)
+      .set({ status: "refunding", updatedAt: new Date() })
+      .where(and(eq(returnRequests.id, id), eq(returnRequests.status, "received")))
+      .returning();
+    return claimed || undefined;
+  }
+
+  async getOrderByPaymentIntentId(paymentIntentId: string): Promise<Order | undefined> {
+    const [order] = await db.select().from(orders).where(eq(orders.paymentIntentId, paymentIntentId));
+    return order || undefined;
+  }
+
+  async applyPaymentEvent(event: InsertPaymentEvent, paymentStatus: PaymentStatus): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      // Concurrent deliveries for the order wait here, so each one checks the
+      // status the previous one left
+      const [order] = await tx
+        .select({ paymentStatus: orders.paymentStatus })
+        .from(orders)
+        .where(eq(orders.id, event.orderId))
+        .for("update");
+      if (!order || !canTransitionPayment(order.paymentStatus, paymentStatus)) return false;
+
+      const [recorded] = await tx
+        .insert(paymentEvents)
+        .values(event)
+        .onConflictDoNothing({ target: paymentEvents.eventId })
+        .returning();
+      if (!recorded) return false;
+
+      await tx
+        .update(orders)
+        .set({ paymentStatus })
+        .where(eq(orders.id, event.orderId));
+      return true;
+    });
+  }
+
+  async getOrderStats(): Promise<{
+    totalOrders: number;
+    totalRevenue: string;
+    totalProducts: number;
+    totalCustomers: number;
+  }> {
+    const [orderStats] = await db
+      .select({
+        totalOrders: sql<number>`count(*)`,
+        totalRevenue: sql<string>`sum(${orders.total})`,
+      })
+      .from(orders);
+    
+    const [productStats] = await db
+      .select({
+        totalProducts: sql<number>`count(*)`,
+      })
       .from(products);
     
     const [customerStats] = await db
@@ -375,7 +1703,1557 @@ export class DatabaseStorage implements IStorage {
       totalCustomers: customerStats.totalCustomers || 0,
     };
   }
+
+  async getReviews({ productId, status, sort = "newest", limit = 10, offset = 0 }: ReviewQuery): Promise<{ reviews: ReviewWithAuthor[]; total: number }> {
+    const conditions = [];
+    if (productId) conditions.push(eq(reviews.productId, productId));
+    if (status) conditions.push(eq(reviews.status, status));
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+    const orderBy = {
+      newest: [desc(reviews.createdAt)],
+      oldest: [asc(reviews.createdAt)],
+      highest: [desc(reviews.rating), desc(reviews.createdAt)],
+      lowest: [asc(reviews.rating), desc(reviews.createdAt)],
+    }[sort];
+
+    const rows = await db
+      .select({ review: reviews, authorName: users.fullName })
+      .from(reviews)
+      .innerJoin(users, eq(reviews.userId, users.id))
+      .where(where)
+      .orderBy(...orderBy)
+      .limit(limit)
+      .offset(offset);
+
+    const [{ total }] = await db.select({ total: count() }).from(reviews).where(where);
+
+    return {
+      reviews: rows.map(row => ({ ...row.review, authorName: row.authorName })),
+      total,
+    };
+  }
+
+  async getReviewById(id: number): Promise<Review | undefined> {
+    const [review] = await db.select().from(reviews).where(eq(reviews.id, id));
+    return review || undefined;
+  }
+
+  async getUserReviewForProduct(userId: number, productId: number): Promise<Review | undefined> {
+    const [review] = await db
+      .select()
+      .from(reviews)
+      .where(and(eq(reviews.userId, userId), eq(reviews.productId, productId)));
+    return review || undefined;
+  }
+
+  async hasPurchasedProduct(userId: number, productId: number): Promise<boolean> {
+    const [{ purchases }] = await db
+      .select({ purchases: count() })
+      .from(orderItems)
+      .innerJoin(orders, eq(orderItems.orderId, orders.id))
+      .where(and(
+        eq(orders.userId, userId),
+        eq(orderItems.productId, productId),
+        ne(orders.status, "cancelled"),
+      ));
+    return purchases > 0;
+  }
+
+  async createReview(review: InsertReview): Promise<Review> {
+    const [newReview] = await db
+      .insert(reviews)
+      .values(review)
+      .returning();
+    return newReview;
+  }
+
+  async updateReviewStatus(id: number, status: ReviewStatus): Promise<Review | undefined> {
+    const [updatedReview] = await db
+      .update(reviews)
+      .set({ status })
+      .where(eq(reviews.id, id))
+      .returning();
+    if (updatedReview) {
+      await this.recomputeProductRating(updatedReview.productId);
+    }
+    return updatedReview || undefined;
+  }
+
+  async deleteReview(id: number): Promise<void> {
+    const [deletedReview] = await db.delete(reviews).where(eq(reviews.id, id)).returning();
+    if (deletedReview) {
+      await this.recomputeProductRating(deletedReview.productId);
+    }
+  }
+
+  async recomputeProductRating(productId: number): Promise<void> {
+    const [aggregate] = await db
+      .select({
+        rating: sql<string>`coalesce(round(avg(${reviews.rating}), 2), 0)`,
+        reviewCount: count(),
+      })
+      .from(reviews)
+      .where(and(eq(reviews.productId, productId), eq(reviews.status, "approved")));
+
+    await db
+      .update(products)
+      .set({ rating: String(aggregate.rating), reviewCount: aggregate.reviewCount })
+      .where(eq(products.id, productId));
+  }
+
+  async recomputeAllProductRatings(): Promise<number> {
+    const productIds = await db.select({ id: products.id }).from(products);
+    for (const { id } of productIds) {
+      await this.recomputeProductRating(id);
+    }
+    return productIds.length;
+  }
+
+  async getPromotions(): Promise<Promotion[]> {
+    return await db.select().from(promotions).orderBy(desc(promotions.createdAt));
+  }
+
+  async getPromotionById(id: number): Promise<Promotion | undefined> {
+    const [promotion] = await db.select().from(promotions).where(eq(promotions.id, id));
+    return promotion || undefined;
+  }
+
+  async getPromotionByCode(code: string): Promise<Promotion | undefined> {
+    const [promotion] = await db.select().from(promotions).where(eq(promotions.code, code.toUpperCase()));
+    return promotion || undefined;
+  }
+
+  async createPromotion(promotion: InsertPromotion): Promise<Promotion> {
+    const [newPromotion] = await db
+      .insert(promotions)
+      .values(promotion)
+      .returning();
+    return newPromotion;
+  }
+
+  async updatePromotion(id: number, promotion: InsertPromotion): Promise<Promotion | undefined> {
+    const [updatedPromotion] = await db
+      .update(promotions)
+      .set(promotion)
+      .where(eq(promotions.id, id))
+      .returning();
+    return updatedPromotion || undefined;
+  }
+
+  async deletePromotion(id: number): Promise<void> {
+    await db.delete(promotions).where(eq(promotions.id, id));
+  }
+
+  async countCustomerRedemptions(promotionId: number, customer: PromotionCustomer): Promise<number> {
+    const [{ redemptions }] = await db
+      .select({ redemptions: count() })
+      .from(promotionRedemptions)
+      .where(and(
+        eq(promotionRedemptions.promotionId, promotionId),
+        redemptionCustomerCondition(customer),
+      ));
+    return redemptions;
+  }
+
+  async getTwoFactorCredential(userId: number): Promise<TwoFactorCredential | undefined> {
+    const [credential] = await db.select().from(twoFactorCredentials).where(eq(twoFactorCredentials.userId, userId));
+    return credential || undefined;
+  }
+
+  async startTwoFactorEnrollment(userId: number, secret: string): Promise<TwoFactorCredential> {
+    const values = { secret, enabledAt: null, recoveryCodeHashes: [], lastUsedStep: null, createdAt: new Date() };
+    const [credential] = await db
+      .insert(twoFactorCredentials)
+      .values({ userId, ...values })
+      .onConflictDoUpdate({ target: twoFactorCredentials.userId, set: values })
+      .returning();
+    return credential;
+  }
+
+  async enableTwoFactor(userId: number, recoveryCodeHashes: string[]): Promise<TwoFactorCredential | undefined> {
+    const [credential] = await db
+      .update(twoFactorCredentials)
+      .set({ enabledAt: new Date(), recoveryCodeHashes })
+      .where(and(eq(twoFactorCredentials.userId, userId), isNull(twoFactorCredentials.enabledAt)))
+      .returning();
+    return credential || undefined;
+  }
+
+  async replaceRecoveryCodes(userId: number, recoveryCodeHashes: string[]): Promise<void> {
+    await db
+      .update(twoFactorCredentials)
+      .set({ recoveryCodeHashes })
+      .where(eq(twoFactorCredentials.userId, userId));
+  }
+
+  async consumeRecoveryCode(userId: number, codeHash: string): Promise<boolean> {
+    const consumed = await db
+      .update(twoFactorCredentials)
+      .set({ recoveryCodeHashes: sql`array_remove(${twoFactorCredentials.recoveryCodeHashes}, ${codeHash})` })
+      .where(and(
+        eq(twoFactorCredentials.userId, userId),
+        sql`${codeHash} = any(${twoFactorCredentials.recoveryCodeHashes})`,
+      ))
+      .returning({ userId: twoFactorCredentials.userId });
+    return consumed.length > 0;
+  }
+
+  async recordTotpStep(userId: number, step: number): Promise<boolean> {
+    const recorded = await db
+      .update(twoFactorCredentials)
+      .set({ lastUsedStep: step })
+      .where(and(
+        eq(twoFactorCredentials.userId, userId),
+        or(isNull(twoFactorCredentials.lastUsedStep), lt(twoFactorCredentials.lastUsedStep, step)),
+      ))
+      .returning({ userId: twoFactorCredentials.userId });
+    return recorded.length > 0;
+  }
+
+  async deleteTwoFactorCredential(userId: number): Promise<void> {
+    await db.delete(twoFactorCredentials).where(eq(twoFactorCredentials.userId, userId));
+  }
+
+  async createOutboxEmail(email: InsertOutboxEmail): Promise<OutboxEmail> {
+    const [outboxEmail] = await db.insert(emailOutbox).values(email).returning();
+    return outboxEmail;
+  }
+
+  async getOutboxEmails(limit: number = 50, offset: number = 0): Promise<OutboxEmail[]> {
+    return await db
+      .select()
+      .from(emailOutbox)
+      .orderBy(desc(emailOutbox.createdAt), desc(emailOutbox.id))
+      .limit(limit)
+      .offset(offset);
+  }
+
+  async getOutboxEmailById(id: number): Promise<OutboxEmail | undefined> {
+    const [outboxEmail] = await db.select().from(emailOutbox).where(eq(emailOutbox.id, id));
+    return outboxEmail || undefined;
+  }
+
+  async getStoreSettings(): Promise<StoreSettings> {
+    const [settings] = await db.select().from(storeSettings).orderBy(asc(storeSettings.id)).limit(1);
+    if (settings) return settings;
+
+    const [created] = await db.insert(storeSettings).values({}).returning();
+    return created;
+  }
+
+  async updateStoreSettings(settings: UpdateStoreSettings): Promise<StoreSettings> {
+    const current = await this.getStoreSettings();
+    const [updated] = await db
+      .update(storeSettings)
+      .set({ ...settings, updatedAt: new Date() })
+      .where(eq(storeSettings.id, current.id))
+      .returning();
+    return updated;
+  }
+
+  async purgeExpiredSessions(): Promise<{ sessions: number; guestCartItems: number }> {
+    // connect-pg-simple keeps sessions in its default "session" table
+    const expired = await db.execute(sql`delete from "session" where expire < now()`);
+    const orphaned = await db
+      .delete(cartItems)
+      .where(and(
+        isNotNull(cartItems.sessionId),
+        sql`not exists (select 1 from "session" where sid = ${cartItems.sessionId})`,
+      ))
+      .returning({ id: cartItems.id });
+    return { sessions: expired.rowCount ?? 0, guestCartItems: orphaned.length };
+  }
+
+  async getUserSessions(userId: number): Promise<StoredSession[]> {
+    const result = await db.execute<{ sid: string; sess: StoredSession["data"]; expire: string }>(sql`
+      select sid, sess, expire from "session"
+      where sess->'passport'->>'user' = ${String(userId)} and expire > now()
+      order by expire desc
+    `);
+    return result.rows.map(row => ({ sid: row.sid, expiresAt: new Date(row.expire), data: row.sess }));
+  }
+
+  async deleteUserSessions(userId: number): Promise<number> {
+    const result = await db.execute(sql`delete from "session" where sess->'passport'->>'user' = ${String(userId)}`);
+    return result.rowCount ?? 0;
+  }
+}
+
+// In-memory implementation used when no DATABASE_URL is configured, so the
+// whole API can run offline (local development, CI). Data lives for the
+// lifetime of the process only.
+export class MemStorage implements IStorage {
+  sessionStore: session.Store;
+
+  private users = new Map<number, User>();
+  private categories = new Map<number, Category>();
+  private products = new Map<number, Product>();
+  private cartItems = new Map<number, CartItem>();
+  private orders = new Map<number, Order>();
+  private orderItems = new Map<number, OrderItem>();
+  private orderStatusEvents = new Map<number, OrderStatusEvent>();
+  private returnRequests = new Map<number, ReturnRequest>();
+  private returnItems = new Map<number, ReturnItem>();
+  private reviews = new Map<number, Review>();
+  private wishlistItems = new Map<number, WishlistItem>();
+  private addresses = new Map<number, Address>();
+  private userTokens = new Map<number, UserToken>();
+  private emailOutbox = new Map<number, OutboxEmail>();
+  private twoFactorCredentials = new Map<number, TwoFactorCredential>();
+  private userNotes = new Map<number, UserNote>();
+  private auditLog = new Map<number, AuditLogEntry>();
+  private paymentEvents = new Map<number, PaymentEvent>();
+  private promotions = new Map<number, Promotion>();
+  private promotionRedemptions = new Map<number, PromotionRedemption>();
+  private searchSynonyms = new Map<number, SearchSynonym>();
+  private searchEvents = new Map<number, SearchEvent>();
+  private storeSettings: StoreSettings = {
+    id: 1,
+    currency: DEFAULT_PRICING_RULES.currency,
+    currencySymbol: "$",
+    taxRateBps: DEFAULT_PRICING_RULES.taxRateBps,
+    freeShippingThreshold: DEFAULT_PRICING_RULES.freeShippingThreshold,
+    flatShippingFee: DEFAULT_PRICING_RULES.flatShippingFee,
+    requireAdminTwoFactor: false,
+    updatedAt: new Date(),
+  };
+  private ids: Record<string, number> = {};
+
+  constructor() {
+    this.sessionStore = new MemoryStore({
+      checkPeriod: 24 * 60 * 60 * 1000, // prune expired entries every 24h
+    });
+  }
+
+  private nextId(table: string): number {
+    this.ids[table] = (this.ids[table] || 0) + 1;
+    return this.ids[table];
+  }
+
+  private newestFirst<T extends { id: number; createdAt: Date }>(a: T, b: T): number {
+    return b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id;
+  }
+
+  async getUser(id: number): Promise<User | undefined> {
+    return this.users.get(id);
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find(user => user.username === username);
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find(user => user.email === email);
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const user: User = {
+      ...insertUser,
+      id: this.nextId("users"),
+      role: "user",
+      emailVerifiedAt: null,
+      disabledAt: null,
+      createdAt: new Date(),
+    };
+    this.users.set(user.id, user);
+    return user;
+  }
+
+  async updateUserPassword(id: number, password: string): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user) return undefined;
+    user.password = password;
+    return user;
+  }
+
+  async getStaffUsers(): Promise<User[]> {
+    return Array.from(this.users.values())
+      .filter(user => user.role !== "user")
+      .sort((a, b) => a.username.localeCompare(b.username));
+  }
+
+  async updateUserRole(id: number, role: UserRole): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user) return undefined;
+    user.role = role;
+    return user;
+  }
+
+  async getUsersByIds(ids: number[]): Promise<User[]> {
+    return ids.map(id => this.users.get(id)).filter((user): user is User => !!user);
+  }
+
+  private toUserSummary(user: User): UserSummary {
+    const userOrders = Array.from(this.orders.values()).filter(order => order.userId === user.id);
+    const lifetimeValue = userOrders
+      .filter(order => order.paymentStatus === "paid")
+      .reduce((sum, order) => sum + parseFloat(order.total), 0);
+    return {
+      id: user.id,
+      username: user.username,
+      email: user.email,
+      fullName: user.fullName,
+      role: user.role,
+      emailVerifiedAt: user.emailVerifiedAt,
+      disabledAt: user.disabledAt,
+      createdAt: user.createdAt,
+      orderCount: userOrders.length,
+      lifetimeValue: lifetimeValue.toFixed(2),
+    };
+  }
+
+  async getUserSummaries(query: AdminUserQuery): Promise<{ users: UserSummary[]; total: number }> {
+    const search = query.search?.toLowerCase();
+    const matching = Array.from(this.users.values())
+      .filter(user => !search || [user.username, user.email, user.fullName].some(value => value.toLowerCase().includes(search)))
+      .filter(user => !query.role || user.role === query.role)
+      .filter(user => !query.status || (query.status === "disabled") === (user.disabledAt !== null))
+      .map(user => this.toUserSummary(user));
+
+    const comparators = {
+      newest: (a: UserSummary, b: UserSummary) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id,
+      oldest: (a: UserSummary, b: UserSummary) => a.createdAt.getTime() - b.createdAt.getTime() || a.id - b.id,
+      name: (a: UserSummary, b: UserSummary) => a.fullName.localeCompare(b.fullName) || a.id - b.id,
+      orders: (a: UserSummary, b: UserSummary) => b.orderCount - a.orderCount || b.id - a.id,
+      lifetime_value: (a: UserSummary, b: UserSummary) =>
+        parseFloat(b.lifetimeValue) - parseFloat(a.lifetimeValue) || b.id - a.id,
+    };
+    return {
+      users: matching.sort(comparators[query.sort]).slice(query.offset, query.offset + query.limit),
+      total: matching.length,
+    };
+  }
+
+  async getUserSummary(id: number): Promise<UserSummary | undefined> {
+    const user = this.users.get(id);
+    return user ? this.toUserSummary(user) : undefined;
+  }
+
+  async setUserDisabled(id: number, disabled: boolean): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user) return undefined;
+    user.disabledAt = disabled ? new Date() : null;
+    return user;
+  }
+
+  private authorOf(userId: number | null): Pick<User, "id" | "fullName"> | null {
+    const author = userId !== null ? this.users.get(userId) : undefined;
+    return author ? { id: author.id, fullName: author.fullName } : null;
+  }
+
+  async getUserNotes(userId: number): Promise<UserNoteWithAuthor[]> {
+    return Array.from(this.userNotes.values())
+      .filter(note => note.userId === userId)
+      .sort(this.newestFirst)
+      .map(note => ({ ...note, author: this.authorOf(note.authorId) }));
+  }
+
+  async createUserNote(note: InsertUserNote): Promise<UserNote> {
+    const created: UserNote = { ...note, id: this.nextId("userNotes"), createdAt: new Date() };
+    this.userNotes.set(created.id, created);
+    return created;
+  }
+
+  async getAuditLog(targetUserId: number, limit: number = 50): Promise<AuditLogEntryWithActor[]> {
+    return Array.from(this.auditLog.values())
+      .filter(entry => entry.targetUserId === targetUserId)
+      .sort(this.newestFirst)
+      .slice(0, limit)
+      .map(entry => ({ ...entry, actor: this.authorOf(entry.actorId) }));
+  }
+
+  async createAuditLogEntry(entry: InsertAuditLogEntry): Promise<AuditLogEntry> {
+    const created: AuditLogEntry = { ...entry, id: this.nextId("auditLog"), createdAt: new Date() };
+    this.auditLog.set(created.id, created);
+    return created;
+  }
+
+  async markEmailVerified(id: number, email: string): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user || user.email !== email) return undefined;
+    user.emailVerifiedAt = new Date();
+    return user;
+  }
+
+  async createUserToken(token: InsertUserToken): Promise<UserToken> {
+    for (const existing of Array.from(this.userTokens.values())) {
+      if (existing.userId === token.userId && existing.purpose === token.purpose && !existing.usedAt) {
+        existing.usedAt = new Date();
+      }
+    }
+    const userToken: UserToken = {
+      ...token,
+      id: this.nextId("userTokens"),
+      usedAt: null,
+      createdAt: new Date(),
+    };
+    this.userTokens.set(userToken.id, userToken);
+    return userToken;
+  }
+
+  async consumeUserToken(tokenHash: string, purpose: UserTokenPurpose): Promise<UserToken | undefined> {
+    const userToken = Array.from(this.userTokens.values()).find(token => token.tokenHash === tokenHash);
+    if (!userToken || userToken.purpose !== purpose || userToken.usedAt || userToken.expiresAt <= new Date()) {
+      return undefined;
+    }
+    userToken.usedAt = new Date();
+    return userToken;
+  }
+
+  async getCategories(): Promise<Category[]> {
+    return Array.from(this.categories.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getCategoryById(id: number): Promise<Category | undefined> {
+    return this.categories.get(id);
+  }
+
+  async createCategory(category: InsertCategory): Promise<Category> {
+    const newCategory: Category = {
+      id: this.nextId("categories"),
+      name: category.name,
+      slug: category.slug,
+      description: category.description ?? null,
+      icon: category.icon ?? null,
+      createdAt: new Date(),
+    };
+    this.categories.set(newCategory.id, newCategory);
+    return newCategory;
+  }
+
+  async updateCategory(id: number, category: Partial<InsertCategory>): Promise<Category | undefined> {
+    const existing = this.categories.get(id);
+    if (!existing) return undefined;
+    const updatedCategory = { ...existing, ...category };
+    this.categories.set(id, updatedCategory);
+    return updatedCategory;
+  }
+
+  async deleteCategory(id: number): Promise<void> {
+    this.categories.delete(id);
+  }
+
+  async getProductListing(query: ProductQuery): Promise<ProductListing> {
+    const words = query.search ? tokenize(query.search) : [];
+    const alternatives = words.length > 0 ? expandSynonyms(words, await this.getSearchSynonyms()) : undefined;
+
+    const matches = new Map<number, ProductMatch>();
+    const candidates = Array.from(this.products.values())
+      .filter(product => product.isActive && (!query.featured || product.isFeatured))
+      .filter(product => {
+        if (!alternatives) return true;
+        const category = product.categoryId !== null ? this.categories.get(product.categoryId)?.name ?? null : null;
+        const match = matchProduct({ ...product, category }, query.search!, alternatives);
+        if (match) matches.set(product.id, match);
+        return !!match;
+      });
+
+    const sort = query.sort ?? (alternatives ? "relevance" : "newest");
+    const unitsSold = new Map<number, number>();
+    if (sort === "best_selling") {
+      for (const item of Array.from(this.orderItems.values())) {
+        if (this.orders.get(item.orderId)?.paymentStatus !== "paid") continue;
+        unitsSold.set(item.productId, (unitsSold.get(item.productId) ?? 0) + item.quantity);
+      }
+    }
+    const rating = (product: Product) => parseFloat(product.rating ?? "0");
+    const compare = (a: Product, b: Product): number => {
+      switch (sort) {
+        case "relevance":
+          return alternatives ? compareMatches(matches.get(a.id)!, matches.get(b.id)!) : 0;
+        case "featured":
+          return Number(b.isFeatured) - Number(a.isFeatured);
+        case "price_asc":
+          return parseFloat(a.price) - parseFloat(b.price);
+        case "price_desc":
+          return parseFloat(b.price) - parseFloat(a.price);
+        case "rating":
+          return rating(b) - rating(a) || (b.reviewCount ?? 0) - (a.reviewCount ?? 0);
+        case "best_selling":
+          return (unitsSold.get(b.id) ?? 0) - (unitsSold.get(a.id) ?? 0);
+        case "newest":
+          return 0;
+      }
+    };
+
+    const results = candidates
+      .filter(product => matchesProductFilters(product, query))
+      .sort((a, b) => compare(a, b) || this.newestFirst(a, b));
+
+    const counted = (except: ProductFilter, condition: (product: Product) => boolean) =>
+      candidates.filter(product => matchesProductFilters(product, query, except) && condition(product)).length;
+    const categoryCounts = new Map<number, number>();
+    const tagCounts = new Map<string, number>();
+    for (const product of candidates) {
+      if (product.categoryId !== null && matchesProductFilters(product, query, "category")) {
+        categoryCounts.set(product.categoryId, (categoryCounts.get(product.categoryId) ?? 0) + 1);
+      }
+      if (matchesProductFilters(product, query, "tags")) {
+        for (const tag of product.tags ?? []) tagCounts.set(tag, (tagCounts.get(tag) ?? 0) + 1);
+      }
+    }
+
+    return {
+      products: results
+        .slice(query.offset, query.offset + query.limit)
+        .map(product => matches.has(product.id) ? { ...product, highlight: matches.get(product.id)!.highlight } : product),
+      total: results.length,
+      facets: {
+        categories: Array.from(categoryCounts, ([categoryId, count]) => ({ categoryId, count })),
+        tags: Array.from(tagCounts, ([tag, count]) => ({ tag, count }))
+          .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag))
+          .slice(0, TAG_FACET_LIMIT),
+        priceRanges: PRICE_RANGES.map(({ min, max }) => ({
+          min,
+          max,
+          count: counted("price", product => parseFloat(product.price) >= min && (max === null || parseFloat(product.price) < max)),
+        })),
+        ratings: RATING_THRESHOLDS.map(minRating => ({
+          minRating,
+          count: counted("rating", product => rating(product) >= minRating),
+        })),
+        inStock: counted("inStock", product => product.stock > 0),
+        onSale: counted("onSale", isOnSale),
+      },
+    };
+  }
+
+  async getSearchSuggestions(search: string, limit: number): Promise<Omit<SearchSuggestions, "queries">> {
+    const words = tokenize(search);
+    const alternatives = words.length > 0 ? expandSynonyms(words, await this.getSearchSynonyms()) : undefined;
+    const matches: Array<{ product: Product; match: ProductMatch }> = [];
+    if (alternatives) {
+      for (const product of Array.from(this.products.values())) {
+        if (!product.isActive) continue;
+        const category = product.categoryId !== null ? this.categories.get(product.categoryId)?.name ?? null : null;
+        const match = matchProduct({ ...product, category }, search, alternatives);
+        if (match) matches.push({ product, match });
+      }
+    }
+    const lowerSearch = search.toLowerCase();
+    return {
+      products: matches
+        .sort((a, b) => compareMatches(a.match, b.match) || this.newestFirst(a.product, b.product))
+        .slice(0, limit)
+        .map(({ product, match }) => ({
+          id: product.id,
+          name: product.name,
+          price: product.price,
+          originalPrice: product.originalPrice,
+          imageUrl: product.imageUrl,
+          highlight: match.highlight.name,
+        })),
+      categories: Array.from(this.categories.values())
+        .filter(category => category.name.toLowerCase().includes(lowerSearch) || wordSimilarity(search, category.name) >= TRIGRAM_THRESHOLD)
+        .sort((a, b) => a.name.localeCompare(b.name))
+        .slice(0, limit)
+        .map(({ id, name, slug }) => ({ id, name, slug })),
+    };
+  }
+
+  async getProductById(id: number): Promise<Product | undefined> {
+    return this.products.get(id);
+  }
+
+  async getProductBySlug(slug: string): Promise<Product | undefined> {
+    return Array.from(this.products.values()).find(product => product.slug === slug);
+  }
+
+  async getFeaturedProducts(limit: number = 8): Promise<Product[]> {
+    return Array.from(this.products.values())
+      .filter(product => product.isActive && product.isFeatured)
+      .sort(this.newestFirst)
+      .slice(0, limit);
+  }
+
+  async createProduct(product: InsertProduct): Promise<Product> {
+    const newProduct: Product = {
+      id: this.nextId("products"),
+      name: product.name,
+      slug: product.slug,
+      description: product.description ?? null,
+      price: product.price,
+      originalPrice: product.originalPrice ?? null,
+      imageUrl: product.imageUrl,
+      categoryId: product.categoryId ?? null,
+      stock: product.stock ?? 0,
+      rating: product.rating ?? "0",
+      reviewCount: product.reviewCount ?? 0,
+      isActive: product.isActive ?? true,
+      isFeatured: product.isFeatured ?? false,
+      tags: product.tags ?? null,
+      createdAt: new Date(),
+    };
+    this.products.set(newProduct.id, newProduct);
+    return newProduct;
+  }
+
+  async updateProduct(id: number, product: Partial<InsertProduct>): Promise<Product | undefined> {
+    const existing = this.products.get(id);
+    if (!existing) return undefined;
+    const updatedProduct = { ...existing, ...product };
+    this.products.set(id, updatedProduct);
+    return updatedProduct;
+  }
+
+  // Mirrors the foreign keys: order lines block the delete, cart lines,
+  // wishlist entries and reviews go with the product, search events keep
+  // their query
+  async deleteProduct(id: number): Promise<void> {
+    if (Array.from(this.orderItems.values()).some(item => item.productId === id)) {
+      throw new ProductInUseError();
+    }
+    this.products.delete(id);
+    for (const item of Array.from(this.cartItems.values())) {
+      if (item.productId === id) this.cartItems.delete(item.id);
+    }
+    for (const item of Array.from(this.wishlistItems.values())) {
+      if (item.productId === id) this.wishlistItems.delete(item.id);
+    }
+    for (const review of Array.from(this.reviews.values())) {
+      if (review.productId === id) {
+        this.reviews.delete(review.id);
+      }
+    }
+    for (const event of Array.from(this.searchEvents.values())) {
+      if (event.productId === id) event.productId = null;
+    }
+  }
+
+  async updateProductStock(id: number, quantity: number): Promise<void> {
+    const product = this.products.get(id);
+    if (product) {
+      product.stock -= quantity;
+    }
+  }
+
+  // Search matches are computed from the products on every query, so there is
+  // nothing to rebuild
+  async reindexProductSearch(): Promise<number> {
+    return this.products.size;
+  }
+
+  async getSearchSynonyms(): Promise<SearchSynonym[]> {
+    return Array.from(this.searchSynonyms.values()).sort((a, b) => a.term.localeCompare(b.term));
+  }
+
+  async getSearchSynonymByTerm(term: string): Promise<SearchSynonym | undefined> {
+    return Array.from(this.searchSynonyms.values()).find(synonym => synonym.term === term.toLowerCase());
+  }
+
+  async createSearchSynonym(synonym: InsertSearchSynonym): Promise<SearchSynonym> {
+    const newSynonym: SearchSynonym = {
+      id: this.nextId("searchSynonyms"),
+      term: synonym.term,
+      synonyms: synonym.synonyms,
+      createdAt: new Date(),
+    };
+    this.searchSynonyms.set(newSynonym.id, newSynonym);
+    return newSynonym;
+  }
+
+  async updateSearchSynonym(id: number, synonym: InsertSearchSynonym): Promise<SearchSynonym | undefined> {
+    const existing = this.searchSynonyms.get(id);
+    if (!existing) return undefined;
+    const updatedSynonym = { ...existing, ...synonym };
+    this.searchSynonyms.set(id, updatedSynonym);
+    return updatedSynonym;
+  }
+
+  async deleteSearchSynonym(id: number): Promise<void> {
+    this.searchSynonyms.delete(id);
+  }
+
+  async createSearchEvent(event: InsertSearchEvent): Promise<SearchEvent> {
+    const created: SearchEvent = { ...event, id: this.nextId("searchEvents"), createdAt: new Date() };
+    this.searchEvents.set(created.id, created);
+    return created;
+  }
+
+  async getPopularSearchQueries(prefix: string, since: Date, minSearchers: number, limit: number): Promise<string[]> {
+    const searchers = new Map<string, Set<string>>();
+    for (const event of Array.from(this.searchEvents.values())) {
+      if (event.type !== "search" || !event.resultCount || !event.searcherKey || event.createdAt < since) continue;
+      if (event.query === prefix || !event.query.startsWith(prefix)) continue;
+      if (!searchers.has(event.query)) searchers.set(event.query, new Set());
+      searchers.get(event.query)!.add(event.searcherKey);
+    }
+    return Array.from(searchers)
+      .map(([query, keys]) => [query, keys.size] as const)
+      .filter(([, count]) => count >= minSearchers)
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+      .slice(0, limit)
+      .map(([query]) => query);
+  }
+
+  async getSearchInsights(since: Date, limit: number): Promise<SearchInsights> {
+    const queries = new Map<string, Omit<SearchQueryStats, "clickThroughRate"> & { lastZeroResultAt?: Date }>();
+    const days = new Map<string, SearchTrendDay>();
+    for (const event of Array.from(this.searchEvents.values())) {
+      if (event.createdAt < since) continue;
+      const date = event.createdAt.toISOString().slice(0, 10);
+      const day = days.get(date) ?? { date, searches: 0, zeroResultSearches: 0, clicks: 0 };
+      days.set(date, day);
+      const stats = queries.get(event.query) ?? {
+        query: event.query,
+        searches: 0,
+        zeroResultSearches: 0,
+        resultClicks: 0,
+        suggestionClicks: 0,
+      };
+      queries.set(event.query, stats);
+
+      if (event.type === "search") {
+        day.searches++;
+        stats.searches++;
+        if (event.resultCount === 0) {
+          day.zeroResultSearches++;
+          stats.zeroResultSearches++;
+          if (!stats.lastZeroResultAt || event.createdAt > stats.lastZeroResultAt) stats.lastZeroResultAt = event.createdAt;
+        }
+      } else {
+        day.clicks++;
+        if (event.source === "results") stats.resultClicks++;
+        else stats.suggestionClicks++;
+      }
+    }
+
+    const allStats = Array.from(queries.values());
+    return {
+      ...searchTrend(since, Array.from(days.values())),
+      topQueries: allStats
+        .filter(stats => stats.searches > 0)
+        .sort((a, b) => b.searches - a.searches || a.query.localeCompare(b.query))
+        .slice(0, limit)
+        .map(({ lastZeroResultAt, ...stats }) => ({ ...stats, clickThroughRate: stats.resultClicks / stats.searches })),
+      zeroResultQueries: allStats
+        .filter(stats => stats.zeroResultSearches > 0)
+        .sort((a, b) => b.zeroResultSearches - a.zeroResultSearches || b.lastZeroResultAt!.getTime() - a.lastZeroResultAt!.getTime())
+        .slice(0, limit)
+        .map(stats => ({ query: stats.query, searches: stats.zeroResultSearches, lastSearchedAt: stats.lastZeroResultAt! })),
+    };
+  }
+
+  private ownsCartItem(owner: CartOwner, item: CartItem): boolean {
+    return owner.userId !== undefined
+      ? item.userId === owner.userId
+      : item.sessionId === owner.sessionId;
+  }
+
+  async getCartItems(owner: CartOwner): Promise<Array<CartItem & { product: Product }>> {
+    return Array.from(this.cartItems.values())
+      .filter(item => this.ownsCartItem(owner, item))
+      .map(item => ({ ...item, product: this.products.get(item.productId)! }));
+  }
+
+  async addToCart(owner: CartOwner, productId: number, quantity: number): Promise<CartItem> {
+    const existingItem = Array.from(this.cartItems.values()).find(
+      item => this.ownsCartItem(owner, item) && item.productId === productId,
+    );
+
+    if (existingItem) {
+      existingItem.quantity = (existingItem.quantity || 0) + quantity;
+      return existingItem;
+    }
+
+    const newItem: CartItem = {
+      id: this.nextId("cartItems"),
+      userId: owner.userId ?? null,
+      sessionId: owner.sessionId ?? null,
+      productId,
+      quantity,
+      createdAt: new Date(),
+    };
+    this.cartItems.set(newItem.id, newItem);
+    return newItem;
+  }
+
+  async updateCartItem(owner: CartOwner, id: number, quantity: number): Promise<CartItem | undefined> {
+    const item = this.cartItems.get(id);
+    if (!item || !this.ownsCartItem(owner, item)) return undefined;
+    item.quantity = quantity;
+    return item;
+  }
+
+  async removeFromCart(owner: CartOwner, id: number): Promise<void> {
+    const item = this.cartItems.get(id);
+    if (item && this.ownsCartItem(owner, item)) {
+      this.cartItems.delete(id);
+    }
+  }
+
+  async clearCart(owner: CartOwner): Promise<void> {
+    for (const item of Array.from(this.cartItems.values())) {
+      if (this.ownsCartItem(owner, item)) {
+        this.cartItems.delete(item.id);
+      }
+    }
+  }
+
+  async mergeGuestCart(sessionId: string, userId: number): Promise<void> {
+    const guestItems = await this.getCartItems({ sessionId });
+
+    for (const guestItem of guestItems) {
+      const existingItem = Array.from(this.cartItems.values()).find(
+        item => item.userId === userId && item.productId === guestItem.productId,
+      );
+      const quantity = Math.min((existingItem?.quantity || 0) + guestItem.quantity, guestItem.product.stock);
+      if (quantity <= 0) continue; // out of stock, nothing to carry over
+
+      if (existingItem) {
+        existingItem.quantity = quantity;
+      } else {
+        await this.addToCart({ userId }, guestItem.productId, quantity);
+      }
+    }
+
+    await this.clearCart({ sessionId });
+  }
+
+  async getWishlistItems(userId: number): Promise<Array<WishlistItem & { product: Product }>> {
+    return Array.from(this.wishlistItems.values())
+      .filter(item => item.userId === userId && this.products.has(item.productId))
+      .sort(this.newestFirst)
+      .map(item => ({ ...item, product: this.products.get(item.productId)! }));
+  }
+
+  async addToWishlist(wishlistItem: InsertWishlistItem): Promise<WishlistItem> {
+    const existingItem = Array.from(this.wishlistItems.values()).find(
+      item => item.userId === wishlistItem.userId && item.productId === wishlistItem.productId,
+    );
+    if (existingItem) return existingItem;
+
+    const newItem: WishlistItem = {
+      ...wishlistItem,
+      id: this.nextId("wishlistItems"),
+      createdAt: new Date(),
+    };
+    this.wishlistItems.set(newItem.id, newItem);
+    return newItem;
+  }
+
+  async removeFromWishlist(userId: number, productId: number): Promise<void> {
+    for (const item of Array.from(this.wishlistItems.values())) {
+      if (item.userId === userId && item.productId === productId) {
+        this.wishlistItems.delete(item.id);
+      }
+    }
+  }
+
+  async getAddresses(userId: number): Promise<Address[]> {
+    return Array.from(this.addresses.values())
+      .filter(address => address.userId === userId)
+      .sort((a, b) => Number(b.isDefaultShipping) - Number(a.isDefaultShipping) || this.newestFirst(a, b));
+  }
+
+  async getAddressById(id: number, userId: number): Promise<Address | undefined> {
+    const address = this.addresses.get(id);
+    return address?.userId === userId ? address : undefined;
+  }
+
+  async createAddress(userId: number, address: InsertAddress): Promise<Address> {
+    const isFirst = (await this.getAddresses(userId)).length === 0;
+    const newAddress: Address = {
+      id: this.nextId("addresses"),
+      userId,
+      label: address.label ?? null,
+      fullName: address.fullName,
+      line1: address.line1,
+      line2: address.line2 ?? null,
+      city: address.city,
+      region: address.region ?? null,
+      postalCode: address.postalCode,
+      country: address.country,
+      phone: address.phone ?? null,
+      isDefaultShipping: address.isDefaultShipping || isFirst,
+      isDefaultBilling: address.isDefaultBilling || isFirst,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.clearDefaultAddresses(userId, newAddress);
+    this.addresses.set(newAddress.id, newAddress);
+    return newAddress;
+  }
+
+  async updateAddress(id: number, userId: number, address: InsertAddress): Promise<Address | undefined> {
+    const existing = await this.getAddressById(id, userId);
+    if (!existing) return undefined;
+
+    this.clearDefaultAddresses(userId, address);
+    Object.assign(existing, toPostalAddress(address), {
+      label: address.label ?? null,
+      isDefaultShipping: address.isDefaultShipping,
+      isDefaultBilling: address.isDefaultBilling,
+      updatedAt: new Date(),
+    });
+    return existing;
+  }
+
+  async deleteAddress(id: number, userId: number): Promise<void> {
+    if (this.addresses.get(id)?.userId === userId) {
+      this.addresses.delete(id);
+    }
+  }
+
+  private clearDefaultAddresses(userId: number, address: Pick<InsertAddress, "isDefaultShipping" | "isDefaultBilling">) {
+    for (const other of Array.from(this.addresses.values())) {
+      if (other.userId !== userId) continue;
+      if (address.isDefaultShipping) other.isDefaultShipping = false;
+      if (address.isDefaultBilling) other.isDefaultBilling = false;
+    }
+  }
+
+  private withItems(order: Order): Order & { orderItems: Array<OrderItem & { product: Product }> } {
+    const items = Array.from(this.orderItems.values())
+      .filter(item => item.orderId === order.id)
+      .map(item => ({ ...item, product: this.products.get(item.productId)! }));
+    return { ...order, orderItems: items };
+  }
+
+  async getOrders(userId?: number, limit: number = 20, offset: number = 0): Promise<Array<Order & { orderItems: Array<OrderItem & { product: Product }> }>> {
+    return Array.from(this.orders.values())
+      .filter(order => !userId || order.userId === userId)
+      .sort(this.newestFirst)
+      .slice(offset, offset + limit)
+      .map(order => this.withItems(order));
+  }
+
+  async getOrderById(id: number): Promise<Order & { orderItems: Array<OrderItem & { product: Product }> } | undefined> {
+    const order = this.orders.get(id);
+    return order ? this.withItems(order) : undefined;
+  }
+
+  async getOrderByLookupToken(token: string): Promise<Order & { orderItems: Array<OrderItem & { product: Product }> } | undefined> {
+    const order = Array.from(this.orders.values()).find(order => order.lookupToken === token);
+    return order ? this.withItems(order) : undefined;
+  }
+
+  async placeOrder(order: InsertOrder, lines: OrderLine[], cartOwner: CartOwner, promotion?: Promotion): Promise<Order> {
+    // Everything below runs synchronously, so no other request can observe
+    // or modify stock between the check and the writes.
+    const lockedProducts = lines
+      .map(line => this.products.get(line.productId))
+      .filter((product): product is Product => !!product);
+
+    const conflicts = findOrderConflicts(lines, lockedProducts);
+    if (conflicts.length > 0) {
+      throw new OrderConflictError(conflicts);
+    }
+
+    const customer = { userId: order.userId, email: order.contactEmail ?? "" };
+    const storedPromotion = promotion && this.promotions.get(promotion.id);
+    if (promotion) {
+      if (!storedPromotion || (storedPromotion.usageLimit !== null && storedPromotion.usageCount >= storedPromotion.usageLimit)) {
+        throw new PromotionUnavailableError("This code has reached its usage limit");
+      }
+      if (storedPromotion.perCustomerLimit !== null
+        && this.customerRedemptions(promotion.id, customer).length >= storedPromotion.perCustomerLimit) {
+        throw new PromotionUnavailableError("You have already used this code");
+      }
+    }
+
+    const newOrder: Order = {
+      ...order,
+      id: this.nextId("orders"),
+      userId: order.userId ?? null,
+      contactEmail: order.contactEmail ?? null,
+      lookupToken: order.lookupToken ?? null,
+      discount: order.discount ?? "0",
+      promotionCode: order.promotionCode ?? null,
+      paymentIntentId: order.paymentIntentId ?? null,
+      status: order.status ?? "pending",
+      paymentStatus: order.paymentStatus ?? "pending",
+      billingAddress: order.billingAddress ?? null,
+      pricing: order.pricing ?? null,
+      createdAt: new Date(),
+    };
+    this.orders.set(newOrder.id, newOrder);
+    this.recordStatusEvent(newOrder.id, null, newOrder.status, { id: newOrder.userId, role: "customer" });
+
+    for (const line of lines) {
+      const orderItem: OrderItem = {
+        id: this.nextId("orderItems"),
+        orderId: newOrder.id,
+        productId: line.productId,
+        quantity: line.quantity,
+        price: line.price,
+        createdAt: new Date(),
+      };
+      this.orderItems.set(orderItem.id, orderItem);
+      this.products.get(line.productId)!.stock -= line.quantity;
+    }
+
+    if (storedPromotion) {
+      storedPromotion.usageCount += 1;
+      const redemption: PromotionRedemption = {
+        id: this.nextId("promotionRedemptions"),
+        promotionId: storedPromotion.id,
+        orderId: newOrder.id,
+        userId: order.userId ?? null,
+        email: customer.email.toLowerCase(),
+        createdAt: new Date(),
+      };
+      this.promotionRedemptions.set(redemption.id, redemption);
+    }
+
+    await this.clearCart(cartOwner);
+
+    return newOrder;
+  }
+
+  async claimGuestOrder(id: number, userId: number): Promise<Order | undefined> {
+    const order = this.orders.get(id);
+    if (!order || order.userId !== null) return undefined;
+    order.userId = userId;
+    return order;
+  }
+
+  async claimGuestOrders(userId: number, email: string): Promise<number> {
+    const guestOrders = Array.from(this.orders.values()).filter(order =>
+      order.userId === null && order.contactEmail?.toLowerCase() === email.toLowerCase()
+    );
+    for (const order of guestOrders) {
+      order.userId = userId;
+    }
+    return guestOrders.length;
+  }
+
+  async updateOrderStatus(id: number, status: OrderStatus, actor: OrderActor, note?: string): Promise<Order | undefined> {
+    const order = this.orders.get(id);
+    if (!order) return undefined;
+    if (!canTransitionOrder(order.status, status)) {
+      throw new OrderTransitionError(order.status, status);
+    }
+
+    this.recordStatusEvent(order.id, order.status, status, actor, note);
+    order.status = status;
+    if (status === "cancelled") {
+      for (const item of Array.from(this.orderItems.values())) {
+        const product = item.orderId === id ? this.products.get(item.productId) : undefined;
+        if (product) product.stock += item.quantity;
+      }
+    }
+    return order;
+  }
+
+  private recordStatusEvent(orderId: number, fromStatus: OrderStatus | null, toStatus: OrderStatus, actor: OrderActor, note?: string) {
+    const event: OrderStatusEvent = {
+      id: this.nextId("orderStatusEvents"),
+      orderId,
+      fromStatus,
+      toStatus,
+      actorId: actor.id,
+      actorRole: actor.role,
+      note: note ?? null,
+      createdAt: new Date(),
+    };
+    this.orderStatusEvents.set(event.id, event);
+  }
+
+  async getOrderStatusEvents(orderId: number): Promise<OrderStatusEventWithActor[]> {
+    return Array.from(this.orderStatusEvents.values())
+      .filter(event => event.orderId === orderId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime() || a.id - b.id)
+      .map(event => ({
+        ...event,
+        actorName: event.actorId ? this.users.get(event.actorId)?.fullName ?? null : null,
+      }));
+  }
+
+  async createReturnRequest(orderId: number, userId: number, lines: ReturnLine[], note?: string): Promise<ReturnRequestWithItems> {
+    const items = Array.from(this.orderItems.values()).filter(item => item.orderId === orderId);
+    const activeReturnIds = Array.from(this.returnRequests.values())
+      .filter(returnRequest => returnRequest.orderId === orderId && returnRequest.status !== "rejected")
+      .map(returnRequest => returnRequest.id);
+    const returned = Array.from(this.returnItems.values()).filter(item => activeReturnIds.includes(item.returnId));
+    checkReturnLines(lines, items, returned);
+
+    const returnRequest: ReturnRequest = {
+      id: this.nextId("returnRequests"),
+      orderId,
+      userId,
+      status: "requested",
+      note: note ?? null,
+      adminNote: null,
+      refundAmount: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.returnRequests.set(returnRequest.id, returnRequest);
+    for (const line of lines) {
+      const returnItem: ReturnItem = {
+        id: this.nextId("returnItems"),
+        returnId: returnRequest.id,
+        orderItemId: line.orderItemId,
+        quantity: line.quantity,
+        reason: line.reason,
+      };
+      this.returnItems.set(returnItem.id, returnItem);
+    }
+    return this.withReturnItems(returnRequest);
+  }
+
+  async getReturnRequests({ userId, orderId, status }: ReturnQuery = {}): Promise<ReturnRequestWithItems[]> {
+    return Array.from(this.returnRequests.values())
+      .filter(returnRequest =>
+        (userId === undefined || returnRequest.userId === userId) &&
+        (orderId === undefined || returnRequest.orderId === orderId) &&
+        (!status || returnRequest.status === status)
+      )
+      .sort((a, b) => this.newestFirst(a, b) || b.id - a.id)
+      .map(returnRequest => this.withReturnItems(returnRequest));
+  }
+
+  async getReturnRequestById(id: number): Promise<ReturnRequestWithItems | undefined> {
+    const returnRequest = this.returnRequests.get(id);
+    return returnRequest ? this.withReturnItems(returnRequest) : undefined;
+  }
+
+  async updateReturnStatus(id: number, status: ReturnStatus, update: ReturnUpdate = {}): Promise<ReturnRequest | undefined> {
+    const returnRequest = this.returnRequests.get(id);
+    if (!returnRequest) return undefined;
+    if (!canTransitionReturn(returnRequest.status, status)) {
+      throw new ReturnTransitionError(returnRequest.status, status);
+    }
+
+    const previousStatus = returnRequest.status;
+    returnRequest.status = status;
+    returnRequest.adminNote = update.adminNote ?? returnRequest.adminNote;
+    returnRequest.refundAmount = update.refundAmount ?? returnRequest.refundAmount;
+    returnRequest.updatedAt = new Date();
+    if (status === "received" && previousStatus === "approved") {
+      for (const item of this.withReturnItems(returnRequest).items) {
+        const product = this.products.get(item.orderItem.productId);
+        if (product) product.stock += item.quantity;
+      }
+    }
+    return returnRequest;
+  }
+
+  async claimReturnRefund(id: number): Promise<ReturnRequest | undefined> {
+    const returnRequest = this.returnRequests.get(id);
+    if (!returnRequest || returnRequest.status !== "received") return undefined;
+    returnRequest.status = "refunding";
+    returnRequest.updatedAt = new Date();
+    return returnRequest;
+  }
+
+  private withReturnItems(returnRequest: ReturnRequest): ReturnRequestWithItems {
+    return {
+      ...returnRequest,
+      items: Array.from(this.returnItems.values())
+        .filter(item => item.returnId === returnRequest.id)
+        .map(item => {
+          const orderItem = this.orderItems.get(item.orderItemId)!;
+          return { ...item, orderItem: { ...orderItem, product: this.products.get(orderItem.productId)! } };
+        }),
+    };
+  }
+
+  async getOrderByPaymentIntentId(paymentIntentId: string): Promise<Order | undefined> {
+    return Array.from(this.orders.values()).find(order => order.paymentIntentId === paymentIntentId);
+  }
+
+  async applyPaymentEvent(event: InsertPaymentEvent, paymentStatus: PaymentStatus): Promise<boolean> {
+    const seen = Array.from(this.paymentEvents.values()).some(existing => existing.eventId === event.eventId);
+    const order = this.orders.get(event.orderId);
+    if (seen || !order || !canTransitionPayment(order.paymentStatus, paymentStatus)) return false;
+
+    const paymentEvent: PaymentEvent = { ...event, id: this.nextId("paymentEvents"), createdAt: new Date() };
+    this.paymentEvents.set(paymentEvent.id, paymentEvent);
+    order.paymentStatus = paymentStatus;
+    return true;
+  }
+
+  async getOrderStats(): Promise<{
+    totalOrders: number;
+    totalRevenue: string;
+    totalProducts: number;
+    totalCustomers: number;
+  }> {
+    const orderList = Array.from(this.orders.values());
+    const totalRevenue = orderList.reduce((sum, order) => sum + parseFloat(order.total), 0);
+
+    return {
+      totalOrders: orderList.length,
+      totalRevenue: totalRevenue.toFixed(2),
+      totalProducts: this.products.size,
+      totalCustomers: Array.from(this.users.values()).filter(user => user.role === 'user').length,
+    };
+  }
+
+  async getReviews({ productId, status, sort = "newest", limit = 10, offset = 0 }: ReviewQuery): Promise<{ reviews: ReviewWithAuthor[]; total: number }> {
+    const compare = {
+      newest: (a: Review, b: Review) => this.newestFirst(a, b),
+      oldest: (a: Review, b: Review) => -this.newestFirst(a, b),
+      highest: (a: Review, b: Review) => b.rating - a.rating || this.newestFirst(a, b),
+      lowest: (a: Review, b: Review) => a.rating - b.rating || this.newestFirst(a, b),
+    }[sort];
+
+    const matching = Array.from(this.reviews.values())
+      .filter(review => !productId || review.productId === productId)
+      .filter(review => !status || review.status === status)
+      .sort(compare);
+
+    return {
+      reviews: matching.slice(offset, offset + limit).map(review => ({
+        ...review,
+        authorName: this.users.get(review.userId)?.fullName ?? "",
+      })),
+      total: matching.length,
+    };
+  }
+
+  async getReviewById(id: number): Promise<Review | undefined> {
+    return this.reviews.get(id);
+  }
+
+  async getUserReviewForProduct(userId: number, productId: number): Promise<Review | undefined> {
+    return Array.from(this.reviews.values()).find(
+      review => review.userId === userId && review.productId === productId,
+    );
+  }
+
+  async hasPurchasedProduct(userId: number, productId: number): Promise<boolean> {
+    return Array.from(this.orderItems.values()).some(item => {
+      const order = this.orders.get(item.orderId);
+      return item.productId === productId && order?.userId === userId && order.status !== "cancelled";
+    });
+  }
+
+  async createReview(review: InsertReview): Promise<Review> {
+    const newReview: Review = {
+      ...review,
+      id: this.nextId("reviews"),
+      status: "pending",
+      createdAt: new Date(),
+    };
+    this.reviews.set(newReview.id, newReview);
+    return newReview;
+  }
+
+  async updateReviewStatus(id: number, status: ReviewStatus): Promise<Review | undefined> {
+    const review = this.reviews.get(id);
+    if (!review) return undefined;
+    review.status = status;
+    await this.recomputeProductRating(review.productId);
+    return review;
+  }
+
+  async deleteReview(id: number): Promise<void> {
+    const review = this.reviews.get(id);
+    if (review) {
+      this.reviews.delete(id);
+      await this.recomputeProductRating(review.productId);
+    }
+  }
+
+  async recomputeProductRating(productId: number): Promise<void> {
+    const product = this.products.get(productId);
+    if (!product) return;
+
+    const approved = Array.from(this.reviews.values())
+      .filter(review => review.productId === productId && review.status === "approved");
+    const average = approved.length > 0
+      ? approved.reduce((sum, review) => sum + review.rating, 0) / approved.length
+      : 0;
+
+    product.rating = average.toFixed(2);
+    product.reviewCount = approved.length;
+  }
+
+  async recomputeAllProductRatings(): Promise<number> {
+    for (const id of Array.from(this.products.keys())) {
+      await this.recomputeProductRating(id);
+    }
+    return this.products.size;
+  }
+
+  async getPromotions(): Promise<Promotion[]> {
+    return Array.from(this.promotions.values()).sort(this.newestFirst);
+  }
+
+  async getPromotionById(id: number): Promise<Promotion | undefined> {
+    return this.promotions.get(id);
+  }
+
+  async getPromotionByCode(code: string): Promise<Promotion | undefined> {
+    return Array.from(this.promotions.values()).find(promotion => promotion.code === code.toUpperCase());
+  }
+
+  async createPromotion(promotion: InsertPromotion): Promise<Promotion> {
+    const newPromotion: Promotion = {
+      id: this.nextId("promotions"),
+      code: promotion.code,
+      description: promotion.description ?? null,
+      type: promotion.type,
+      value: promotion.value ?? 0,
+      buyQuantity: promotion.buyQuantity ?? null,
+      getQuantity: promotion.getQuantity ?? null,
+      minSubtotal: promotion.minSubtotal ?? 0,
+      productIds: promotion.productIds ?? null,
+      categoryIds: promotion.categoryIds ?? null,
+      usageLimit: promotion.usageLimit ?? null,
+      perCustomerLimit: promotion.perCustomerLimit ?? null,
+      usageCount: 0,
+      startsAt: promotion.startsAt ?? null,
+      endsAt: promotion.endsAt ?? null,
+      isActive: promotion.isActive ?? true,
+      createdAt: new Date(),
+    };
+    this.promotions.set(newPromotion.id, newPromotion);
+    return newPromotion;
+  }
+
+  async updatePromotion(id: number, promotion: InsertPromotion): Promise<Promotion | undefined> {
+    const existing = this.promotions.get(id);
+    if (!existing) return undefined;
+    const updated: Promotion = { ...existing, ...promotion, type: promotion.type };
+    this.promotions.set(id, updated);
+    return updated;
+  }
+
+  async deletePromotion(id: number): Promise<void> {
+    this.promotions.delete(id);
+    for (const redemption of Array.from(this.promotionRedemptions.values())) {
+      if (redemption.promotionId === id) {
+        this.promotionRedemptions.delete(redemption.id);
+      }
+    }
+  }
+
+  private customerRedemptions(promotionId: number, customer: PromotionCustomer): PromotionRedemption[] {
+    return Array.from(this.promotionRedemptions.values()).filter(redemption =>
+      redemption.promotionId === promotionId && (
+        (!!customer.userId && redemption.userId === customer.userId)
+        || redemption.email.toLowerCase() === customer.email.toLowerCase()
+      )
+    );
+  }
+
+  async countCustomerRedemptions(promotionId: number, customer: PromotionCustomer): Promise<number> {
+    return this.customerRedemptions(promotionId, customer).length;
+  }
+
+  async getTwoFactorCredential(userId: number): Promise<TwoFactorCredential | undefined> {
+    return this.twoFactorCredentials.get(userId);
+  }
+
+  async startTwoFactorEnrollment(userId: number, secret: string): Promise<TwoFactorCredential> {
+    const credential: TwoFactorCredential = {
+      userId,
+      secret,
+      enabledAt: null,
+      recoveryCodeHashes: [],
+      lastUsedStep: null,
+      createdAt: new Date(),
+    };
+    this.twoFactorCredentials.set(userId, credential);
+    return credential;
+  }
+
+  async enableTwoFactor(userId: number, recoveryCodeHashes: string[]): Promise<TwoFactorCredential | undefined> {
+    const credential = this.twoFactorCredentials.get(userId);
+    if (!credential || credential.enabledAt) return undefined;
+    credential.enabledAt = new Date();
+    credential.recoveryCodeHashes = recoveryCodeHashes;
+    return credential;
+  }
+
+  async replaceRecoveryCodes(userId: number, recoveryCodeHashes: string[]): Promise<void> {
+    const credential = this.twoFactorCredentials.get(userId);
+    if (credential) credential.recoveryCodeHashes = recoveryCodeHashes;
+  }
+
+  async consumeRecoveryCode(userId: number, codeHash: string): Promise<boolean> {
+    const credential = this.twoFactorCredentials.get(userId);
+    if (!credential || !credential.recoveryCodeHashes.includes(codeHash)) return false;
+    credential.recoveryCodeHashes = credential.recoveryCodeHashes.filter(hash => hash !== codeHash);
+    return true;
+  }
+
+  async recordTotpStep(userId: number, step: number): Promise<boolean> {
+    const credential = this.twoFactorCredentials.get(userId);
+    if (!credential || (credential.lastUsedStep !== null && credential.lastUsedStep >= step)) return false;
+    credential.lastUsedStep = step;
+    return true;
+  }
+
+  async deleteTwoFactorCredential(userId: number): Promise<void> {
+    this.twoFactorCredentials.delete(userId);
+  }
+
+  async createOutboxEmail(email: InsertOutboxEmail): Promise<OutboxEmail> {
+    const outboxEmail: OutboxEmail = {
+      ...email,
+      id: this.nextId("emailOutbox"),
+      createdAt: new Date(),
+    };
+    this.emailOutbox.set(outboxEmail.id, outboxEmail);
+    return outboxEmail;
+  }
+
+  async getOutboxEmails(limit: number = 50, offset: number = 0): Promise<OutboxEmail[]> {
+    return Array.from(this.emailOutbox.values())
+      .sort(this.newestFirst)
+      .slice(offset, offset + limit);
+  }
+
+  async getOutboxEmailById(id: number): Promise<OutboxEmail | undefined> {
+    return this.emailOutbox.get(id);
+  }
+
+  async getStoreSettings(): Promise<StoreSettings> {
+    return this.storeSettings;
+  }
+
+  async updateStoreSettings(settings: UpdateStoreSettings): Promise<StoreSettings> {
+    this.storeSettings = { ...this.storeSettings, ...settings, updatedAt: new Date() };
+    return this.storeSettings;
+  }
+
+  private get memoryStore() {
+    return this.sessionStore as InstanceType<typeof MemoryStore>;
+  }
+
+  private allSessions(): Promise<Record<string, StoredSession["data"]>> {
+    return new Promise((resolve, reject) =>
+      this.memoryStore.all((err, sessions) =>
+        (err ? reject(err) : resolve((sessions ?? {}) as Record<string, StoredSession["data"]>))));
+  }
+
+  async purgeExpiredSessions(): Promise<{ sessions: number; guestCartItems: number }> {
+    const store = this.memoryStore;
+    const before = await new Promise<number>((resolve, reject) =>
+      store.length((err, length) => (err ? reject(err) : resolve(length ?? 0))));
+    store.prune();
+    const live = await this.allSessions();
+
+    let guestCartItems = 0;
+    for (const [id, item] of Array.from(this.cartItems.entries())) {
+      if (item.sessionId && !(item.sessionId in live)) {
+        this.cartItems.delete(id);
+        guestCartItems++;
+      }
+    }
+    return { sessions: before - Object.keys(live).length, guestCartItems };
+  }
+
+  async getUserSessions(userId: number): Promise<StoredSession[]> {
+    return Object.entries(await this.allSessions())
+      .filter(([, data]) => data.passport?.user === userId)
+      .map(([sid, data]) => ({ sid, expiresAt: data.cookie.expires ? new Date(data.cookie.expires) : null, data }));
+  }
+
+  async deleteUserSessions(userId: number): Promise<number> {
+    const sessions = await this.getUserSessions(userId);
+    for (const { sid } of sessions) {
+      await new Promise<void>((resolve, reject) =>
+        this.memoryStore.destroy(sid, (err) => (err ? reject(err) : resolve())));
+    }
+    return sessions.length;
+  }
 }
 
-export const storage = new DatabaseStorage();
-            
+export const storage: IStorage = isDatabaseConfigured ? new DatabaseStorage() : new MemStorage();
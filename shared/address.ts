@@ -0,0 +1,95 @@
+import { z } from "zod";
+
+// Postal address shape shared by the address book, checkout and the
+// snapshots stored on orders. Postal codes are validated per country.
+
+type CountryRule = {
+  name: string;
+  postalCode: RegExp;
+  postalCodeLabel: string;
+  postalCodeExample: string;
+  regionLabel: string;
+  requiresRegion: boolean;
+};
+
+export const COUNTRIES = {
+  US: { name: "United States", postalCode: /^\d{5}(-\d{4})?$/, postalCodeLabel: "ZIP code", postalCodeExample: "10001", regionLabel: "State", requiresRegion: true },
+  CA: { name: "Canada", postalCode: /^[A-Z]\d[A-Z] ?\d[A-Z]\d$/, postalCodeLabel: "Postal code", postalCodeExample: "K1A 0B1", regionLabel: "Province", requiresRegion: true },
+  GB: { name: "United Kingdom", postalCode: /^[A-Z]{1,2}\d[A-Z\d]? ?\d[A-Z]{2}$/, postalCodeLabel: "Postcode", postalCodeExample: "SW1A 1AA", regionLabel: "County", requiresRegion: false },
+  IE: { name: "Ireland", postalCode: /^[A-Z]\d[\dW] ?[A-Z\d]{4}$/, postalCodeLabel: "Eircode", postalCodeExample: "D02 AF30", regionLabel: "County", requiresRegion: false },
+  DE: { name: "Germany", postalCode: /^\d{5}$/, postalCodeLabel: "Postleitzahl", postalCodeExample: "10115", regionLabel: "State", requiresRegion: false },
+  FR: { name: "France", postalCode: /^\d{5}$/, postalCodeLabel: "Code postal", postalCodeExample: "75001", regionLabel: "Region", requiresRegion: false },
+  NL: { name: "Netherlands", postalCode: /^\d{4} ?[A-Z]{2}$/, postalCodeLabel: "Postcode", postalCodeExample: "1012 AB", regionLabel: "Province", requiresRegion: false },
+  AU: { name: "Australia", postalCode: /^\d{4}$/, postalCodeLabel: "Postcode", postalCodeExample: "2000", regionLabel: "State", requiresRegion: true },
+  IN: { name: "India", postalCode: /^\d{6}$/, postalCodeLabel: "PIN code", postalCodeExample: "110001", regionLabel: "State", requiresRegion: true },
+  JP: { name: "Japan", postalCode: /^\d{3}-?\d{4}$/, postalCodeLabel: "Postal code", postalCodeExample: "100-0001", regionLabel: "Prefecture", requiresRegion: true },
+} satisfies Record<string, CountryRule>;
+
+export type CountryCode = keyof typeof COUNTRIES;
+
+export const COUNTRY_CODES = Object.keys(COUNTRIES) as [CountryCode, ...CountryCode[]];
+
+export const DEFAULT_COUNTRY: CountryCode = "US";
+
+export const countryCodeSchema = z.enum(COUNTRY_CODES);
+
+// Object shape without the cross-field checks, for schemas that extend it
+export const addressFieldsSchema = z.object({
+  fullName: z.string().trim().min(1, "Full name is required").max(100),
+  line1: z.string().trim().min(1, "Address is required").max(200),
+  line2: z.string().trim().max(200).nullish(),
+  city: z.string().trim().min(1, "City is required").max(100),
+  region: z.string().trim().max(100).nullish(),
+  postalCode: z.string().trim().toUpperCase().max(20),
+  country: countryCodeSchema,
+  phone: z.string().trim().max(30).nullish(),
+});
+
+export function validatePostalAddress(
+  address: { country: CountryCode; postalCode: string; region?: string | null },
+  ctx: z.RefinementCtx,
+) {
+  const rule: CountryRule = COUNTRIES[address.country];
+  if (!rule.postalCode.test(address.postalCode)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["postalCode"],
+      message: `Enter a valid ${rule.postalCodeLabel}, e.g. ${rule.postalCodeExample}`,
+    });
+  }
+  if (rule.requiresRegion && !address.region) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["region"],
+      message: `${rule.regionLabel} is required`,
+    });
+  }
+}
+
+export const addressSchema = addressFieldsSchema.superRefine(validatePostalAddress);
+
+export type PostalAddress = z.infer<typeof addressSchema>;
+
+// Picks the postal fields off a saved address (or any superset of them)
+export function toPostalAddress(address: PostalAddress): PostalAddress {
+  return {
+    fullName: address.fullName,
+    line1: address.line1,
+    line2: address.line2 ?? null,
+    city: address.city,
+    region: address.region ?? null,
+    postalCode: address.postalCode,
+    country: address.country,
+    phone: address.phone ?? null,
+  };
+}
+
+export function formatAddressLines(address: PostalAddress): string[] {
+  return [
+    address.fullName,
+    address.line1,
+    address.line2,
+    [address.city, address.region, address.postalCode].filter(Boolean).join(", "),
+    COUNTRIES[address.country]?.name ?? address.country,
+  ].filter((line): line is string => !!line);
+}
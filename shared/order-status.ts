@@ -0,0 +1,46 @@
+// Order lifecycle shared by the server (which enforces it in
+// storage.updateOrderStatus) and the client (which only offers valid moves).
+//
+//   pending → paid → processing → shipped → delivered
+//
+// Orders can be cancelled until they ship and refunded once money was taken.
+
+export const ORDER_STATUSES = [
+  "pending",
+  "paid",
+  "processing",
+  "shipped",
+  "delivered",
+  "cancelled",
+  "refunded",
+] as const;
+
+export type OrderStatus = (typeof ORDER_STATUSES)[number];
+
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending: ["paid", "cancelled"],
+  paid: ["processing", "cancelled", "refunded"],
+  processing: ["shipped", "cancelled", "refunded"],
+  shipped: ["delivered", "refunded"],
+  delivered: ["refunded"],
+  cancelled: [],
+  refunded: [],
+};
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  pending: "Awaiting payment",
+  paid: "Paid",
+  processing: "Processing",
+  shipped: "Shipped",
+  delivered: "Delivered",
+  cancelled: "Cancelled",
+  refunded: "Refunded",
+};
+
+export function canTransitionOrder(from: string, to: OrderStatus): boolean {
+  return ORDER_STATUS_TRANSITIONS[from as OrderStatus]?.includes(to) ?? false;
+}
+
+export function nextOrderStatuses(from: string): OrderStatus[] {
+  return ORDER_STATUS_TRANSITIONS[from as OrderStatus] ?? [];
+}
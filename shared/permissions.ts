@@ -0,0 +1,65 @@
+// Role-based access control shared by the server (which checks permissions per
+// route in requirePermission) and the client (which hides admin tabs the user
+// cannot use). Each user has one role; "user" is a customer with no staff
+// permissions and "admin" holds every permission.
+
+export const PERMISSIONS = [
+  "reports:read", // dashboard figures
+  "catalog:manage", // products and categories
+  "orders:read",
+  "orders:update", // status changes
+  "payments:manage", // capture, void and refund
+  "returns:manage",
+  "reviews:moderate",
+  "promotions:manage",
+  "emails:read", // the email outbox
+  "settings:manage",
+  "customers:read", // the Customers tab and user details
+  "customers:manage", // disabling accounts, password resets, notes, sign-outs
+  "users:manage", // role assignments
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+export const USER_ROLES = [
+  "user",
+  "admin",
+  "catalog-manager",
+  "order-fulfilment",
+  "support",
+  "finance",
+] as const;
+
+export type UserRole = (typeof USER_ROLES)[number];
+
+export const ROLE_PERMISSIONS: Record<UserRole, readonly Permission[]> = {
+  user: [],
+  admin: PERMISSIONS,
+  "catalog-manager": ["catalog:manage", "reviews:moderate", "promotions:manage"],
+  "order-fulfilment": ["orders:read", "orders:update", "returns:manage"],
+  support: ["orders:read", "returns:manage", "reviews:moderate", "emails:read", "customers:read", "customers:manage"],
+  finance: ["reports:read", "orders:read", "payments:manage", "returns:manage", "promotions:manage", "customers:read"],
+};
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  user: "Customer",
+  admin: "Administrator",
+  "catalog-manager": "Catalog manager",
+  "order-fulfilment": "Order fulfilment",
+  support: "Support",
+  finance: "Finance",
+};
+
+// Roles are stored as text, so anything unknown is treated as a customer
+export function permissionsFor(role: string): readonly Permission[] {
+  return ROLE_PERMISSIONS[role as UserRole] ?? [];
+}
+
+export function hasPermission(role: string, permission: Permission): boolean {
+  return permissionsFor(role).includes(permission);
+}
+
+// Staff are users with at least one permission; they can open the admin panel
+export function isStaffRole(role: string): boolean {
+  return permissionsFor(role).length > 0;
+}
@@ -0,0 +1,207 @@
+// Pricing engine shared by the server (order placement, cart quotes) and the
+// client (display). All amounts are integer minor units (cents) so totals never
+// suffer from floating point drift; decimal strings from the database are only
+// converted at the edges with toMinorUnits/fromMinorUnits.
+
+import type { PostalAddress } from "./address";
+
+export type PricingLine = {
+  productId: number;
+  categoryId?: number | null;
+  unitPrice: string; // decimal string as stored on products.price
+  quantity: number;
+};
+
+// Who is buying, for per-customer promotion limits
+export type PromotionCustomer = {
+  userId?: number | null;
+  email: string;
+};
+
+// Everything about the checkout besides its lines that can change a quote.
+// The engine does not price by destination yet, so the address is only
+// carried through.
+export type PricingContext = {
+  shippingAddress?: PostalAddress;
+  couponCode?: string;
+  customer?: PromotionCustomer;
+};
+
+export type PricingRules = {
+  currency: string;
+  taxRateBps: number; // basis points, 800 = 8%
+  freeShippingThreshold: number; // minor units; subtotals above this ship free
+  flatShippingFee: number; // minor units
+};
+
+export type PromotionType = "percentage" | "fixed_amount" | "free_shipping" | "buy_x_get_y";
+
+// The parts of a promotion the engine needs. Usage limits are not checked here
+// since they depend on stored redemptions; the server does that before quoting.
+export type PromotionRule = {
+  code: string;
+  type: PromotionType;
+  value: number; // whole percent for "percentage", minor units for "fixed_amount"
+  buyQuantity?: number | null; // buy_x_get_y: every buyQuantity + getQuantity
+  getQuantity?: number | null; // eligible units, the getQuantity cheapest are free
+  minSubtotal: number; // minor units
+  productIds?: number[] | null; // when either list is set, only matching lines
+  categoryIds?: number[] | null; // count towards and receive the discount
+  startsAt?: Date | string | null;
+  endsAt?: Date | string | null;
+};
+
+export type QuoteLine = {
+  productId: number;
+  quantity: number;
+  unitPrice: number;
+  lineTotal: number;
+};
+
+export type PriceQuote = {
+  currency: string;
+  lines: QuoteLine[];
+  subtotal: number;
+  discount: number;
+  shipping: number;
+  tax: number;
+  total: number;
+  promotionCode?: string; // set when a promotion was applied
+  promotionError?: string; // why the requested code was not applied
+};
+
+export const DEFAULT_PRICING_RULES: PricingRules = {
+  currency: "USD",
+  taxRateBps: 800,
+  freeShippingThreshold: 5000,
+  flatShippingFee: 999,
+};
+
+export function toMinorUnits(amount: string | number): number {
+  const [whole, fraction = ""] = String(amount).trim().split(".");
+  const negative = whole.startsWith("-");
+  const cents = Math.abs(parseInt(whole || "0", 10)) * 100 + parseInt((fraction + "00").slice(0, 2), 10);
+  return negative ? -cents : cents;
+}
+
+export function fromMinorUnits(amount: number): string {
+  const sign = amount < 0 ? "-" : "";
+  const abs = Math.abs(amount);
+  return `${sign}${Math.floor(abs / 100)}.${String(abs % 100).padStart(2, "0")}`;
+}
+
+type PromotionResult =
+  | { discount: number; freeShipping: boolean; error?: undefined }
+  | { error: string };
+
+function applyPromotion(
+  promotion: PromotionRule,
+  lines: PricingLine[],
+  quoteLines: QuoteLine[],
+  subtotal: number,
+  now: Date,
+): PromotionResult {
+  if (promotion.startsAt && new Date(promotion.startsAt) > now) {
+    return { error: "This code is not active yet" };
+  }
+  if (promotion.endsAt && new Date(promotion.endsAt) < now) {
+    return { error: "This code has expired" };
+  }
+  if (subtotal < promotion.minSubtotal) {
+    return { error: `This code requires a subtotal of at least ${fromMinorUnits(promotion.minSubtotal)}` };
+  }
+
+  const scoped = !!(promotion.productIds?.length || promotion.categoryIds?.length);
+  const eligible = quoteLines.filter((_, i) => {
+    const line = lines[i];
+    return !scoped
+      || promotion.productIds?.includes(line.productId)
+      || (line.categoryId != null && promotion.categoryIds?.includes(line.categoryId));
+  });
+  if (eligible.length === 0) {
+    return { error: "This code does not apply to any items in your cart" };
+  }
+  const eligibleSubtotal = eligible.reduce((sum, line) => sum + line.lineTotal, 0);
+
+  switch (promotion.type) {
+    case "percentage":
+      return { discount: Math.round((eligibleSubtotal * promotion.value) / 100), freeShipping: false };
+    case "fixed_amount":
+      return { discount: Math.min(promotion.value, eligibleSubtotal), freeShipping: false };
+    case "free_shipping":
+      return { discount: 0, freeShipping: true };
+    case "buy_x_get_y": {
+      const buy = promotion.buyQuantity ?? 0;
+      const get = promotion.getQuantity ?? 0;
+      const unitPrices = eligible
+        .flatMap(line => Array<number>(line.quantity).fill(line.unitPrice))
+        .sort((a, b) => a - b);
+      const freeUnits = buy + get > 0 ? Math.floor(unitPrices.length / (buy + get)) * get : 0;
+      if (freeUnits === 0) {
+        return { error: `Add ${buy + get} eligible items to use this code` };
+      }
+      const discount = unitPrices.slice(0, freeUnits).reduce((sum, price) => sum + price, 0);
+      return { discount, freeShipping: false };
+    }
+  }
+}
+
+export function quoteCart(
+  lines: PricingLine[],
+  _context: PricingContext = {},
+  rules: PricingRules = DEFAULT_PRICING_RULES,
+  promotion?: PromotionRule,
+  now: Date = new Date(),
+): PriceQuote {
+  const quoteLines = lines.map(line => {
+    const unitPrice = toMinorUnits(line.unitPrice);
+    return {
+      productId: line.productId,
+      quantity: line.quantity,
+      unitPrice,
+      lineTotal: unitPrice * line.quantity,
+    };
+  });
+
+  const subtotal = quoteLines.reduce((sum, line) => sum + line.lineTotal, 0);
+
+  let discount = 0;
+  let freeShipping = false;
+  let promotionError: string | undefined;
+  if (promotion) {
+    const result = applyPromotion(promotion, lines, quoteLines, subtotal, now);
+    if (result.error !== undefined) {
+      promotionError = result.error;
+    } else {
+      discount = Math.min(result.discount, subtotal);
+      freeShipping = result.freeShipping;
+    }
+  }
+
+  const taxable = subtotal - discount;
+  const shipping = subtotal === 0 || freeShipping || subtotal > rules.freeShippingThreshold ? 0 : rules.flatShippingFee;
+  const tax = Math.round((taxable * rules.taxRateBps) / 10000);
+
+  return {
+    currency: rules.currency,
+    lines: quoteLines,
+    subtotal,
+    discount,
+    shipping,
+    tax,
+    total: taxable + shipping + tax,
+    ...(promotion && !promotionError ? { promotionCode: promotion.code } : {}),
+    ...(promotionError ? { promotionError } : {}),
+  };
+}
+
+// What sending back goods worth `value` (minor units, at the prices charged)
+// refunds from a quote: the goods less their share of the order's discount,
+// plus the tax charged on that. Shipping is not refunded.
+export function prorateRefund(quote: Pick<PriceQuote, "subtotal" | "discount" | "tax">, value: number): number {
+  if (quote.subtotal <= 0) return 0;
+  const discounted = value - (quote.discount * value) / quote.subtotal;
+  const taxable = quote.subtotal - quote.discount;
+  const tax = taxable > 0 ? (quote.tax * discounted) / taxable : 0;
+  return Math.round(discounted + tax);
+}
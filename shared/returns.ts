@@ -0,0 +1,69 @@
+// Return (RMA) lifecycle shared by the server (which enforces it in
+// storage.updateReturnStatus) and the client (which only offers valid moves).
+//
+//   requested → approved → received → (refunding →) refunded
+//
+// Requests can be rejected until the goods arrive. Stock is restored when a
+// return is marked received. When an admin marks it refunded, the server holds
+// it in refunding while the payment provider is called (see
+// storage.claimReturnRefund) and puts it back to received if the refund fails.
+
+import type { OrderStatus } from "./order-status";
+
+export const RETURN_STATUSES = [
+  "requested",
+  "approved",
+  "rejected",
+  "received",
+  "refunding",
+  "refunded",
+] as const;
+
+export type ReturnStatus = (typeof RETURN_STATUSES)[number];
+
+export const RETURN_STATUS_TRANSITIONS: Record<ReturnStatus, ReturnStatus[]> = {
+  requested: ["approved", "rejected"],
+  approved: ["received", "rejected"],
+  received: ["refunded"],
+  refunding: ["refunded", "received"],
+  rejected: [],
+  refunded: [],
+};
+
+export const RETURN_STATUS_LABELS: Record<ReturnStatus, string> = {
+  requested: "Requested",
+  approved: "Approved",
+  rejected: "Rejected",
+  received: "Received",
+  refunding: "Refunding",
+  refunded: "Refunded",
+};
+
+export const RETURN_REASONS = [
+  "damaged",
+  "wrong_item",
+  "not_as_described",
+  "no_longer_needed",
+  "other",
+] as const;
+
+export type ReturnReason = (typeof RETURN_REASONS)[number];
+
+export const RETURN_REASON_LABELS: Record<ReturnReason, string> = {
+  damaged: "Arrived damaged",
+  wrong_item: "Wrong item sent",
+  not_as_described: "Not as described",
+  no_longer_needed: "No longer needed",
+  other: "Other",
+};
+
+// Only orders the customer has received can be returned
+export const RETURNABLE_ORDER_STATUSES: OrderStatus[] = ["delivered"];
+
+export function canTransitionReturn(from: string, to: ReturnStatus): boolean {
+  return RETURN_STATUS_TRANSITIONS[from as ReturnStatus]?.includes(to) ?? false;
+}
+
+export function nextReturnStatuses(from: string): ReturnStatus[] {
+  return RETURN_STATUS_TRANSITIONS[from as ReturnStatus] ?? [];
+}
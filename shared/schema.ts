@@ -1,7 +1,20 @@
-import { pgTable, text, serial, integer, boolean, timestamp, decimal, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, decimal, jsonb, index, customType } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 import { relations } from "drizzle-orm";
+import type { PriceQuote, PromotionType } from "./pricing";
+import { ORDER_STATUSES, type OrderStatus } from "./order-status";
+import { RETURN_STATUSES, RETURN_REASONS, type ReturnStatus, type ReturnReason } from "./returns";
+import { USER_ROLES, type UserRole } from "./permissions";
+import { SEARCH_CLICK_SOURCES, type SearchEventType, type SearchClickSource } from "./search";
+import { addressSchema, addressFieldsSchema, validatePostalAddress, type CountryCode, type PostalAddress } from "./address";
+
+// Postgres full-text search document; only ever built and queried in SQL
+const tsvector = customType<{ data: string }>({
+  dataType() {
+    return "tsvector";
+  },
+});
 
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
@@ -9,7 +22,9 @@ export const users = pgTable("users", {
   email: text("email").notNull().unique(),
   password: text("password").notNull(),
   fullName: text("full_name").notNull(),
-  role: text("role").notNull().default("user"), // user, admin
+  role: text("role").$type<UserRole>().notNull().default("user"), // see shared/permissions.ts
+  emailVerifiedAt: timestamp("email_verified_at"), // null until the current email is verified
+  disabledAt: timestamp("disabled_at"), // disabled accounts can't sign in
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
@@ -38,28 +53,69 @@ export const products = pgTable("products", {
   isFeatured: boolean("is_featured").notNull().default(false),
   tags: text("tags").array(),
   createdAt: timestamp("created_at").notNull().defaultNow(),
-});
+}, (table) => [
+  // Trigram index for typo-tolerant name matching; needs the pg_trgm extension
+  index("products_name_trgm_idx").using("gin", table.name.op("gin_trgm_ops")),
+]);
 
+// A cart line belongs either to a user or, for anonymous visitors, to their
+// express-session id. Guest lines are merged into the user's cart on login.
 export const cartItems = pgTable("cart_items", {
   id: serial("id").primaryKey(),
-  userId: integer("user_id").notNull().references(() => users.id),
+  userId: integer("user_id").references(() => users.id),
+  sessionId: text("session_id"),
   productId: integer("product_id").notNull().references(() => products.id),
   quantity: integer("quantity").notNull().default(1),
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
-export const orders = pgTable("orders", {
+export const wishlistItems = pgTable("wishlist_items", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").notNull().references(() => users.id),
-  status: text("status").notNull().default("pending"), // pending, processing, shipped, delivered, cancelled
+  productId: integer("product_id").notNull().references(() => products.id, { onDelete: "cascade" }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const orders = pgTable("orders", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id), // null for guest orders
+  contactEmail: text("contact_email"),
+  // Unguessable token for the public order status page; only set on guest orders
+  lookupToken: text("lookup_token").unique(),
+  status: text("status").$type<OrderStatus>().notNull().default("pending"), // see shared/order-status.ts
   subtotal: decimal("subtotal", { precision: 10, scale: 2 }).notNull(),
+  discount: decimal("discount", { precision: 10, scale: 2 }).notNull().default("0"),
+  promotionCode: text("promotion_code"),
   tax: decimal("tax", { precision: 10, scale: 2 }).notNull(),
   shipping: decimal("shipping", { precision: 10, scale: 2 }).notNull(),
   total: decimal("total", { precision: 10, scale: 2 }).notNull(),
-  shippingAddress: jsonb("shipping_address").notNull(),
+  shippingAddress: jsonb("shipping_address").$type<PostalAddress>().notNull(), // snapshot, see shared/address.ts
+  billingAddress: jsonb("billing_address").$type<PostalAddress>(), // null on orders placed before billing was collected
   paymentMethod: text("payment_method").notNull(),
-  paymentStatus: text("payment_status").notNull().default("pending"), // pending, paid, failed
+  paymentStatus: text("payment_status").notNull().default("pending"), // pending, authorized, paid, failed, voided, refunded
+  paymentIntentId: text("payment_intent_id").unique(), // id at the payment provider
+  pricing: jsonb("pricing").$type<PriceQuote>(), // itemized quote the customer was charged
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Saved addresses for the address book. Each user has at most one default
+// shipping and one default billing address.
+export const addresses = pgTable("addresses", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  label: text("label"), // e.g. Home, Work
+  fullName: text("full_name").notNull(),
+  line1: text("line1").notNull(),
+  line2: text("line2"),
+  city: text("city").notNull(),
+  region: text("region"), // state, province, county...
+  postalCode: text("postal_code").notNull(),
+  country: text("country").$type<CountryCode>().notNull(), // ISO 3166-1 alpha-2
+  phone: text("phone"),
+  isDefaultShipping: boolean("is_default_shipping").notNull().default(false),
+  isDefaultBilling: boolean("is_default_billing").notNull().default(false),
   createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
 });
 
 export const orderItems = pgTable("order_items", {
@@ -71,10 +127,270 @@ export const orderItems = pgTable("order_items", {
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
+export const reviews = pgTable("reviews", {
+  id: serial("id").primaryKey(),
+  productId: integer("product_id").notNull().references(() => products.id, { onDelete: "cascade" }),
+  userId: integer("user_id").notNull().references(() => users.id),
+  rating: integer("rating").notNull(), // 1-5
+  title: text("title").notNull(),
+  body: text("body").notNull(),
+  isVerifiedPurchase: boolean("is_verified_purchase").notNull().default(false),
+  status: text("status").notNull().default("pending"), // pending, approved, rejected
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Audit trail of every order status change. actorId is null for changes made
+// by the system (e.g. payment webhooks) and for guest customers.
+export const orderStatusEvents = pgTable("order_status_events", {
+  id: serial("id").primaryKey(),
+  orderId: integer("order_id").notNull().references(() => orders.id, { onDelete: "cascade" }),
+  fromStatus: text("from_status").$type<OrderStatus>(), // null for the event that created the order
+  toStatus: text("to_status").$type<OrderStatus>().notNull(),
+  actorId: integer("actor_id").references(() => users.id),
+  actorRole: text("actor_role").$type<OrderActorRole>().notNull(), // customer, admin, system
+  note: text("note"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Customer return requests (RMAs), one item per order line being sent back.
+// refundAmount is in minor units and set when the return is refunded.
+export const returnRequests = pgTable("return_requests", {
+  id: serial("id").primaryKey(),
+  orderId: integer("order_id").notNull().references(() => orders.id, { onDelete: "cascade" }),
+  userId: integer("user_id").notNull().references(() => users.id),
+  status: text("status").$type<ReturnStatus>().notNull().default("requested"), // see shared/returns.ts
+  note: text("note"), // from the customer
+  adminNote: text("admin_note"),
+  refundAmount: integer("refund_amount"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const returnItems = pgTable("return_items", {
+  id: serial("id").primaryKey(),
+  returnId: integer("return_id").notNull().references(() => returnRequests.id, { onDelete: "cascade" }),
+  orderItemId: integer("order_item_id").notNull().references(() => orderItems.id),
+  quantity: integer("quantity").notNull(),
+  reason: text("reason").$type<ReturnReason>().notNull(),
+});
+
+// Webhook events received from the payment provider, kept so retried
+// deliveries are only applied once.
+export const paymentEvents = pgTable("payment_events", {
+  id: serial("id").primaryKey(),
+  eventId: text("event_id").notNull().unique(),
+  orderId: integer("order_id").notNull().references(() => orders.id),
+  type: text("type").notNull(),
+  payload: jsonb("payload").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Single-use links sent by email. Only a SHA-256 hash of the token is stored;
+// the raw token exists only in the message. Verification tokens remember the
+// address they were sent to, so changing the email invalidates them.
+export const userTokens = pgTable("user_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  purpose: text("purpose").$type<UserTokenPurpose>().notNull(),
+  tokenHash: text("token_hash").notNull().unique(),
+  email: text("email").notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// TOTP second factor, kept out of the users table so the secret never ends up
+// in user payloads. A row with enabledAt null is an enrollment in progress.
+// lastUsedStep stops a code being replayed within its time window.
+export const twoFactorCredentials = pgTable("two_factor_credentials", {
+  userId: integer("user_id").primaryKey().references(() => users.id, { onDelete: "cascade" }),
+  secret: text("secret").notNull(), // base32
+  enabledAt: timestamp("enabled_at"),
+  recoveryCodeHashes: text("recovery_code_hashes").array().notNull().default([]),
+  lastUsedStep: integer("last_used_step"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Internal notes staff keep on a customer account; never shown to the customer
+export const userNotes = pgTable("user_notes", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  authorId: integer("author_id").references(() => users.id, { onDelete: "set null" }),
+  body: text("body").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Staff actions on user accounts. actorId is null for actions run from the
+// management CLI.
+export const auditLog = pgTable("audit_log", {
+  id: serial("id").primaryKey(),
+  actorId: integer("actor_id").references(() => users.id, { onDelete: "set null" }),
+  action: text("action").$type<AuditAction>().notNull(),
+  targetUserId: integer("target_user_id").references(() => users.id, { onDelete: "cascade" }),
+  details: jsonb("details").$type<Record<string, unknown>>(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Search document for each product: name (weight A), tags (B), category name
+// (C) and description (D). Kept out of the products table so product rows
+// don't carry it, and rebuilt by storage whenever a product or its category
+// changes.
+export const productSearchDocuments = pgTable("product_search_documents", {
+  productId: integer("product_id").primaryKey().references(() => products.id, { onDelete: "cascade" }),
+  document: tsvector("document").notNull(),
+}, (table) => [
+  index("product_search_documents_document_idx").using("gin", table.document),
+]);
+
+// Words searched as one: a search for the term or any of its synonyms also
+// matches the others (e.g. "tv" and "television").
+export const searchSynonyms = pgTable("search_synonyms", {
+  id: serial("id").primaryKey(),
+  term: text("term").notNull().unique(), // stored lower-case
+  synonyms: text("synonyms").array().notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Storefront searches and clicks on their results or on suggestions, for the
+// admin Search insights report. Queries are stored normalized (lower-case
+// words) so that variants of a search are counted together.
+export const searchEvents = pgTable("search_events", {
+  id: serial("id").primaryKey(),
+  type: text("type").$type<SearchEventType>().notNull(),
+  query: text("query").notNull(),
+  resultCount: integer("result_count"), // searches only
+  searcherKey: text("searcher_key"), // searches only, hash of the user id or client IP
+  source: text("source").$type<SearchClickSource>(), // clicks only
+  productId: integer("product_id").references(() => products.id, { onDelete: "set null" }),
+  categoryId: integer("category_id").references(() => categories.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("search_events_created_at_idx").on(table.createdAt),
+  index("search_events_query_idx").on(table.query),
+]);
+
+// Counters for the Postgres rate limit store (server/rate-limit.ts). Each key
+// counts hits in a fixed window ending at resetAt.
+export const rateLimits = pgTable("rate_limits", {
+  key: text("key").primaryKey(),
+  count: integer("count").notNull(),
+  resetAt: timestamp("reset_at").notNull(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// Messages captured by the outbox mailer instead of being delivered, so the
+// email flows can be followed in development from the admin panel.
+export const emailOutbox = pgTable("email_outbox", {
+  id: serial("id").primaryKey(),
+  to: text("to").notNull(),
+  subject: text("subject").notNull(),
+  text: text("text").notNull(),
+  html: text("html"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Money amounts are integer minor units, matching shared/pricing.ts, which
+// also implements how each promotion type is applied.
+export const promotions = pgTable("promotions", {
+  id: serial("id").primaryKey(),
+  code: text("code").notNull().unique(), // stored upper-case
+  description: text("description"),
+  type: text("type").$type<PromotionType>().notNull(),
+  value: integer("value").notNull().default(0), // percent or minor units, depending on type
+  buyQuantity: integer("buy_quantity"),
+  getQuantity: integer("get_quantity"),
+  minSubtotal: integer("min_subtotal").notNull().default(0),
+  productIds: integer("product_ids").array(),
+  categoryIds: integer("category_ids").array(),
+  usageLimit: integer("usage_limit"), // total redemptions, null = unlimited
+  perCustomerLimit: integer("per_customer_limit"), // null = unlimited
+  usageCount: integer("usage_count").notNull().default(0),
+  startsAt: timestamp("starts_at"),
+  endsAt: timestamp("ends_at"),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// One row per order that used a promotion, for per-customer limits. Guests are
+// identified by their contact email.
+export const promotionRedemptions = pgTable("promotion_redemptions", {
+  id: serial("id").primaryKey(),
+  promotionId: integer("promotion_id").notNull().references(() => promotions.id, { onDelete: "cascade" }),
+  orderId: integer("order_id").notNull().references(() => orders.id),
+  userId: integer("user_id").references(() => users.id),
+  email: text("email").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Single-row table holding the settings ops can change without a redeploy.
+// Money amounts are integer minor units, matching shared/pricing.ts.
+export const storeSettings = pgTable("store_settings", {
+  id: serial("id").primaryKey(),
+  currency: text("currency").notNull().default("USD"),
+  currencySymbol: text("currency_symbol").notNull().default("$"),
+  taxRateBps: integer("tax_rate_bps").notNull().default(800), // 800 = 8%
+  freeShippingThreshold: integer("free_shipping_threshold").notNull().default(5000),
+  flatShippingFee: integer("flat_shipping_fee").notNull().default(999),
+  requireAdminTwoFactor: boolean("require_admin_two_factor").notNull().default(false),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
 // Relations
-export const usersRelations = relations(users, ({ many }) => ({
+export const usersRelations = relations(users, ({ one, many }) => ({
   cartItems: many(cartItems),
   orders: many(orders),
+  reviews: many(reviews),
+  wishlistItems: many(wishlistItems),
+  addresses: many(addresses),
+  tokens: many(userTokens),
+  twoFactorCredential: one(twoFactorCredentials),
+  notes: many(userNotes, { relationName: "noteSubject" }),
+  auditLog: many(auditLog, { relationName: "auditTarget" }),
+}));
+
+export const userNotesRelations = relations(userNotes, ({ one }) => ({
+  user: one(users, {
+    fields: [userNotes.userId],
+    references: [users.id],
+    relationName: "noteSubject",
+  }),
+  author: one(users, {
+    fields: [userNotes.authorId],
+    references: [users.id],
+  }),
+}));
+
+export const auditLogRelations = relations(auditLog, ({ one }) => ({
+  actor: one(users, {
+    fields: [auditLog.actorId],
+    references: [users.id],
+  }),
+  targetUser: one(users, {
+    fields: [auditLog.targetUserId],
+    references: [users.id],
+    relationName: "auditTarget",
+  }),
+}));
+
+export const twoFactorCredentialsRelations = relations(twoFactorCredentials, ({ one }) => ({
+  user: one(users, {
+    fields: [twoFactorCredentials.userId],
+    references: [users.id],
+  }),
+}));
+
+export const userTokensRelations = relations(userTokens, ({ one }) => ({
+  user: one(users, {
+    fields: [userTokens.userId],
+    references: [users.id],
+  }),
+}));
+
+export const addressesRelations = relations(addresses, ({ one }) => ({
+  user: one(users, {
+    fields: [addresses.userId],
+    references: [users.id],
+  }),
 }));
 
 export const categoriesRelations = relations(categories, ({ many }) => ({
@@ -88,6 +404,8 @@ export const productsRelations = relations(products, ({ one, many }) => ({
   }),
   cartItems: many(cartItems),
   orderItems: many(orderItems),
+  reviews: many(reviews),
+  wishlistItems: many(wishlistItems),
 }));
 
 export const cartItemsRelations = relations(cartItems, ({ one }) => ({
@@ -101,12 +419,59 @@ export const cartItemsRelations = relations(cartItems, ({ one }) => ({
   }),
 }));
 
+export const wishlistItemsRelations = relations(wishlistItems, ({ one }) => ({
+  user: one(users, {
+    fields: [wishlistItems.userId],
+    references: [users.id],
+  }),
+  product: one(products, {
+    fields: [wishlistItems.productId],
+    references: [products.id],
+  }),
+}));
+
 export const ordersRelations = relations(orders, ({ one, many }) => ({
   user: one(users, {
     fields: [orders.userId],
     references: [users.id],
   }),
   orderItems: many(orderItems),
+  statusEvents: many(orderStatusEvents),
+  returnRequests: many(returnRequests),
+}));
+
+export const returnRequestsRelations = relations(returnRequests, ({ one, many }) => ({
+  order: one(orders, {
+    fields: [returnRequests.orderId],
+    references: [orders.id],
+  }),
+  user: one(users, {
+    fields: [returnRequests.userId],
+    references: [users.id],
+  }),
+  items: many(returnItems),
+}));
+
+export const returnItemsRelations = relations(returnItems, ({ one }) => ({
+  returnRequest: one(returnRequests, {
+    fields: [returnItems.returnId],
+    references: [returnRequests.id],
+  }),
+  orderItem: one(orderItems, {
+    fields: [returnItems.orderItemId],
+    references: [orderItems.id],
+  }),
+}));
+
+export const orderStatusEventsRelations = relations(orderStatusEvents, ({ one }) => ({
+  order: one(orders, {
+    fields: [orderStatusEvents.orderId],
+    references: [orders.id],
+  }),
+  actor: one(users, {
+    fields: [orderStatusEvents.actorId],
+    references: [users.id],
+  }),
 }));
 
 export const orderItemsRelations = relations(orderItems, ({ one }) => ({
@@ -120,6 +485,39 @@ export const orderItemsRelations = relations(orderItems, ({ one }) => ({
   }),
 }));
 
+export const paymentEventsRelations = relations(paymentEvents, ({ one }) => ({
+  order: one(orders, {
+    fields: [paymentEvents.orderId],
+    references: [orders.id],
+  }),
+}));
+
+export const promotionsRelations = relations(promotions, ({ many }) => ({
+  redemptions: many(promotionRedemptions),
+}));
+
+export const promotionRedemptionsRelations = relations(promotionRedemptions, ({ one }) => ({
+  promotion: one(promotions, {
+    fields: [promotionRedemptions.promotionId],
+    references: [promotions.id],
+  }),
+  order: one(orders, {
+    fields: [promotionRedemptions.orderId],
+    references: [orders.id],
+  }),
+}));
+
+export const reviewsRelations = relations(reviews, ({ one }) => ({
+  product: one(products, {
+    fields: [reviews.productId],
+    references: [products.id],
+  }),
+  user: one(users, {
+    fields: [reviews.userId],
+    references: [users.id],
+  }),
+}));
+
 // Schemas
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
@@ -138,31 +536,373 @@ export const insertProductSchema = createInsertSchema(products).omit({
   createdAt: true,
 });
 
+const searchWordSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .min(1)
+  .max(50)
+  .regex(new RegExp("^[\\p{L}\\p{N}]+( [\\p{L}\\p{N}]+)*$", "u"), "Use letters and numbers, with single spaces between words");
+
+export const insertSearchSynonymSchema = z.object({
+  term: searchWordSchema,
+  synonyms: z.array(searchWordSchema).min(1, "Add at least one synonym").max(20),
+});
+
+// "relevance" only applies to searches, which use it by default; everything
+// else defaults to "newest". Best-selling counts units in paid orders.
+export const productSortSchema = z.enum(["relevance", "featured", "newest", "price_asc", "price_desc", "rating", "best_selling"]);
+
+const queryFlagSchema = z.enum(["true", "false"]).transform((value) => value === "true");
+
+// The query string of GET /api/products. Every filter is a plain string in
+// the URL (tags comma-separated), so the storefront can keep them there.
+export const productQuerySchema = z.object({
+  search: z.string().trim().max(100).transform((value) => value || undefined).optional(),
+  categoryId: z.coerce.number().int().positive().optional(),
+  minPrice: z.coerce.number().min(0).optional(), // inclusive
+  maxPrice: z.coerce.number().positive().optional(), // exclusive
+  minRating: z.coerce.number().min(0).max(5).optional(),
+  inStock: queryFlagSchema.optional(),
+  onSale: queryFlagSchema.optional(),
+  featured: queryFlagSchema.optional(),
+  tags: z
+    .string()
+    .transform((value) => value.split(",").map((tag) => tag.trim()).filter(Boolean))
+    .pipe(z.array(z.string().max(50)).max(20))
+    .optional(),
+  sort: productSortSchema.optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+export const searchSuggestQuerySchema = z.object({
+  q: z.string().trim().min(1).max(100),
+});
+
+// A click on a search result or suggestion, sent by the storefront. Picking a
+// suggested query or "Search for" has neither a product nor a category.
+export const searchClickSchema = z.object({
+  query: z.string().trim().min(1).max(100),
+  source: z.enum(SEARCH_CLICK_SOURCES),
+  productId: z.number().int().positive().optional(),
+  categoryId: z.number().int().positive().optional(),
+});
+
+export const searchInsightsQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(365).default(30),
+});
+
 export const insertCartItemSchema = createInsertSchema(cartItems).omit({
   id: true,
   createdAt: true,
 });
 
-export const insertOrderSchema = createInsertSchema(orders).omit({
+export const insertWishlistItemSchema = createInsertSchema(wishlistItems).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const orderStatusSchema = z.enum(ORDER_STATUSES);
+
+export const insertOrderSchema = createInsertSchema(orders, {
+  status: orderStatusSchema,
+  shippingAddress: addressSchema,
+  billingAddress: addressSchema.nullish(),
+}).omit({
   id: true,
   createdAt: true,
 });
 
+export const insertAddressSchema = addressFieldsSchema.extend({
+  label: z.string().trim().max(40).nullish(),
+  isDefaultShipping: z.boolean().default(false),
+  isDefaultBilling: z.boolean().default(false),
+}).superRefine(validatePostalAddress);
+
 export const insertOrderItemSchema = createInsertSchema(orderItems).omit({
   id: true,
   createdAt: true,
 });
 
+export const insertReviewSchema = createInsertSchema(reviews, {
+  rating: (schema) => schema.int().min(1).max(5),
+  title: (schema) => schema.min(1).max(120),
+  body: (schema) => schema.min(1).max(5000),
+}).pick({
+  rating: true,
+  title: true,
+  body: true,
+});
+
+export const userRoleSchema = z.enum(USER_ROLES);
+
+// Gives an existing account a role, looked up by username or email
+export const assignRoleSchema = z.object({
+  identifier: z.string().trim().min(1, "Enter a username or email"),
+  role: userRoleSchema,
+});
+
+export const adminUserSortSchema = z.enum(["newest", "oldest", "name", "orders", "lifetime_value"]);
+
+export const adminUserQuerySchema = z.object({
+  search: z.string().trim().max(100).optional(),
+  role: userRoleSchema.optional(),
+  status: z.enum(["active", "disabled"]).optional(),
+  sort: adminUserSortSchema.default("newest"),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+export const updateUserRoleSchema = z.object({
+  role: userRoleSchema,
+});
+
+export const disableUserSchema = z.object({
+  reason: z.string().trim().max(500).optional(),
+});
+
+export const insertUserNoteSchema = z.object({
+  body: z.string().trim().min(1, "Note can't be empty").max(2000),
+});
+
+export const reviewStatusSchema = z.enum(["pending", "approved", "rejected"]);
+export const reviewSortSchema = z.enum(["newest", "oldest", "highest", "lowest"]);
+
+export const updateOrderStatusSchema = z.object({
+  status: orderStatusSchema,
+  note: z.string().max(500).optional(),
+});
+
+export const returnStatusSchema = z.enum(RETURN_STATUSES);
+export const returnReasonSchema = z.enum(RETURN_REASONS);
+
+export const createReturnSchema = z.object({
+  items: z.array(z.object({
+    orderItemId: z.number().int(),
+    quantity: z.number().int().positive(),
+    reason: returnReasonSchema,
+  })).min(1, "Select at least one item to return"),
+  note: z.string().max(1000).optional(),
+});
+
+export const updateReturnStatusSchema = z.object({
+  status: returnStatusSchema,
+  adminNote: z.string().max(1000).optional(),
+  refundAmount: z.number().int().nonnegative().optional(), // minor units, defaults to the returned lines' share of the total
+});
+
+export const paymentStatusSchema = z.enum(["pending", "authorized", "paid", "failed", "voided", "refunded"]);
+
+export const promotionTypeSchema = z.enum(["percentage", "fixed_amount", "free_shipping", "buy_x_get_y"]);
+
+export const insertPromotionSchema = createInsertSchema(promotions, {
+  code: (schema) => schema.min(3).max(32).regex(/^[A-Za-z0-9_-]+$/, "Use letters, numbers, dashes or underscores").toUpperCase(),
+  type: promotionTypeSchema,
+  value: (schema) => schema.int().min(0),
+  buyQuantity: (schema) => schema.int().min(1),
+  getQuantity: (schema) => schema.int().min(1),
+  minSubtotal: (schema) => schema.int().min(0),
+  usageLimit: (schema) => schema.int().min(1),
+  perCustomerLimit: (schema) => schema.int().min(1),
+  startsAt: z.coerce.date().nullish(),
+  endsAt: z.coerce.date().nullish(),
+}).omit({
+  id: true,
+  usageCount: true,
+  createdAt: true,
+}).superRefine((promotion, ctx) => {
+  if ((promotion.type === "percentage" || promotion.type === "fixed_amount") && !promotion.value) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["value"], message: "A discount value is required" });
+  }
+  if (promotion.type === "percentage" && (promotion.value ?? 0) > 100) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["value"], message: "Percentage cannot exceed 100" });
+  }
+  if (promotion.type === "buy_x_get_y" && (!promotion.buyQuantity || !promotion.getQuantity)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["buyQuantity"], message: "Buy and get quantities are required" });
+  }
+  if (promotion.startsAt && promotion.endsAt && promotion.endsAt <= promotion.startsAt) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["endsAt"], message: "End date must be after the start date" });
+  }
+});
+
+export const updateStoreSettingsSchema = createInsertSchema(storeSettings, {
+  currency: (schema) => schema.length(3).toUpperCase(),
+  currencySymbol: (schema) => schema.min(1).max(4),
+  taxRateBps: (schema) => schema.int().min(0).max(10000),
+  freeShippingThreshold: (schema) => schema.int().min(0),
+  flatShippingFee: (schema) => schema.int().min(0),
+}).omit({
+  id: true,
+  updatedAt: true,
+}).partial();
+
 // Types
 export type User = typeof users.$inferSelect;
+// A user as the API sends them to the client. Fields are listed explicitly so
+// the password hash, and any sensitive column added later, never goes out.
+export type PublicUser = Pick<User, "id" | "username" | "email" | "fullName" | "role" | "emailVerifiedAt" | "createdAt">;
 export type InsertUser = z.infer<typeof insertUserSchema>;
+export type UserTokenPurpose = "password_reset" | "email_verification";
+export type UserToken = typeof userTokens.$inferSelect;
+export type InsertUserToken = Pick<UserToken, "userId" | "purpose" | "tokenHash" | "email" | "expiresAt">;
+export type TwoFactorCredential = typeof twoFactorCredentials.$inferSelect;
+// A staff account as listed on the admin Team tab
+export type StaffMember = Pick<User, "id" | "username" | "email" | "fullName" | "role">;
+export type AdminUserSort = z.infer<typeof adminUserSortSchema>;
+export type AdminUserQuery = z.infer<typeof adminUserQuerySchema>;
+// A user with their order figures, as listed on the admin Customers tab.
+// Lifetime value counts orders that were paid and not refunded.
+export type UserSummary = Pick<
+  User,
+  "id" | "username" | "email" | "fullName" | "role" | "emailVerifiedAt" | "disabledAt" | "createdAt"
+> & { orderCount: number; lifetimeValue: string };
+export type UserNote = typeof userNotes.$inferSelect;
+export type InsertUserNote = Pick<UserNote, "userId" | "authorId" | "body">;
+export type UserNoteWithAuthor = UserNote & { author: Pick<User, "id" | "fullName"> | null };
+export type AuditAction =
+  | "user.disabled"
+  | "user.enabled"
+  | "user.password_reset_sent"
+  | "user.password_reset"
+  | "user.role_changed"
+  | "user.note_added"
+  | "user.sessions_revoked";
+export type AuditLogEntry = typeof auditLog.$inferSelect;
+export type InsertAuditLogEntry = Pick<AuditLogEntry, "actorId" | "action" | "targetUserId" | "details">;
+export type AuditLogEntryWithActor = AuditLogEntry & { actor: Pick<User, "id" | "fullName"> | null };
+// A signed-in session of a user. The id is a hash of the session id, which
+// is never sent to the client.
+export type UserSession = {
+  id: string;
+  signedInAt: string | null;
+  expiresAt: string | null;
+  ip: string | null;
+  userAgent: string | null;
+};
+export type AdminUserDetail = {
+  user: UserSummary;
+  orders: Order[];
+  sessions: UserSession[];
+  notes: UserNoteWithAuthor[];
+  auditLog: AuditLogEntryWithActor[];
+};
+// Who placed an order, as shown to staff
+export type OrderCustomer = Pick<User, "id" | "username" | "fullName" | "email">;
+// What the account security page is told; never includes the secret
+export type TwoFactorStatus = {
+  enabled: boolean;
+  recoveryCodesRemaining: number;
+  // The admin policy applies to this user
+  required: boolean;
+  // This session has passed a second factor
+  verified: boolean;
+};
+export type OutboxEmail = typeof emailOutbox.$inferSelect;
+export type InsertOutboxEmail = Omit<OutboxEmail, "id" | "createdAt">;
 export type Category = typeof categories.$inferSelect;
 export type InsertCategory = z.infer<typeof insertCategorySchema>;
 export type Product = typeof products.$inferSelect;
 export type InsertProduct = z.infer<typeof insertProductSchema>;
 export type CartItem = typeof cartItems.$inferSelect;
 export type InsertCartItem = z.infer<typeof insertCartItemSchema>;
+export type WishlistItem = typeof wishlistItems.$inferSelect;
+export type InsertWishlistItem = z.infer<typeof insertWishlistItemSchema>;
 export type Order = typeof orders.$inferSelect;
 export type InsertOrder = z.infer<typeof insertOrderSchema>;
 export type OrderItem = typeof orderItems.$inferSelect;
+export type Address = typeof addresses.$inferSelect;
+export type InsertAddress = z.infer<typeof insertAddressSchema>;
+export type { PostalAddress };
 export type InsertOrderItem = z.infer<typeof insertOrderItemSchema>;
+export type Review = typeof reviews.$inferSelect;
+export type InsertReview = z.infer<typeof insertReviewSchema> & {
+  productId: number;
+  userId: number;
+  isVerifiedPurchase: boolean;
+};
+export type ReviewStatus = z.infer<typeof reviewStatusSchema>;
+export type ReviewSort = z.infer<typeof reviewSortSchema>;
+export type ReviewWithAuthor = Review & { authorName: string };
+export type { OrderStatus };
+export type OrderActorRole = "customer" | "admin" | "system";
+export type OrderActor = { id: number | null; role: OrderActorRole };
+export type OrderStatusEvent = typeof orderStatusEvents.$inferSelect;
+export type OrderStatusEventWithActor = OrderStatusEvent & { actorName: string | null };
+export type { ReturnStatus, ReturnReason };
+export type ReturnRequest = typeof returnRequests.$inferSelect;
+export type ReturnItem = typeof returnItems.$inferSelect;
+export type ReturnLine = z.infer<typeof createReturnSchema>["items"][number];
+export type ReturnRequestWithItems = ReturnRequest & {
+  items: Array<ReturnItem & { orderItem: OrderItem & { product: Product } }>;
+};
+export type PaymentStatus = z.infer<typeof paymentStatusSchema>;
+export type PaymentEvent = typeof paymentEvents.$inferSelect;
+export type InsertPaymentEvent = Omit<PaymentEvent, "id" | "createdAt">;
+export type Promotion = typeof promotions.$inferSelect;
+export type InsertPromotion = z.infer<typeof insertPromotionSchema>;
+export type PromotionRedemption = typeof promotionRedemptions.$inferSelect;
+export type SearchSynonym = typeof searchSynonyms.$inferSelect;
+export type InsertSearchSynonym = z.infer<typeof insertSearchSynonymSchema>;
+// Search matches in a product's name and description, delimited with the
+// markers from shared/search.ts. The snippet is null without a description.
+export type ProductHighlight = { name: string; snippet: string | null };
+export type ProductSearchResult = Product & { highlight: ProductHighlight };
+export type ProductSort = z.infer<typeof productSortSchema>;
+export type ProductQuery = z.infer<typeof productQuerySchema>;
+// Counts of matching products per filter value. Each facet counts with every
+// other filter applied but not its own, so picking one value doesn't hide
+// the alternatives.
+export type ProductFacets = {
+  categories: Array<{ categoryId: number; count: number }>;
+  tags: Array<{ tag: string; count: number }>; // most common first
+  priceRanges: Array<{ min: number; max: number | null; count: number }>; // PRICE_RANGES
+  ratings: Array<{ minRating: number; count: number }>; // RATING_THRESHOLDS
+  inStock: number;
+  onSale: number;
+};
+export type ProductListing = {
+  products: Array<Product | ProductSearchResult>;
+  total: number;
+  facets: ProductFacets;
+};
+// Search-as-you-type results. A product's name is highlighted like
+// ProductHighlight's; queries are popular searches starting with the text.
+export type ProductSuggestion = Pick<Product, "id" | "name" | "price" | "originalPrice" | "imageUrl"> & { highlight: string };
+export type CategorySuggestion = Pick<Category, "id" | "name" | "slug">;
+export type SearchSuggestions = {
+  products: ProductSuggestion[];
+  categories: CategorySuggestion[];
+  queries: string[];
+};
+export type SearchEvent = typeof searchEvents.$inferSelect;
+export type InsertSearchEvent = Omit<SearchEvent, "id" | "createdAt">;
+export type SearchClick = z.infer<typeof searchClickSchema>;
+// clickThroughRate is result clicks per search; it can pass 1 when shoppers
+// open several results
+export type SearchQueryStats = {
+  query: string;
+  searches: number;
+  zeroResultSearches: number;
+  resultClicks: number;
+  suggestionClicks: number;
+  clickThroughRate: number;
+};
+export type SearchTrendDay = {
+  date: string; // YYYY-MM-DD, UTC
+  searches: number;
+  zeroResultSearches: number;
+  clicks: number;
+};
+export type SearchInsights = {
+  totals: Omit<SearchTrendDay, "date">;
+  topQueries: SearchQueryStats[]; // most searched first
+  zeroResultQueries: Array<{ query: string; searches: number; lastSearchedAt: Date }>;
+  trend: SearchTrendDay[]; // every day of the period, oldest first
+};
+export type StoreSettings = typeof storeSettings.$inferSelect;
+export type UpdateStoreSettings = z.infer<typeof updateStoreSettingsSchema>;
+export type PublicStoreSettings = Pick<
+  StoreSettings,
+  "currency" | "currencySymbol" | "taxRateBps" | "freeShippingThreshold" | "flatShippingFee"
+>;
@@ -0,0 +1,48 @@
+// Search results mark matched words in their highlights with these control
+// characters rather than HTML, so product text never has to be rendered as
+// markup on the client.
+export const HIGHLIGHT_START = "\u0002";
+export const HIGHLIGHT_END = "\u0003";
+
+export type HighlightPart = { text: string; highlighted: boolean };
+
+export function splitHighlights(text: string): HighlightPart[] {
+  const parts: HighlightPart[] = [];
+  let highlighted = false;
+  let current = "";
+  for (const char of text) {
+    if (char === HIGHLIGHT_START || char === HIGHLIGHT_END) {
+      if (current) parts.push({ text: current, highlighted });
+      current = "";
+      highlighted = char === HIGHLIGHT_START;
+    } else {
+      current += char;
+    }
+  }
+  if (current) parts.push({ text: current, highlighted });
+  return parts;
+}
+
+// Buckets for the catalog's price facet, in the store's currency: min is
+// inclusive and max exclusive, as in the minPrice and maxPrice filters
+export const PRICE_RANGES: Array<{ min: number; max: number | null }> = [
+  { min: 0, max: 25 },
+  { min: 25, max: 50 },
+  { min: 50, max: 100 },
+  { min: 100, max: 200 },
+  { min: 200, max: null },
+];
+
+// "4 stars & up" and so on, for the rating facet
+export const RATING_THRESHOLDS = [4, 3, 2, 1];
+
+// How many of the most common tags the tag facet lists
+export const TAG_FACET_LIMIT = 20;
+
+// Rows of search_events: a catalog search, or a click on one of its results or
+// on a search suggestion
+export const SEARCH_EVENT_TYPES = ["search", "click"] as const;
+export type SearchEventType = (typeof SEARCH_EVENT_TYPES)[number];
+
+export const SEARCH_CLICK_SOURCES = ["results", "suggestions"] as const;
+export type SearchClickSource = (typeof SEARCH_CLICK_SOURCES)[number];